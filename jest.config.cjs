@@ -3,9 +3,8 @@ module.exports = {
   testEnvironment: 'node',
   testMatch: ['**/__tests__/**/*.test.ts'],
   moduleFileExtensions: ['ts', 'js', 'json'],
-  globals: {
-    'ts-jest': {
-      tsconfig: 'tsconfig.json',
-    },
+  transform: {
+    // Jest runs the sources as CommonJS, so drop the ESM-only verbatimModuleSyntax used by the Vite build
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { verbatimModuleSyntax: false } }],
   },
-}; 
\ No newline at end of file
+};
@@ -5,7 +5,7 @@ export default defineManifest({
   name: 'Better AI Agents',
   version: '0.1.0',
   description: 'A Better AI Agent',
-  permissions: ['storage', 'scripting', 'tabs', 'activeTab', 'sidePanel'],
+  permissions: ['storage', 'unlimitedStorage', 'scripting', 'tabs', 'activeTab', 'sidePanel', 'debugger', 'webRequest'],
   host_permissions: ['<all_urls>'],
   background: { 
     service_worker: 'src/background/main.ts',
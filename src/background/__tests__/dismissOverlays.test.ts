@@ -0,0 +1,59 @@
+/**
+ * @jest-environment jsdom
+ */
+import { dismissOverlaysLogic } from '../injectable/scriptBuilder';
+
+// jsdom does no layout: give every element a box and innerText so visibility checks pass
+beforeAll(() => {
+  Object.defineProperty(HTMLElement.prototype, 'innerText', { configurable: true, get() { return this.textContent; } });
+  HTMLElement.prototype.getBoundingClientRect = () => ({ x: 0, y: 0, top: 0, left: 0, right: 200, bottom: 40, width: 200, height: 40, toJSON: () => ({}) });
+});
+
+const FIXED = 'style="position: fixed; z-index: 100"';
+let clicked: string[];
+
+function render(html: string) {
+  document.body.innerHTML = html;
+  clicked = [];
+  document.body.querySelectorAll('button, a').forEach(element => element.addEventListener('click', event => {
+    event.preventDefault();
+    clicked.push(element.textContent || '');
+  }));
+}
+
+describe('dismissOverlaysLogic generic pass', () => {
+  it('rejects a fixed cookie banner named as such', async () => {
+    render(`<div id="cookie-banner" ${FIXED}>We use cookies. <button>Accept all</button><button>Reject all</button></div>`);
+    await expect(dismissOverlaysLogic('reject', [])).resolves.toEqual([
+      { kind: 'consent', method: 'reject', label: 'Reject all', url: location.href }
+    ]);
+    expect(clicked).toEqual(['Reject all']);
+  });
+
+  it('treats a consent dialog without a telling class as a cookie notice', async () => {
+    render(`<div role="dialog" class="banner" ${FIXED}>Your privacy matters. <button>Decline</button></div>`);
+    await expect(dismissOverlaysLogic('reject', [])).resolves.toEqual([
+      { kind: 'consent', method: 'reject', label: 'Decline', url: location.href }
+    ]);
+  });
+
+  it('leaves sticky headers with privacy or tracking links alone', async () => {
+    render(`<header class="site-header" ${FIXED}>
+      <a href="/privacy">Privacy</a> <a href="/orders">Order tracking</a> <button class="menu-close">Close</button>
+    </header>`);
+    await expect(dismissOverlaysLogic('reject', [])).resolves.toEqual([]);
+    expect(clicked).toEqual([]);
+  });
+
+  it('does not count plain links as banner buttons', async () => {
+    render(`<div id="cookie-notice" ${FIXED}>We use cookies. <a href="/cookies">Learn more</a></div>`);
+    await expect(dismissOverlaysLogic('reject', [])).resolves.toEqual([]);
+    expect(clicked).toEqual([]);
+  });
+
+  it('does not fall back to elements that merely have "close" in their class', async () => {
+    render(`<div class="cookie-consent" ${FIXED}>Cookie settings <button>Manage</button><button class="disclosure-toggle">Details</button></div>`);
+    await expect(dismissOverlaysLogic('close', [])).resolves.toEqual([]);
+    expect(clicked).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { PageActivityTracker, LONG_REQUEST_MS, pageActivity, waitForNavigation, shouldSettleAfter, describeWaitCondition } from '../pageActivity';
+
+describe('PageActivityTracker', () => {
+  it('counts quiet time from the last request or from when the wait started, whichever is later', () => {
+    const tracker = new PageActivityTracker();
+    expect(tracker.networkState(1, 1000, 1500)).toEqual({ pending: 0, quietForMs: 500 });
+
+    tracker.requestStarted(1, 'a', 1000);
+    tracker.requestStarted(1, 'b', 1100);
+    tracker.requestFinished(1, 'a', 1200);
+    expect(tracker.networkState(1, 0, 1300)).toEqual({ pending: 1, quietForMs: 0 });
+
+    tracker.requestFinished(1, 'b', 1400);
+    expect(tracker.networkState(1, 0, 1900)).toEqual({ pending: 0, quietForMs: 500 });
+    expect(tracker.networkState(1, 1800, 1900)).toEqual({ pending: 0, quietForMs: 100 });
+  });
+
+  it('stops counting requests that stay open longer than LONG_REQUEST_MS', () => {
+    const tracker = new PageActivityTracker();
+    tracker.requestStarted(1, 'poll', 0);
+    expect(tracker.networkState(1, 0, LONG_REQUEST_MS).pending).toBe(1);
+    expect(tracker.networkState(1, 0, LONG_REQUEST_MS + 1)).toEqual({ pending: 0, quietForMs: LONG_REQUEST_MS + 1 });
+  });
+
+  it('keeps activity per tab and forgets closed tabs', () => {
+    const tracker = new PageActivityTracker();
+    tracker.requestStarted(1, 'a', 100);
+    tracker.urlChanged(2, 200);
+    expect(tracker.networkState(2, 0, 300).pending).toBe(0);
+    expect(tracker.lastUrlChangeAt(2)).toBe(200);
+    tracker.forget(2);
+    expect(tracker.lastUrlChangeAt(2)).toBe(0);
+  });
+});
+
+describe('waitForNavigation', () => {
+  beforeAll(() => {
+    global.chrome = { tabs: { get: jest.fn().mockResolvedValue({ id: 7, status: 'complete' }) } } as any;
+  });
+
+  it('waits for a load or URL change that started after the step did', async () => {
+    const since = Date.now();
+    await expect(waitForNavigation(7, since, 150)).resolves.toBe(false);
+    pageActivity.loadStarted(7);
+    await expect(waitForNavigation(7, since, 150)).resolves.toBe(true);
+    pageActivity.urlChanged(8);
+    await expect(waitForNavigation(8, since, 150)).resolves.toBe(true);
+  });
+});
+
+describe('shouldSettleAfter', () => {
+  it('settles after clicks, submits, Enter and navigations when automatic waiting is on', () => {
+    expect(shouldSettleAfter({ action: 'click', selector: '#save' }, true)).toBe(true);
+    expect(shouldSettleAfter({ action: 'type', selector: '#q', text: 'shoes' }, true)).toBe(false);
+    expect(shouldSettleAfter({ action: 'type', selector: '#q', text: 'shoes', submit: true }, true)).toBe(true);
+    expect(shouldSettleAfter({ action: 'press', keys: 'Enter' }, true)).toBe(true);
+    expect(shouldSettleAfter({ action: 'press', keys: 'Escape' }, true)).toBe(false);
+    expect(shouldSettleAfter({ action: 'go_back' }, true)).toBe(true);
+    expect(shouldSettleAfter({ action: 'hover', selector: '#menu' }, true)).toBe(false);
+    expect(shouldSettleAfter({ action: 'click', selector: '#save' }, false)).toBe(false);
+  });
+
+  it('lets the step override the setting', () => {
+    expect(shouldSettleAfter({ action: 'click', selector: '#tab', settle: false }, true)).toBe(false);
+    expect(shouldSettleAfter({ action: 'press', keys: 'ArrowDown', settle: true }, false)).toBe(true);
+  });
+});
+
+describe('describeWaitCondition', () => {
+  it('names what the wait step waits for', () => {
+    expect(describeWaitCondition({ until: 'network_idle' })).toBe('the network to be idle');
+    expect(describeWaitCondition({ until: 'url', url: '*/orders/*' })).toBe('the URL to match "*/orders/*"');
+  });
+});
@@ -1,11 +1,269 @@
-import { handleSelect, handleHover, handleClear } from '../planExecutor';
+import { handleSelect, handleHover, handleClear, handleClick, handleType, handlePress, handleUpload, handleDrag, handleCloseTab, handleAssert, handleWait, formatSteps, executePlanSteps } from '../planExecutor';
+import { AssertionFailedError } from '../../common/assertions';
+import { TabRegistry } from '../tabRegistry';
+import { actionCoreLogic, actionabilityLogic, waitForElementLogic } from '../injectable/scriptBuilder';
+import { RunController, RunCancelledError } from '../runControl';
+
+// Mock chrome APIs: every frame reports success for the wait, the actionability gate and the action
+global.chrome = {
+  scripting: {
+    executeScript: jest.fn().mockResolvedValue([{ frameId: 0, result: { success: true, found: true } }]),
+  },
+  runtime: {
+    getPlatformInfo: jest.fn().mockResolvedValue({ os: 'linux' }),
+    sendMessage: jest.fn().mockResolvedValue(undefined),
+  },
+  tabs: {
+    get: jest.fn().mockResolvedValue({ id: 1, url: 'https://www.example.com/page' }),
+    remove: jest.fn().mockResolvedValue(undefined),
+    update: jest.fn().mockResolvedValue({}),
+  },
+  debugger: {
+    attach: jest.fn().mockRejectedValue(new Error('Another debugger is already attached to the tab')),
+    detach: jest.fn().mockResolvedValue(undefined),
+    sendCommand: jest.fn().mockResolvedValue({}),
+  },
+  storage: {
+    local: {
+      get: jest.fn().mockResolvedValue({
+        selector_memory: [{
+          id: 'learned', site: 'example.com', target: 'search_input', selector: '#learned-search',
+          successCount: 2, failureCount: 0, pinned: false, createdAt: 0, lastUsedAt: 0
+        }]
+      }),
+      set: jest.fn().mockResolvedValue(undefined),
+    },
+  },
+} as any;
 
 describe('planExecutor handlers', () => {
+  beforeEach(() => {
+    (chrome.scripting.executeScript as jest.Mock).mockClear();
+  });
+
   it('should have handler functions defined', () => {
     expect(typeof handleSelect).toBe('function');
     expect(typeof handleHover).toBe('function');
     expect(typeof handleClear).toBe('function');
   });
 
-  // Add more detailed unit tests with mocks as needed
-}); 
\ No newline at end of file
+  it('handleSelect requires a value or label', async () => {
+    await expect(handleSelect(1, { action: 'select', selector: '#country' })).rejects.toThrow('value or label');
+    expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+  });
+
+  it('handleSelect passes the option value to the injected action', async () => {
+    await handleSelect(1, { action: 'select', selector: '#country', value: 'Germany' });
+    const actionCall = (chrome.scripting.executeScript as jest.Mock).mock.calls[3][0];
+    expect(actionCall.args.slice(0, 4)).toEqual(['select', '#country', false, 'Germany']);
+  });
+
+  it('handleClear surfaces the frame error when no frame succeeds', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true, usable: true, ready: false } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true, usable: true, ready: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { success: false, error: 'Element is not an input, textarea or contenteditable element' } }]);
+    await expect(handleClear(1, { action: 'clear', selector: '#title' })).rejects.toThrow('not an input');
+  });
+
+  it('runs steps with a frame locator only in the matching frame', async () => {
+    const frames = [
+      { frameId: 0, result: { url: 'https://shop.example.com/checkout', name: '', childFrameIds: [3], childUrls: [] } },
+      { frameId: 3, result: { url: 'https://js.stripe.com/v3/card', name: 'card', childFrameIds: [], childUrls: [] } }
+    ];
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce(frames)
+      .mockResolvedValueOnce([{ frameId: 3, result: { found: true } }])
+      .mockResolvedValueOnce(frames)
+      .mockResolvedValueOnce([{ frameId: 3, result: { found: true, usable: true, ready: false } }])
+      .mockResolvedValueOnce([{ frameId: 3, result: { found: true, usable: true, ready: true } }])
+      .mockResolvedValueOnce([{ frameId: 3, result: { success: true, frameUrl: 'https://js.stripe.com/v3/card' } }]);
+    const report = await handleClear(1, { action: 'clear', selector: '#cardnumber', frame: { url: 'stripe.com' } });
+    const calls = (chrome.scripting.executeScript as jest.Mock).mock.calls;
+    expect(calls[1][0].target).toEqual({ tabId: 1, frameIds: [3] });
+    for (const call of calls.slice(3)) expect(call[0].target).toEqual({ tabId: 1, frameIds: [3] });
+    expect(report.frame).toEqual({ frameId: 3, url: 'https://js.stripe.com/v3/card' });
+  });
+
+  it('fails when a frame locator matches no frame', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { url: 'https://shop.example.com/', name: '', childFrameIds: [], childUrls: [] } }]);
+    await expect(handleClear(1, { action: 'clear', selector: '#cardnumber', frame: { name: 'card' } }))
+      .rejects.toThrow('No frame name="card" in the page');
+  });
+
+  it('falls back to synthetic typing when trusted input is unavailable', async () => {
+    await handleType(1, { action: 'type', selector: '#q', text: 'shoes', input: 'trusted' });
+    const actionTypes = (chrome.scripting.executeScript as jest.Mock).mock.calls
+      .filter(([injection]) => injection.func === actionCoreLogic)
+      .map(([injection]) => injection.args[0]);
+    expect(actionTypes).toEqual(['select-text', 'type']);
+    expect(chrome.debugger.sendCommand).not.toHaveBeenCalled();
+  });
+
+  it('handlePress focuses the target and then presses the keys in its frame', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: false, usable: false, ready: false } }, { frameId: 2, result: { found: true, usable: true, ready: false } }])
+      .mockResolvedValueOnce([{ frameId: 2, result: { found: true, usable: true, ready: true } }])
+      .mockResolvedValueOnce([{ frameId: 2, result: { success: true, frameUrl: 'https://example.com/menu' } }])
+      .mockResolvedValueOnce([{ frameId: 2, result: { dispatched: true } }]);
+    const report = await handlePress(1, { action: 'press', selector: '#menu', keys: 'Mod+ArrowDown', repeat: 2 });
+    const calls = (chrome.scripting.executeScript as jest.Mock).mock.calls;
+    expect(calls[3][0].args[0]).toBe('focus');
+    expect(calls[3][0].target).toEqual({ tabId: 1, frameIds: [2] });
+    expect(calls[4][0].target).toEqual({ tabId: 1, frameIds: [2] });
+    expect(calls[4][0].args).toEqual([expect.objectContaining({ key: 'ArrowDown', ctrl: true }), 2, true]);
+    expect(report.frame).toEqual({ frameId: 2, url: 'https://example.com/menu' });
+  });
+
+  it('handlePress fails when no frame accepts the keys', async () => {
+    (chrome.scripting.executeScript as jest.Mock).mockResolvedValueOnce([{ frameId: 0, result: { dispatched: false } }]);
+    await expect(handlePress(1, { action: 'press', keys: 'Escape' })).rejects.toThrow('Failed to press Escape');
+  });
+
+  it('handleUpload passes the named library files to the page', async () => {
+    (chrome.storage.local.get as jest.Mock).mockResolvedValueOnce({
+      file_library: [{ id: 'f1', name: 'resume.pdf', type: 'application/pdf', size: 3, dataUrl: 'data:application/pdf;base64,YWJj', lastModified: 5, addedAt: 0 }]
+    });
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { success: true, mode: 'input' } }]);
+    await handleUpload(1, { action: 'upload', selector: 'input[type=file]', files: ['resume.pdf'] });
+    const uploadCall = (chrome.scripting.executeScript as jest.Mock).mock.calls[1][0];
+    expect(uploadCall.args[3]).toEqual([{ name: 'resume.pdf', type: 'application/pdf', dataUrl: 'data:application/pdf;base64,YWJj', lastModified: 5 }]);
+  });
+
+  it('handleUpload fails before touching the page when a file is missing', async () => {
+    await expect(handleUpload(1, { action: 'upload', selector: '#drop', files: ['missing.png'] })).rejects.toThrow('not in the file library: missing.png');
+    expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+  });
+
+  it('handleDrag passes the source and the destination to the page', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { success: true } }]);
+    await handleDrag(1, { action: 'drag', selector: '.card', to: { ref: 'e7' } });
+    const dragCall = (chrome.scripting.executeScript as jest.Mock).mock.calls[1][0];
+    expect(dragCall.args.slice(0, 5)).toEqual(['.card', false, '[data-bai-ref="e7"]', false, null]);
+  });
+
+  it('handleCloseTab continues in the most recently used other tab', async () => {
+    const tabs = new TabRegistry(1);
+    tabs.track(2, { name: 'docs', created: true });
+    tabs.track(3, { created: true });
+    await expect(handleCloseTab(3, { action: 'close_tab' }, tabs)).resolves.toEqual({ tabId: 2 });
+    expect(chrome.tabs.remove).toHaveBeenCalledWith(3);
+    expect(chrome.tabs.update).toHaveBeenCalledWith(2, { active: true });
+    expect(tabs.list().map(tab => tab.name)).toEqual(['main', 'docs']);
+    await expect(handleCloseTab(2, { action: 'close_tab', name: 'reports' }, tabs)).rejects.toThrow('No tab named "reports"');
+  });
+
+  it('handleWait waits for the URL to match and names the condition on timeout', async () => {
+    await expect(handleWait(1, { action: 'wait', until: 'url', url: '*example.com/*' })).resolves.toEqual({});
+    await expect(handleWait(1, { action: 'wait', until: 'url', url: '/checkout', timeout: 150 }))
+      .rejects.toThrow('Timed out after 150ms waiting for the URL to match "/checkout"');
+  });
+
+  it('waits for the element to be actionable and names the failing condition', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true, usable: true, ready: false } }])
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true, usable: true, ready: false, failure: 'not receiving events: <div class="modal-backdrop"> is on top of it and would receive the click' } }]);
+    await expect(handleHover(1, { action: 'hover', selector: '#menu' }))
+      .rejects.toThrow('Timed out after 5000ms waiting for #menu to be actionable: it is not receiving events: <div class="modal-backdrop"> is on top of it');
+    const [, probeCall, gateCall] = (chrome.scripting.executeScript as jest.Mock).mock.calls.map(([injection]) => injection);
+    expect(probeCall.func).toBe(actionabilityLogic);
+    expect(probeCall.args).toEqual(['#menu', false, {}, true, 0]);
+    expect(gateCall.func).toBe(actionabilityLogic);
+    expect(gateCall.args).toEqual(['#menu', false, {}, true, 5000]);
+  });
+
+  it('waits and acts only in the frame with a usable match, ignoring hidden duplicates in other frames', async () => {
+    (chrome.scripting.executeScript as jest.Mock)
+      .mockResolvedValueOnce([{ frameId: 0, result: { found: true } }])
+      .mockResolvedValueOnce([
+        { frameId: 0, result: { found: true, usable: false, ready: false, failure: 'not visible' } },
+        { frameId: 4, result: { found: true, usable: true, ready: false } }
+      ])
+      .mockResolvedValueOnce([{ frameId: 4, result: { found: true, usable: true, ready: true } }])
+      .mockResolvedValueOnce([{ frameId: 4, result: { success: true, frameUrl: 'https://widgets.example.com/' } }]);
+    const report = await handleHover(1, { action: 'hover', selector: '#menu' });
+    const calls = (chrome.scripting.executeScript as jest.Mock).mock.calls;
+    expect(calls[2][0].target).toEqual({ tabId: 1, frameIds: [4] });
+    expect(calls[3][0].target).toEqual({ tabId: 1, frameIds: [4] });
+    expect(report.frame).toEqual({ frameId: 4, url: 'https://widgets.example.com/' });
+  });
+
+  it('skips the actionability checks for steps with force', async () => {
+    await handleClear(1, { action: 'clear', selector: '#title', force: true });
+    const funcs = (chrome.scripting.executeScript as jest.Mock).mock.calls.map(([injection]) => injection.func);
+    expect(funcs).not.toContain(actionabilityLogic);
+    expect(funcs).toContain(actionCoreLogic);
+  });
+
+  it('does not click once the run is cancelled during the element wait', async () => {
+    const control = new RunController('req-cancel');
+    let finishWait: (results: unknown) => void = () => {};
+    (chrome.scripting.executeScript as jest.Mock).mockReturnValueOnce(new Promise(resolve => { finishWait = resolve; }));
+    const click = handleClick(1, { action: 'click', selector: '#buy' }, control);
+    control.cancel();
+    finishWait([{ frameId: 0, result: { found: true } }]);
+    await expect(click).rejects.toBeInstanceOf(RunCancelledError);
+    const funcs = (chrome.scripting.executeScript as jest.Mock).mock.calls.map(([injection]) => injection.func);
+    expect(funcs).toEqual([waitForElementLogic]);
+  });
+
+  it('handleAssert adds up element counts across frames', async () => {
+    (chrome.scripting.executeScript as jest.Mock).mockResolvedValueOnce([
+      { frameId: 0, result: { count: 2, textFound: false, frameUrl: 'https://www.example.com/page' } },
+      { frameId: 4, result: { count: 1, textFound: false, frameUrl: 'https://widgets.example.com/' } }
+    ]);
+    const report = await handleAssert(1, { action: 'assert', check: 'element_count', selector: '.result', count: 3 }, {});
+    expect(report.assertion.passed).toBe(true);
+    expect(report.frame).toEqual({ frameId: 0, url: 'https://www.example.com/page' });
+  });
+
+  it('handleAssert throws an AssertionFailedError without touching the page for variable checks', async () => {
+    const failure = handleAssert(1, { action: 'assert', check: 'variable_equals', variable: 'total', value: '10' }, { total: '12' });
+    await expect(failure).rejects.toBeInstanceOf(AssertionFailedError);
+    await expect(failure).rejects.toThrow('expected {{total}} equals "10", but it is "12"');
+    expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+  });
+
+  it('tries selectors learned for the site before the built-in heuristics', async () => {
+    await handleHover(1, { action: 'hover', target: 'search_input' });
+    const waitCall = (chrome.scripting.executeScript as jest.Mock).mock.calls[0][0];
+    expect(waitCall.args[0][0]).toBe('#learned-search');
+    const actionCall = (chrome.scripting.executeScript as jest.Mock).mock.calls[3][0];
+    expect(actionCall.args[4].search_input[0]).toBe('#learned-search');
+  });
+});
+
+describe('executePlanSteps', () => {
+  it('sends the final result with the last step when the plan ends with nested steps', async () => {
+    const plan = { goal: 'Wait when asked', steps: [{ action: 'if' as const, condition: { variable: 'flag', equals: 'yes' }, then: [{ action: 'wait' as const, duration: 1 }] }] };
+    await executePlanSteps(1, plan, 'req-nested', { variables: { flag: 'yes' } });
+    const finalMessage = (chrome.runtime.sendMessage as jest.Mock).mock.calls.map(([message]) => message).find(message => message.isFinal);
+    expect(finalMessage).toMatchObject({ type: 'planStepResult', stepId: 1, result: { success: true } });
+  });
+});
+
+describe('formatSteps', () => {
+  it('describes control-flow steps and numbers their nested steps', () => {
+    const [loop, after] = formatSteps([
+      { action: 'repeat_until', condition: { selector: 'a.next', exists: false }, steps: [
+        { action: 'for_each', selector: '.result', as: 'result', steps: [{ action: 'extract', selector: '{{result.selector}} h3', as: 'title' }] },
+        { action: 'click', selector: 'a.next' }
+      ] },
+      { action: 'screenshot' }
+    ]);
+    expect(loop.description).toBe('Repeat until a.next is not on the page (at most 10 times)');
+    const [forEach, click] = (loop as any).steps;
+    expect([forEach.id, forEach.description]).toEqual([1, 'For each .result as {{result}}']);
+    expect(forEach.steps[0].id).toBe(2);
+    expect(click.id).toBe(3);
+    expect(after.id).toBe(4);
+  });
+});
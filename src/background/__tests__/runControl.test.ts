@@ -0,0 +1,53 @@
+import { RunController, RunCancelledError } from '../runControl';
+
+// Mock chrome.runtime.sendMessage used for state notifications
+(global as any).chrome = {
+  runtime: {
+    sendMessage: jest.fn().mockResolvedValue(undefined)
+  }
+};
+
+describe('RunController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('blocks at a checkpoint while paused and continues on resume', async () => {
+    const control = new RunController('req-1');
+    control.pause();
+    let passed = false;
+    const checkpoint = control.checkpoint().then(() => { passed = true; });
+
+    await Promise.resolve();
+    expect(passed).toBe(false);
+
+    control.resume();
+    await checkpoint;
+    expect(passed).toBe(true);
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ type: 'executionState', requestId: 'req-1', state: 'paused' });
+  });
+
+  it('lets exactly one step through when stepping while paused', async () => {
+    const control = new RunController('req-2');
+    control.pause();
+    control.step();
+    await control.checkpoint();
+
+    let passed = false;
+    control.checkpoint().then(() => { passed = true; });
+    await Promise.resolve();
+    expect(passed).toBe(false);
+    expect(control.state).toBe('paused');
+  });
+
+  it('rejects pending waits and later checkpoints once cancelled', async () => {
+    jest.useFakeTimers();
+    const control = new RunController('req-3');
+    const longWait = control.sleep(60_000);
+    control.cancel();
+
+    await expect(longWait).rejects.toBeInstanceOf(RunCancelledError);
+    await expect(control.checkpoint()).rejects.toBeInstanceOf(RunCancelledError);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,39 @@
+import { TabRegistry, findSwitchTarget } from '../tabRegistry';
+
+const windowTabs = [
+  { id: 10, index: 0, title: 'Inbox', url: 'https://mail.example.com/' },
+  { id: 11, index: 1, title: 'Invoice 42', url: 'https://billing.example.com/invoices/42' },
+  { id: 12, index: 2, title: 'Invoice 43', url: 'https://billing.example.com/invoices/43' }
+] as chrome.tabs.Tab[];
+
+describe('TabRegistry', () => {
+  it('names the first tab "main" and numbers unnamed tabs', () => {
+    const tabs = new TabRegistry(10);
+    tabs.track(11, { created: true });
+    tabs.track(12, { name: 'tab3' });
+    tabs.track(13);
+    expect(tabs.list().map(tab => tab.name)).toEqual(['main', 'tab2', 'tab3', 'tab4']);
+    expect(tabs.createdTabIds()).toEqual([11]);
+  });
+
+  it('keeps the first entry of a tab and rejects duplicate names', () => {
+    const tabs = new TabRegistry(10);
+    expect(tabs.track(10, { name: 'other' }).name).toBe('main');
+    expect(() => tabs.track(11, { name: 'Main' })).toThrow('A tab named "Main" is already open in this run.');
+    tabs.remove(10);
+    expect(tabs.track(11, { name: 'main' }).tabId).toBe(11);
+  });
+});
+
+describe('findSwitchTarget', () => {
+  it('finds tabs by name, index, title and URL pattern', () => {
+    const tabs = new TabRegistry(10);
+    tabs.track(12, { name: 'docs' });
+    expect(findSwitchTarget({ action: 'switch_tab', name: 'DOCS' }, windowTabs, tabs)?.id).toBe(12);
+    expect(findSwitchTarget({ action: 'switch_tab', index: 1 }, windowTabs, tabs)?.id).toBe(11);
+    expect(findSwitchTarget({ action: 'switch_tab', title: 'inbox' }, windowTabs, tabs)?.id).toBe(10);
+    expect(findSwitchTarget({ action: 'switch_tab', url: 'https://billing.example.com/*' }, windowTabs, tabs)?.id).toBe(12);
+    expect(findSwitchTarget({ action: 'switch_tab', title: 'Invoice' }, windowTabs, new TabRegistry(10))?.id).toBe(11);
+    expect(findSwitchTarget({ action: 'switch_tab', name: 'reports' }, windowTabs, tabs)).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { toTopLevelPoint, trustedClick, trustedType, trustedPress, trustedDrag } from '../trustedInput';
+import { parseKeyChord } from '../../common/keys';
+import { RunController, RunCancelledError } from '../runControl';
+
+global.chrome = {
+  scripting: {
+    executeScript: jest.fn(),
+  },
+  debugger: {
+    attach: jest.fn().mockResolvedValue(undefined),
+    detach: jest.fn().mockResolvedValue(undefined),
+    sendCommand: jest.fn().mockResolvedValue({}),
+    onEvent: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+  },
+  runtime: {
+    sendMessage: jest.fn().mockResolvedValue(undefined),
+  },
+} as any;
+
+const sentCommands = () => (chrome.debugger.sendCommand as jest.Mock).mock.calls.map(([, method, params]) => [method, params.type ?? params.text]);
+
+describe('trustedInput', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds the offsets of every enclosing iframe', async () => {
+    (chrome.scripting.executeScript as jest.Mock).mockResolvedValue([
+      { frameId: 0, result: [{ frameId: 4, left: 100, top: 200 }] },
+      { frameId: 4, result: [{ frameId: 9, left: 10, top: 20 }] },
+      { frameId: 9, result: [] }
+    ]);
+    await expect(toTopLevelPoint(1, 9, { x: 5, y: 5 })).resolves.toEqual({ x: 115, y: 225 });
+    await expect(toTopLevelPoint(1, 12, { x: 5, y: 5 })).rejects.toThrow('Cannot find frame 12');
+  });
+
+  it('clicks with a press and release at the point and detaches afterwards', async () => {
+    await trustedClick(1, { x: 10.4, y: 20.6 });
+    expect(sentCommands()).toEqual([
+      ['Input.dispatchMouseEvent', 'mouseMoved'],
+      ['Input.dispatchMouseEvent', 'mousePressed'],
+      ['Input.dispatchMouseEvent', 'mouseReleased']
+    ]);
+    expect((chrome.debugger.sendCommand as jest.Mock).mock.calls[1][2]).toMatchObject({ x: 10, y: 21, button: 'left' });
+    expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 1 });
+  });
+
+  it('inserts the text and presses Enter only when submitting', async () => {
+    await trustedType(1, 'hello', false);
+    expect(sentCommands()).toEqual([['Input.insertText', 'hello']]);
+
+    (chrome.debugger.sendCommand as jest.Mock).mockClear();
+    await trustedType(1, 'hello', true);
+    expect(sentCommands()).toEqual([
+      ['Input.insertText', 'hello'],
+      ['Input.dispatchKeyEvent', 'keyDown'],
+      ['Input.dispatchKeyEvent', 'keyUp']
+    ]);
+  });
+
+  it('holds the modifiers around a chord', async () => {
+    await trustedPress(1, parseKeyChord('Control+Shift+Tab'), 1);
+    const calls = (chrome.debugger.sendCommand as jest.Mock).mock.calls.map(([, , params]) => [params.type, params.key, params.modifiers]);
+    expect(calls).toEqual([
+      ['rawKeyDown', 'Control', 10],
+      ['rawKeyDown', 'Shift', 10],
+      ['rawKeyDown', 'Tab', 10],
+      ['keyUp', 'Tab', 10],
+      ['keyUp', 'Shift', 2],
+      ['keyUp', 'Control', 0]
+    ]);
+  });
+
+  it('completes an intercepted native drag with drag events at the destination', async () => {
+    (chrome.debugger.sendCommand as jest.Mock).mockImplementation(async (_target, method, params) => {
+      // The first move with the button held starts a native drag
+      if (method === 'Input.dispatchMouseEvent' && params.type === 'mouseMoved' && params.buttons === 1) {
+        const [listener] = (chrome.debugger.onEvent.addListener as jest.Mock).mock.calls[0];
+        listener({ tabId: 1 }, 'Input.dragIntercepted', { data: { items: [], dragOperationsMask: 1 } });
+      }
+      return {};
+    });
+    await trustedDrag(1, { x: 0, y: 0 }, { x: 100, y: 50 }, undefined, 2);
+    expect(sentCommands()).toEqual([
+      ['Input.setInterceptDrags', undefined],
+      ['Input.dispatchMouseEvent', 'mouseMoved'],
+      ['Input.dispatchMouseEvent', 'mousePressed'],
+      ['Input.dispatchMouseEvent', 'mouseMoved'],
+      ['Input.dispatchMouseEvent', 'mouseMoved'],
+      ['Input.dispatchDragEvent', 'dragEnter'],
+      ['Input.dispatchDragEvent', 'dragOver'],
+      ['Input.dispatchDragEvent', 'drop'],
+      ['Input.dispatchMouseEvent', 'mouseReleased']
+    ]);
+    expect((chrome.debugger.sendCommand as jest.Mock).mock.calls[7][2]).toMatchObject({ x: 100, y: 50 });
+    expect(chrome.debugger.onEvent.removeListener).toHaveBeenCalled();
+    (chrome.debugger.sendCommand as jest.Mock).mockResolvedValue({});
+  });
+
+  it('stops sending input once the run is cancelled and still detaches', async () => {
+    const control = new RunController('req-drag');
+    (chrome.debugger.sendCommand as jest.Mock).mockImplementation(async (_target, method, params) => {
+      if (method === 'Input.dispatchMouseEvent' && params.type === 'mousePressed') control.cancel();
+      return {};
+    });
+    await expect(trustedDrag(1, { x: 0, y: 0 }, { x: 100, y: 50 }, control, 2)).rejects.toBeInstanceOf(RunCancelledError);
+    expect(sentCommands()).toEqual([
+      ['Input.setInterceptDrags', undefined],
+      ['Input.dispatchMouseEvent', 'mouseMoved'],
+      ['Input.dispatchMouseEvent', 'mousePressed']
+    ]);
+    expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 1 });
+    (chrome.debugger.sendCommand as jest.Mock).mockResolvedValue({});
+  });
+
+  it('explains when the debugger cannot attach', async () => {
+    (chrome.debugger.attach as jest.Mock).mockRejectedValueOnce(new Error('Another debugger is already attached'));
+    await expect(trustedClick(1, { x: 0, y: 0 })).rejects.toThrow('Cannot attach the debugger for trusted input: Another debugger');
+    expect(chrome.debugger.sendCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import type { AgentDecision, StepResult } from '../common/types';
+import { describePage } from './pageSnapshot';
+import { getNextAgentDecision, type AgentHistoryEntry } from '../utils/llm';
+import { loadLLMSettings } from '../utils/llmSettings';
+import { loadAgentSettings } from '../utils/agentSettings';
+import { registerRun, unregisterRun, RunCancelledError } from './runControl';
+import { TabRegistry, describeRunTabs } from './tabRegistry';
+import {
+    runStep, pauseAfterStep, formatStep, createRunRecord, recordStepHistory, recordCancelledStep, finishRun, notifyPanel,
+    type FormattedStep, type RunContext
+} from './planExecutor';
+
+// --- Observe-act agent loop ---
+// Instead of planning everything up front, the model sees the page after each batch of actions
+// and decides what to do next, until it declares the goal met or a limit is reached.
+
+/**
+ * Runs the observe-act loop for the given instructions on a tab. Progress is reported like a plan run
+ * (planReceived, planStepResult), plus an 'agentDecision' message per model decision carrying its
+ * reasoning and the steps it added. The run is stored in History with the executed steps as its plan.
+ */
+export async function runAgentLoop(currentTabId: number, instructions: string, requestId: string) {
+    console.log(`Starting agent loop for tab ${currentTabId}, ReqID: ${requestId}`);
+    const runRecord = createRunRecord(requestId, { goal: instructions, steps: [] }, { instructions });
+    const context: RunContext = {
+        requestId,
+        tabId: currentTabId,
+        variables: {},
+        control: registerRun(requestId),
+        tabs: new TabRegistry(currentTabId)
+    };
+    // Steps arrive with each decision; the panel starts from an empty plan
+    notifyPanel({ type: "planReceived", requestId, formattedPlan: [] });
+
+    const history: AgentHistoryEntry[] = [];
+    let nextStepId = 0;
+    let modelCalls = 0;
+    let success = false;
+    let cancelled = false;
+    let errorMessage: string | undefined = undefined;
+    let currentStep: FormattedStep | null = null;
+    let stepStartedAt = Date.now();
+
+    try {
+        const settings = await loadLLMSettings();
+        const limits = await loadAgentSettings();
+
+        while (true) {
+            await context.control.checkpoint();
+            if (modelCalls >= limits.maxModelCalls) {
+                errorMessage = `Stopped after ${modelCalls} model decisions without reaching the goal (limit ${limits.maxModelCalls}).`;
+                break;
+            }
+            if (nextStepId >= limits.maxSteps) {
+                errorMessage = `Stopped after ${nextStepId} steps without reaching the goal (limit ${limits.maxSteps}).`;
+                break;
+            }
+
+            // 1. Observe
+            const pageState = await context.control.race(describeRunTabs(context.tabs, context.tabId))
+                + await context.control.race(describePage(context.tabId));
+            // 2. Decide
+            const decision: AgentDecision = await context.control.race(getNextAgentDecision(settings, instructions, history, pageState));
+            modelCalls++;
+            const steps = decision.actions
+                .slice(0, limits.maxSteps - nextStepId)
+                .map(action => formatStep(action, nextStepId++));
+            console.log(`[Agent] Decision ${modelCalls}:`, decision);
+            notifyPanel({
+                type: "agentDecision",
+                requestId,
+                iteration: modelCalls,
+                reasoning: decision.reasoning,
+                done: decision.done,
+                outcome: decision.outcome,
+                summary: decision.summary,
+                steps
+            });
+            runRecord.plan.steps.push(...decision.actions.slice(0, steps.length));
+            runRecord.stepDescriptions.push(...steps.map(step => step.description));
+
+            if (decision.done) {
+                success = decision.outcome === 'achieved';
+                if (!success) errorMessage = decision.summary || 'The agent found the goal cannot be achieved.';
+                break;
+            }
+
+            // 3. Act; a failed step ends the batch so the model can react to it
+            for (const step of steps) {
+                await context.control.checkpoint();
+                currentStep = step;
+                stepStartedAt = Date.now();
+                const result: StepResult = await runStep(step, context);
+                await recordStepHistory(runRecord, step, stepStartedAt, result, context.tabId);
+                history.push({ description: step.description, success: result.success, error: result.error });
+                currentStep = null;
+                if (!result.success && !step.optional) break;
+                await pauseAfterStep(context);
+            }
+        }
+    } catch (error) {
+        if (error instanceof RunCancelledError) {
+            cancelled = true;
+            errorMessage = error.message;
+            if (currentStep) await recordCancelledStep(context, runRecord, currentStep, stepStartedAt, error);
+        } else {
+            console.error('[Agent] Loop failed:', error);
+            errorMessage = error instanceof Error ? error.message : String(error);
+        }
+    } finally {
+        unregisterRun(requestId);
+    }
+
+    await finishRun(context, runRecord, { success, cancelled, error: errorMessage }, nextStepId - 1);
+}
@@ -0,0 +1,53 @@
+import type { FrameLocator, StepFrame } from '../common/types';
+import { matchesFrameUrl, describeFrameLocator } from '../common/frames';
+import { frameInfoLogic } from './injectable/scriptBuilder';
+
+// --- Frame targeting ---
+// Steps with a frame locator run in exactly one frame instead of racing across all of them.
+
+/**
+ * Resolves a frame locator to the single frame it matches.
+ * @throws Error when no frame or more than one frame matches.
+ */
+export async function resolveFrame(tabId: number, locator: FrameLocator): Promise<StepFrame> {
+    const results = await chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        func: frameInfoLogic,
+        args: [locator.selector || null]
+    });
+    const frames = results
+        .filter(frame => frame.result)
+        .map(frame => ({ frameId: frame.frameId, ...frame.result! }));
+
+    let candidates = frames;
+    if (locator.selector) {
+        const childIds = new Set(frames.flatMap(frame => frame.childFrameIds));
+        const childUrls = new Set(frames.flatMap(frame => frame.childUrls));
+        candidates = candidates.filter(frame => childIds.has(frame.frameId) || childUrls.has(frame.url));
+    }
+    if (locator.name) candidates = candidates.filter(frame => frame.name === locator.name);
+    if (locator.url) candidates = candidates.filter(frame => matchesFrameUrl(locator.url!, frame.url));
+
+    const description = describeFrameLocator(locator);
+    if (candidates.length === 0) {
+        const known = frames.map(frame => frame.url).slice(0, 5).join(', ');
+        throw new Error(`No ${description} in the page (frames: ${known || 'none'})`);
+    }
+    if (candidates.length > 1) {
+        throw new Error(`${candidates.length} frames match ${description}; make the frame locator more specific (${candidates.map(frame => frame.url).join(', ')})`);
+    }
+    console.log(`Resolved ${description} to frame ${candidates[0].frameId} (${candidates[0].url}).`);
+    return { frameId: candidates[0].frameId, url: candidates[0].url };
+}
+
+/**
+ * Injection target for a step: the resolved frame if it has one, otherwise all frames
+ * (or only the top frame when allFrames is false).
+ */
+export function injectionTarget(tabId: number, frame: StepFrame | null, allFrames = true): chrome.scripting.InjectionTarget {
+    return frame ? { tabId, frameIds: [frame.frameId] } : { tabId, allFrames };
+}
+
+export async function resolveStepFrame(tabId: number, locator: FrameLocator | undefined): Promise<StepFrame | null> {
+    return locator ? resolveFrame(tabId, locator) : null;
+}
@@ -0,0 +1,90 @@
+import type { ConsentRecogniser } from '../../common/types';
+
+// Known consent management platforms, matched before the generic overlay detection in dismissOverlaysLogic.
+// Selectors are searched in every frame (several CMPs render inside an iframe) and in open shadow roots.
+export const consentManagers: ConsentRecogniser[] = [
+  {
+    name: 'OneTrust',
+    detect: ['#onetrust-banner-sdk', '#onetrust-consent-sdk .ot-sdk-container'],
+    accept: ['#onetrust-accept-btn-handler'],
+    reject: ['#onetrust-reject-all-handler', '.ot-pc-refuse-all-handler'],
+    close: ['.onetrust-close-btn-handler', '#onetrust-close-btn-container button']
+  },
+  {
+    name: 'Cookiebot',
+    detect: ['#CybotCookiebotDialog'],
+    accept: ['#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll', '#CybotCookiebotDialogBodyButtonAccept'],
+    reject: ['#CybotCookiebotDialogBodyButtonDecline'],
+    close: ['#CybotCookiebotBannerCloseButtonE2E']
+  },
+  {
+    name: 'Didomi',
+    detect: ['#didomi-popup', '#didomi-notice'],
+    accept: ['#didomi-notice-agree-button'],
+    reject: ['#didomi-notice-disagree-button', '.didomi-continue-without-agreeing'],
+    close: ['.didomi-popup-close', '.didomi-continue-without-agreeing']
+  },
+  {
+    name: 'Quantcast Choice',
+    detect: ['.qc-cmp2-container', '#qc-cmp2-ui'],
+    accept: ['.qc-cmp2-summary-buttons button[mode="primary"]'],
+    reject: ['.qc-cmp2-summary-buttons button[mode="secondary"]'],
+    close: ['.qc-cmp2-close-icon']
+  },
+  {
+    name: 'TrustArc',
+    detect: ['#truste-consent-track', '.truste_box_overlay'],
+    accept: ['#truste-consent-button'],
+    reject: ['#truste-consent-required'],
+    close: ['#truste-consent-close', '.truste-close-button']
+  },
+  {
+    name: 'Usercentrics',
+    detect: ['#usercentrics-root', '#usercentrics-cmp-ui', '[data-testid="uc-banner-content"]'],
+    accept: ['[data-testid="uc-accept-all-button"]'],
+    reject: ['[data-testid="uc-deny-all-button"]'],
+    close: ['[data-testid="uc-close-button"]']
+  },
+  {
+    name: 'Sourcepoint',
+    detect: ['.message-container .message-component', '.sp_message_container'],
+    accept: ['button.sp_choice_type_11'],
+    reject: ['button.sp_choice_type_13'],
+    close: ['button.sp_choice_type_15', 'button[aria-label="Close"]']
+  },
+  {
+    name: 'Google',
+    detect: ['form[action*="consent.google"]', 'div[aria-modal="true"] #L2AGLb'],
+    accept: ['#L2AGLb'],
+    reject: ['#W0wltc'],
+    close: []
+  },
+  {
+    name: 'Osano',
+    detect: ['.osano-cm-dialog:not(.osano-cm-dialog--hidden)'],
+    accept: ['.osano-cm-accept-all', '.osano-cm-accept'],
+    reject: ['.osano-cm-denyAll', '.osano-cm-deny'],
+    close: ['.osano-cm-dialog__close']
+  },
+  {
+    name: 'Complianz',
+    detect: ['.cmplz-cookiebanner:not(.cmplz-hidden)'],
+    accept: ['.cmplz-btn.cmplz-accept'],
+    reject: ['.cmplz-btn.cmplz-deny'],
+    close: ['.cmplz-close']
+  },
+  {
+    name: 'CookieYes',
+    detect: ['.cky-consent-container:not(.cky-hide)'],
+    accept: ['.cky-btn-accept'],
+    reject: ['.cky-btn-reject'],
+    close: ['.cky-banner-btn-close']
+  },
+  {
+    name: 'Klaro',
+    detect: ['.klaro .cookie-notice', '.klaro .cookie-modal'],
+    accept: ['.klaro .cm-btn-accept-all', '.klaro .cm-btn-success'],
+    reject: ['.klaro .cm-btn-decline', '.klaro .cm-btn-danger'],
+    close: ['.klaro .hide']
+  }
+];
@@ -1,9 +1,11 @@
-import type { HeuristicsMap, FoundElement, RootNode } from '../../common/types';
+import type {
+  HeuristicsMap, FoundElement, RootNode, PageSnapshot, SnapshotNode, ConsentChoice, ConsentRecogniser, DismissedOverlay, KeyChord, UploadFile
+} from '../../common/types';
 
 // --- Core Logic Functions (Now self-contained with helpers defined inside) ---
 // These functions will be passed DIRECTLY to chrome.scripting.executeScript
 
-export function actionCoreLogic(actionType: string, identifier: string, isSemantic: boolean, text: string | null | undefined, heuristics: HeuristicsMap): { success: boolean; error?: string } {
+export function actionCoreLogic(actionType: string, identifier: string, isSemantic: boolean, text: string | null | undefined, heuristics: HeuristicsMap): { success: boolean; error?: string; matchedSelector?: string; frameUrl?: string; point?: { x: number; y: number } } {
   
   // --- Define Helpers INSIDE actionCoreLogic ---
   function _isElementVisibleAndInteractive(element: Element | null): element is HTMLElement {
@@ -91,6 +93,7 @@ export function actionCoreLogic(actionType: string, identifier: string, isSemant
 
           if (isVisible) {
             console.log(`${logPrefix} Found visible element for target '${targetType}' with selector '${selector}':`, element);
+            matchedSelector = selector;
             return element;
           }
         }
@@ -115,6 +118,8 @@ export function actionCoreLogic(actionType: string, identifier: string, isSemant
   }
   // --- End Helper Definitions ---
 
+  // Heuristic selector that located the element, reported so learned selectors can be scored
+  let matchedSelector: string | undefined;
   // Find element using locally defined helpers
   let element = isSemantic ? _findElementByHeuristics(identifier, document, heuristics) : _findElementBySelector(identifier, document);
   
@@ -125,7 +130,35 @@ export function actionCoreLogic(actionType: string, identifier: string, isSemant
   }
 
   try {
-    if (actionType === 'type') {
+    if (actionType === 'locate' || actionType === 'focus' || actionType === 'select-text') {
+      // Preparation for trusted input and key presses: bring the element into view and report its centre in this
+      // frame's viewport. 'focus' also focuses it; 'select-text' focuses it and selects the existing content,
+      // so inserted text replaces it like a synthetic type.
+      const bounds = element.getBoundingClientRect();
+      if (bounds.top < 0 || bounds.left < 0 || bounds.bottom > window.innerHeight || bounds.right > window.innerWidth) {
+        element.scrollIntoView({ block: 'center', inline: 'center' });
+      }
+      if (actionType === 'focus') {
+        element.focus();
+      } else if (actionType === 'select-text') {
+        element.focus();
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.select();
+        } else if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          window.getSelection()?.removeAllRanges();
+          window.getSelection()?.addRange(range);
+        } else {
+          return { success: false, error: 'Element is not an input, textarea or contenteditable element' };
+        }
+      }
+      const rect = element.getBoundingClientRect();
+      const point = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+      console.log(`[ACTION CORE] Located element for trusted input at (${point.x}, ${point.y}).`, element);
+      return { success: true, matchedSelector, frameUrl: location.href, point };
+
+    } else if (actionType === 'type') {
       if (typeof text !== 'string') return { success: false, error: 'Text is required for type action' };
       
       const inputElement = element as HTMLInputElement | HTMLTextAreaElement;
@@ -168,8 +201,67 @@ export function actionCoreLogic(actionType: string, identifier: string, isSemant
       console.log('[ACTION CORE] Attempting click...', element);
       element.click();
       console.log('[ACTION CORE] Click done. Click action success.');
+
+    } else if (actionType === 'select') {
+      if (typeof text !== 'string') return { success: false, error: 'Value or label is required for select action' };
+      if (!(element instanceof HTMLSelectElement)) return { success: false, error: 'Element is not a <select> element' };
+
+      // Prefer an exact value match, then fall back to the visible label (case-insensitive)
+      const options = Array.from(element.options);
+      const wanted = text.trim().toLowerCase();
+      const option = options.find(o => o.value === text) ||
+                     options.find(o => (o.label || o.text).trim().toLowerCase() === wanted);
+      if (!option) {
+        return { success: false, error: `No option matching "${text}" (by value or label) in this <select>` };
+      }
+      if (option.disabled) return { success: false, error: `Option "${text}" is disabled` };
+
+      console.log('[ACTION CORE] Selecting option...', option);
+      element.focus();
+      option.selected = true;
+      element.dispatchEvent(new Event('input', { bubbles: true }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+      element.blur();
+      console.log('[ACTION CORE] Select action success.');
+
+    } else if (actionType === 'hover') {
+      const rect = element.getBoundingClientRect();
+      const coords = {
+        clientX: rect.left + rect.width / 2,
+        clientY: rect.top + rect.height / 2,
+        bubbles: true,
+        cancelable: true,
+        view: window
+      };
+      console.log('[ACTION CORE] Dispatching hover sequence...', element);
+      // Mirror the order a real pointer produces: pointer events first, then the compatibility mouse events
+      element.dispatchEvent(new PointerEvent('pointerover', { ...coords, pointerType: 'mouse', isPrimary: true }));
+      element.dispatchEvent(new PointerEvent('pointerenter', { ...coords, bubbles: false, pointerType: 'mouse', isPrimary: true }));
+      element.dispatchEvent(new MouseEvent('mouseover', coords));
+      element.dispatchEvent(new MouseEvent('mouseenter', { ...coords, bubbles: false }));
+      element.dispatchEvent(new PointerEvent('pointermove', { ...coords, pointerType: 'mouse', isPrimary: true }));
+      element.dispatchEvent(new MouseEvent('mousemove', coords));
+      console.log('[ACTION CORE] Hover action success.');
+
+    } else if (actionType === 'clear') {
+      console.log('[ACTION CORE] Clearing element...', element);
+      element.focus();
+      if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        // Use the native setter so framework-controlled inputs (React etc.) notice the change
+        const proto = element instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+        const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+        if (nativeSetter) nativeSetter.call(element, ''); else element.value = '';
+      } else if (element.isContentEditable) {
+        element.textContent = '';
+      } else {
+        return { success: false, error: 'Element is not an input, textarea or contenteditable element' };
+      }
+      element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContentBackward' }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+      element.blur();
+      console.log('[ACTION CORE] Clear action success.');
     }
-    return { success: true };
+    return { success: true, matchedSelector, frameUrl: location.href };
   } catch (e) {
     console.error('[ACTION CORE] Error during action:', e, 'Element:', element);
     return { success: false, error: e instanceof Error ? e.message : String(e) };
@@ -255,7 +347,7 @@ export function scrollCoreLogic(step: any, heuristics: HeuristicsMap): { success
   }
 }
 
-export function extractCoreLogic(identifier: string, isSemantic: boolean, attribute: string | null | undefined, heuristics: HeuristicsMap): { success: boolean; data?: string | null; error?: string } {
+export function extractCoreLogic(identifier: string, isSemantic: boolean, attribute: string | null | undefined, heuristics: HeuristicsMap, all: boolean): { success: boolean; data?: string | null | (string | null)[]; error?: string; matchedSelector?: string; frameUrl?: string } {
 
   // --- Define Helpers INSIDE extractCoreLogic ---
   function _isElementVisibleAndInteractive(element: Element | null): element is HTMLElement {
@@ -286,7 +378,7 @@ export function extractCoreLogic(identifier: string, isSemantic: boolean, attrib
             const elements: NodeListOf<Element> = rootNode.querySelectorAll(actualSelector); if (elements.length === 0) continue;
             for (const element of elements) {
                 let textMatch = !checkText; if (checkText && element.textContent) { textMatch = element.textContent.trim().toLowerCase().includes(checkText); } if (!textMatch) continue;
-                if (_isElementVisibleAndInteractive(element)) return element;
+                if (_isElementVisibleAndInteractive(element)) { matchedSelector = selector; return element; }
             }
         } catch (e) {}
     }
@@ -294,23 +386,48 @@ export function extractCoreLogic(identifier: string, isSemantic: boolean, attrib
     for (const element of allElements) { if (element.shadowRoot) { const f = _findElementByHeuristics(targetType, element.shadowRoot as ShadowRoot, heuristics); if (f) return f; } }
     return null;
   }
+
+  // Every visible match of a selector, including :contains("text") and matches in open shadow roots
+  function _findAllBySelector(sel: string, rootNode: RootNode = document): HTMLElement[] {
+    let checkText: string | null = null; let actualSelector = sel;
+    const m = sel.match(/(.*):contains\("(.*?)"\)/i); if (m) { actualSelector = m[1] || '*'; checkText = m[2].toLowerCase(); }
+    const found: HTMLElement[] = [];
+    try {
+      rootNode.querySelectorAll(actualSelector).forEach(el => { if ((!checkText || (el.textContent || '').toLowerCase().includes(checkText)) && _isElementVisibleAndInteractive(el)) found.push(el); });
+      rootNode.querySelectorAll('*').forEach(el => { if (el.shadowRoot) found.push(..._findAllBySelector(sel, el.shadowRoot as ShadowRoot)); });
+    } catch (e) {} return found;
+  }
+
+  function _valueOf(element: HTMLElement): string | null {
+    if (attribute) return element.getAttribute(attribute);
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) return element.value;
+    return element.textContent ? element.textContent.trim() : null;
+  }
   // --- End Helper Definitions ---
 
+  let matchedSelector: string | undefined;
+
+  // With 'all', the matches of the selector (or of the first heuristic selector that has any) become a list
+  if (all) {
+    let elements: HTMLElement[] = [];
+    for (const selector of isSemantic ? heuristics[identifier] || [] : [identifier]) {
+      elements = _findAllBySelector(selector);
+      if (elements.length > 0) { if (isSemantic) matchedSelector = selector; break; }
+    }
+    if (elements.length === 0) return { success: false, error: 'Element not found in this frame' };
+    const values = elements.map(_valueOf);
+    console.log(`[EXTRACT CORE] Extracted ${values.length} value(s):`, values);
+    return { success: true, data: values, matchedSelector, frameUrl: location.href };
+  }
+
   let element = isSemantic ? _findElementByHeuristics(identifier, document, heuristics) : _findElementBySelector(identifier, document);
   
   if (!element) return { success: false, error: 'Element not found in this frame' };
   
   try {
-    let extractedData: string | null = null;
-    if (attribute) {
-      extractedData = element.getAttribute(attribute);
-    } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-      extractedData = element.value;
-    } else {
-      extractedData = element.textContent ? element.textContent.trim() : null;
-    }
+    const extractedData = _valueOf(element);
     console.log('[EXTRACT CORE] Extraction success:', extractedData);
-    return { success: true, data: extractedData };
+    return { success: true, data: extractedData, matchedSelector, frameUrl: location.href };
   } catch (e) {
     console.error('[EXTRACT CORE] Error during extraction:', e, 'Element:', element);
     return { success: false, error: e instanceof Error ? e.message : String(e) };
@@ -350,4 +467,949 @@ export function waitForElementLogic(selectors: string[], timeout: number): Promi
             } else { console.warn('[WAIT CORE] Timeout waiting for element existence.'); observer.disconnect(); resolve({ found: false, error: 'Timeout waiting for element existence' }); }
         }, timeout);
     });
-} 
\ No newline at end of file
+}
+
+// Resolves true once no elements were added or removed and no text changed for quietMs, or false after timeout.
+// Attribute changes are ignored: animations and carousels toggle classes and styles without ever settling.
+export function waitForDomQuietLogic(quietMs: number, timeout: number): Promise<boolean> {
+  return new Promise(resolve => {
+    let quietTimer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new MutationObserver(() => restartQuietTimer());
+    const deadline = setTimeout(() => finish(false), timeout);
+    function finish(quiet: boolean) {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(deadline);
+      resolve(quiet);
+    }
+    function restartQuietTimer() {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => finish(true), quietMs);
+    }
+    if (!document.documentElement) return finish(true);
+    observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+    restartQuietTimer();
+  });
+}
+
+// Actionability gate run before an action: picks the element actionCoreLogic would act on (the first match that is
+// visible and interactive) and waits until it is attached, visible, enabled and scrolled into view; for pointer
+// actions also until its box stops moving and a hit test at its centre reaches it rather than an overlay.
+// Frames without a match resolve at once with found: false; usable tells whether a match is visible and interactive,
+// so a timeout of 0 probes which frame to wait in. On timeout, failure names the condition that failed.
+export function actionabilityLogic(identifier: string, isSemantic: boolean, heuristics: HeuristicsMap, pointer: boolean, timeout: number): Promise<{ found: boolean; usable: boolean; ready: boolean; failure?: string }> {
+  const POLL_MS = 50;
+
+  function _matchesIn(root: RootNode): Element[] {
+    const matches: Element[] = [];
+    for (const selector of isSemantic ? heuristics[identifier] || [] : [identifier]) {
+      let actualSelector = selector;
+      let checkText: string | null = null;
+      const contains = selector.match(/(.*):contains\("(.*?)"\)/i);
+      if (contains) {
+        actualSelector = contains[1] || '*';
+        checkText = contains[2].toLowerCase();
+      }
+      try {
+        for (const el of Array.from(root.querySelectorAll(actualSelector))) {
+          if (!checkText || (el.textContent || '').trim().toLowerCase().includes(checkText)) matches.push(el);
+        }
+      } catch (e) { /* invalid selector */ }
+    }
+    for (const host of Array.from(root.querySelectorAll('*'))) {
+      if (host.shadowRoot) matches.push(..._matchesIn(host.shadowRoot));
+    }
+    return matches;
+  }
+
+  // Why actionCoreLogic would pass over the element, in its order of checks; null when it would act on it
+  function _unusableReason(el: Element): string | null {
+    if (!(el instanceof HTMLElement)) return 'not an HTML element';
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    if (style.display === 'none') return 'not visible (display: none)';
+    if (style.visibility === 'hidden') return 'not visible (visibility: hidden)';
+    if (style.opacity === '0') return 'not visible (opacity: 0)';
+    if ((el as HTMLInputElement).disabled) return 'not enabled (disabled)';
+    if ((el as HTMLInputElement).readOnly) return 'not editable (readonly)';
+    if (el.offsetParent === null && style.position !== 'fixed') return 'not visible (it or an ancestor is hidden)';
+    if (rect.width <= 0 || rect.height <= 0) return 'not visible (zero size)';
+    return null;
+  }
+
+  function _describe(el: Element): string {
+    const id = el.id ? ` id="${el.id}"` : '';
+    const className = typeof el.className === 'string' && el.className.trim() ? ` class="${el.className.trim().slice(0, 60)}"` : '';
+    const text = (el.textContent || '').trim().replace(/\s+/g, ' ').slice(0, 40);
+    return `<${el.tagName.toLowerCase()}${id}${className}>${text ? ` "${text}"` : ''}`;
+  }
+
+  // The topmost element at the point, descending into open shadow roots
+  function _hitTest(x: number, y: number): Element | null {
+    let hit = document.elementFromPoint(x, y);
+    while (hit?.shadowRoot) {
+      const inner = hit.shadowRoot.elementFromPoint(x, y);
+      if (!inner || inner === hit) break;
+      hit = inner;
+    }
+    return hit;
+  }
+
+  // True when the event target is the element, inside it (across shadow roots) or a label that controls it
+  function _reaches(hit: Element, el: HTMLElement): boolean {
+    for (let node: Node | null = hit; node; node = node.parentNode || (node as ShadowRoot).host || null) {
+      if (node === el) return true;
+    }
+    return hit.closest('label')?.control === el;
+  }
+
+  let element: HTMLElement | null = null;
+  let lastRect: DOMRect | null = null;
+  let hasUsable = false;
+
+  function _check(): string | null {
+    const matches = _matchesIn(document);
+    if (matches.length === 0) return 'not attached (it was removed from the page)';
+    const usable = matches.find(el => !_unusableReason(el)) as HTMLElement | undefined;
+    hasUsable = !!usable;
+    if (!usable) return _unusableReason(matches[0]);
+    if (usable !== element) {
+      element = usable;
+      lastRect = null;
+    }
+    if (usable.closest('[aria-disabled="true"]')) return 'not enabled (aria-disabled)';
+
+    const rect = usable.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    if (x < 0 || y < 0 || x >= window.innerWidth || y >= window.innerHeight) {
+      usable.scrollIntoView({ block: 'center', inline: 'center' });
+      lastRect = null;
+      return 'outside the viewport (scrolling it into view did not help)';
+    }
+    if (!pointer) return null;
+
+    const moved = !lastRect || lastRect.top !== rect.top || lastRect.left !== rect.left || lastRect.width !== rect.width || lastRect.height !== rect.height;
+    lastRect = rect;
+    if (moved) return 'not stable (it is still moving or resizing)';
+
+    const hit = _hitTest(x, y);
+    if (!hit) return 'not receiving events (nothing is hit at its centre)';
+    return _reaches(hit, usable) ? null : `not receiving events: ${_describe(hit)} is on top of it and would receive the click`;
+  }
+
+  return new Promise(resolve => {
+    if (_matchesIn(document).length === 0) return resolve({ found: false, usable: false, ready: false });
+    const deadline = Date.now() + timeout;
+    const poll = () => {
+      const failure = _check();
+      if (!failure) return resolve({ found: true, usable: true, ready: true });
+      if (Date.now() >= deadline) return resolve({ found: true, usable: hasUsable, ready: false, failure });
+      setTimeout(poll, POLL_MS);
+    };
+    poll();
+  });
+}
+
+// Compact accessibility snapshot of the page: visible interactive elements and headings with role,
+// accessible name, value and states, including shadow DOM and same-origin iframes. Each listed element
+// is tagged with a data-bai-ref attribute (kept across snapshots) so steps can target it as { ref }.
+export function accessibilitySnapshotLogic(maxNodes: number, maxTextLength: number): PageSnapshot {
+
+  // --- Define Helpers INSIDE accessibilitySnapshotLogic ---
+  const REF_ATTR = 'data-bai-ref'; // Must match REF_ATTRIBUTE in common/elementRefs.ts
+  const COUNTER_ATTR = 'data-bai-ref-next';
+  const INTERACTIVE_ROLES = ['button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox', 'option',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'switch', 'slider', 'spinbutton', 'treeitem', 'gridcell'];
+  const INPUT_ROLES: Record<string, string> = {
+    button: 'button', submit: 'button', reset: 'button', image: 'button', checkbox: 'checkbox', radio: 'radio',
+    range: 'slider', number: 'spinbutton', search: 'searchbox', file: 'button'
+  };
+
+  function _implicitRole(element: HTMLElement): string | null {
+    const tag = element.tagName.toLowerCase();
+    switch (tag) {
+      case 'a': return element.hasAttribute('href') ? 'link' : null;
+      case 'button': case 'summary': return 'button';
+      case 'textarea': return 'textbox';
+      case 'select': return (element as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+      case 'input': return INPUT_ROLES[(element as HTMLInputElement).type] || 'textbox';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+    }
+    if (element.isContentEditable && element.getAttribute('contenteditable') !== null) return 'textbox';
+    return null;
+  }
+
+  function _isVisible(element: HTMLElement): boolean {
+    const view = element.ownerDocument.defaultView || window;
+    const style = view.getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    if (style.display === 'none' || style.visibility === 'hidden' || rect.width <= 0 || rect.height <= 0) return false;
+    return !element.closest('[aria-hidden="true"]');
+  }
+
+  function _text(value: string | null | undefined, max = 80): string {
+    return (value || '').replace(/\s+/g, ' ').trim().slice(0, max);
+  }
+
+  function _accessibleName(element: HTMLElement, root: Document | ShadowRoot): string {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => (root as Document).getElementById?.(id)?.textContent || '').join(' ');
+      if (_text(text)) return _text(text);
+    }
+    const input = element as HTMLInputElement;
+    const candidates = [
+      element.getAttribute('aria-label'),
+      input.labels?.[0]?.textContent,
+      element.tagName === 'INPUT' && ['submit', 'button', 'reset'].includes(input.type) ? input.value : null,
+      element.tagName === 'IMG' || input.type === 'image' ? element.getAttribute('alt') : null,
+      element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' ? null : element.innerText,
+      element.getAttribute('title'),
+      element.getAttribute('placeholder'),
+      element.querySelector('img[alt]')?.getAttribute('alt')
+    ];
+    for (const candidate of candidates) {
+      if (_text(candidate)) return _text(candidate);
+    }
+    return '';
+  }
+
+  function _value(element: HTMLElement): string | undefined {
+    if (element.tagName === 'SELECT') {
+      const select = element as HTMLSelectElement;
+      return _text(Array.from(select.selectedOptions).map(option => option.textContent).join(', '), 60) || undefined;
+    }
+    if (element.tagName === 'INPUT') {
+      const input = element as HTMLInputElement;
+      if (['checkbox', 'radio', 'submit', 'button', 'reset', 'image', 'file'].includes(input.type)) return undefined;
+      if (input.type === 'password') return input.value ? '••••' : undefined;
+      return _text(input.value, 60) || undefined;
+    }
+    if (element.tagName === 'TEXTAREA') return _text((element as HTMLTextAreaElement).value, 60) || undefined;
+    if (element.isContentEditable) return _text(element.innerText, 60) || undefined;
+    return undefined;
+  }
+
+  function _states(element: HTMLElement, role: string): string[] {
+    const states: string[] = [];
+    const input = element as HTMLInputElement;
+    if (input.disabled || element.getAttribute('aria-disabled') === 'true') states.push('disabled');
+    if (((role === 'checkbox' || role === 'radio' || role === 'switch') && input.checked) || element.getAttribute('aria-checked') === 'true') states.push('checked');
+    const expanded = element.getAttribute('aria-expanded');
+    if (expanded) states.push(expanded === 'true' ? 'expanded' : 'collapsed');
+    if (element.getAttribute('aria-selected') === 'true') states.push('selected');
+    if (element.getAttribute('aria-pressed') === 'true') states.push('pressed');
+    if (input.required || element.getAttribute('aria-required') === 'true') states.push('required');
+    if (input.readOnly && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA')) states.push('readonly');
+    if (element.ownerDocument.activeElement === element) states.push('focused');
+    const rect = element.getBoundingClientRect();
+    const view = element.ownerDocument.defaultView || window;
+    if (rect.bottom < 0 || rect.top > view.innerHeight || rect.right < 0 || rect.left > view.innerWidth) states.push('offscreen');
+    return states;
+  }
+
+  // Refs persist on the elements, so the same element keeps its id across snapshots
+  const counterHost = document.documentElement;
+  let nextRef = Number(counterHost.getAttribute(COUNTER_ATTR) || '1');
+  function _refFor(element: HTMLElement): string {
+    const existing = element.getAttribute(REF_ATTR);
+    if (existing) return existing;
+    const ref = `e${nextRef++}`;
+    element.setAttribute(REF_ATTR, ref);
+    return ref;
+  }
+  // --- End Helper Definitions ---
+
+  const nodes: SnapshotNode[] = [];
+  let truncated = false;
+
+  function walk(root: Document | ShadowRoot, frame: string | undefined) {
+    for (const element of root.querySelectorAll('*')) {
+      if (nodes.length >= maxNodes) { truncated = true; return; }
+      const html = element as HTMLElement;
+      if (html.shadowRoot) walk(html.shadowRoot, frame);
+      if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+        try {
+          const frameDoc = (element as HTMLIFrameElement).contentDocument; // null for cross-origin frames
+          if (frameDoc) {
+            const frameName = element.getAttribute('name') || element.id || (element as HTMLIFrameElement).src || 'iframe';
+            walk(frameDoc, frame ? `${frame} > ${frameName}` : frameName);
+          }
+        } catch (e) { /* Cross-origin */ }
+        continue;
+      }
+      if (typeof html.getBoundingClientRect !== 'function') continue;
+      const explicitRole = element.getAttribute('role');
+      const role = explicitRole && (INTERACTIVE_ROLES.includes(explicitRole) || explicitRole === 'heading') ? explicitRole : _implicitRole(html);
+      const focusable = !role && element.getAttribute('tabindex') !== null && Number(element.getAttribute('tabindex')) >= 0;
+      if (!role && !focusable) continue;
+      if (!_isVisible(html)) continue;
+      const nodeRole = role || 'generic';
+      const node: SnapshotNode = {
+        ref: _refFor(html),
+        role: nodeRole,
+        name: _accessibleName(html, root),
+        value: _value(html),
+        states: _states(html, nodeRole)
+      };
+      if (nodeRole === 'heading') node.level = Number(element.getAttribute('aria-level') || element.tagName.slice(1)) || undefined;
+      if (frame) node.frame = frame;
+      // Nameless generic focusables are noise
+      if (nodeRole === 'generic' && !node.name) continue;
+      nodes.push(node);
+    }
+  }
+
+  walk(document, undefined);
+  counterHost.setAttribute(COUNTER_ATTR, String(nextRef));
+  const text = _text(document.body?.innerText, maxTextLength);
+  return { url: location.href, title: document.title, nodes, truncated, text };
+}
+
+// Dismisses cookie/consent banners and modal overlays in the current frame. Known consent managers are
+// handled with their own buttons, picked by the site's choice; otherwise fixed, high z-index elements that
+// cover most of the viewport (top frame only) or are a cookie notice (consent text plus a consent id, class or
+// label, or a dialog role) are closed through a matching button, or with Escape as a last resort. Resolves with what was dismissed, possibly nothing.
+export async function dismissOverlaysLogic(choice: ConsentChoice, recognisers: ConsentRecogniser[]): Promise<DismissedOverlay[]> {
+
+  // --- Define Helpers INSIDE dismissOverlaysLogic ---
+  // Buttons tried per choice, in order; rejecting falls back to closing and vice versa, never to accepting
+  const CHOICE_ORDER: Record<ConsentChoice, ConsentChoice[]> = { accept: ['accept'], reject: ['reject', 'close'], close: ['close', 'reject'] };
+  const BUTTON_TEXT: Record<ConsentChoice, RegExp> = {
+    accept: /^(accept|agree|allow|i agree|i accept|got it|ok|okay|yes)\b/i,
+    reject: /(reject|decline|deny|refuse|disagree|necessary only|only necessary|essential only|only essential)/i,
+    close: /^(close|dismiss|no thanks|not now|maybe later|skip|continue without|×|✕|✖|x)$/i
+  };
+  const CLOSE_SELECTORS = '[aria-label*="close" i], [aria-label*="dismiss" i], [title*="close" i], [data-dismiss], [data-bs-dismiss]';
+  const CONSENT_TEXT = /cookie|consent|gdpr|privacy|tracking/i;
+  // Consent text alone also matches headers with a "Privacy" link or order-tracking bars; the element must say what it is
+  const CONSENT_HINT = /cookie|consent|gdpr|ccpa/i;
+  const DIALOG_SELECTOR = 'dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+  // Full-viewport fixed layers are only treated as overlays when they look like a modal, not an app shell
+  const MODAL_HINT = /modal|popup|pop-up|overlay|lightbox|newsletter|interstitial|dialog|paywall/i;
+  const isTopFrame = window === window.top;
+  const dismissed: DismissedOverlay[] = [];
+
+  function _isVisible(element: Element | null): element is HTMLElement {
+    if (!(element instanceof HTMLElement)) return false;
+    const style = window.getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return false;
+    const rect = element.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  }
+
+  function _queryDeep(selector: string, root: Document | ShadowRoot | HTMLElement = document): HTMLElement[] {
+    const found: HTMLElement[] = [];
+    try {
+      root.querySelectorAll(selector).forEach(element => { if (element instanceof HTMLElement) found.push(element); });
+      root.querySelectorAll('*').forEach(element => { if (element.shadowRoot) found.push(..._queryDeep(selector, element.shadowRoot)); });
+    } catch (e) { /* invalid selector */ }
+    return found;
+  }
+
+  function _firstVisible(selectors: string[]): HTMLElement | null {
+    for (const selector of selectors) {
+      const match = _queryDeep(selector).find(element => _isVisible(element));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  function _label(element: HTMLElement): string {
+    const text = element.getAttribute('aria-label') || element.innerText || (element as HTMLInputElement).value || element.title || '';
+    return text.replace(/\s+/g, ' ').trim().slice(0, 60);
+  }
+
+  // Plain links are only candidates when looking for a button by its text, never evidence of a banner
+  function _buttons(container: HTMLElement, includeLinks = false): HTMLElement[] {
+    const selector = 'button, a[role="button"], [role="button"], input[type="button"], input[type="submit"]';
+    return _queryDeep(includeLinks ? `${selector}, a` : selector, container)
+      .filter(element => _isVisible(element));
+  }
+
+  function _findChoiceButton(container: HTMLElement, option: ConsentChoice): HTMLElement | null {
+    const buttons = _buttons(container, true);
+    const byText = buttons.find(button => BUTTON_TEXT[option].test(_label(button)));
+    if (byText || option !== 'close') return byText || null;
+    return _queryDeep(CLOSE_SELECTORS, container).find(element => _isVisible(element)) || null;
+  }
+
+  function _looksModal(element: HTMLElement): boolean {
+    if (element.matches(DIALOG_SELECTOR)) return true;
+    if (element.querySelector('dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]')) return true;
+    return MODAL_HINT.test(`${element.id} ${typeof element.className === 'string' ? element.className : ''}`);
+  }
+
+  function _isConsentNotice(element: HTMLElement): boolean {
+    if (!CONSENT_TEXT.test((element.innerText || '').slice(0, 2000))) return false;
+    const ownNames = `${element.id} ${typeof element.className === 'string' ? element.className : ''} ${element.getAttribute('aria-label') || ''}`;
+    return CONSENT_HINT.test(ownNames) || element.matches(DIALOG_SELECTOR);
+  }
+
+  function _zIndex(element: HTMLElement): number {
+    const value = parseInt(window.getComputedStyle(element).zIndex, 10);
+    return Number.isNaN(value) ? 0 : value;
+  }
+
+  const _sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  // --- End Helper Definitions ---
+
+  // 1. Known consent managers
+  for (const recogniser of recognisers) {
+    if (!_firstVisible(recogniser.detect)) continue;
+    for (const option of CHOICE_ORDER[choice]) {
+      const button = _firstVisible(recogniser[option]);
+      if (!button) continue;
+      const label = _label(button);
+      button.click();
+      dismissed.push({ kind: 'consent', provider: recogniser.name, method: option, label, url: location.href });
+      break;
+    }
+  }
+  if (dismissed.length > 0) return dismissed;
+
+  // 2. Generic overlays: fixed elements above the page that cover the viewport or carry a cookie notice
+  const viewportArea = window.innerWidth * window.innerHeight;
+  const candidates: HTMLElement[] = [];
+  document.querySelectorAll('body *').forEach(element => {
+    if (!(element instanceof HTMLElement) || candidates.some(candidate => candidate.contains(element))) return;
+    const style = window.getComputedStyle(element);
+    if (style.position !== 'fixed' || _zIndex(element) < 10 || !_isVisible(element)) return;
+    const rect = element.getBoundingClientRect();
+    const coversViewport = isTopFrame && rect.width * rect.height >= viewportArea * 0.5 && _looksModal(element);
+    const looksLikeConsent = _isConsentNotice(element) && _buttons(element).length > 0;
+    if (coversViewport || looksLikeConsent) candidates.push(element);
+  });
+  candidates.sort((a, b) => _zIndex(b) - _zIndex(a));
+
+  for (const overlay of candidates) {
+    const isConsent = _isConsentNotice(overlay);
+    const options: ConsentChoice[] = isConsent ? CHOICE_ORDER[choice] : ['close'];
+    let button: HTMLElement | null = null;
+    let method: ConsentChoice = 'close';
+    for (const option of options) {
+      button = _findChoiceButton(overlay, option);
+      if (button) { method = option; break; }
+    }
+    if (button) {
+      const label = _label(button);
+      button.click();
+      dismissed.push({ kind: isConsent ? 'consent' : 'overlay', method, label, url: location.href });
+      continue;
+    }
+    // No usable button (e.g. a backdrop): modals commonly close on Escape
+    if (!isTopFrame || isConsent) continue;
+    const escape = { key: 'Escape', code: 'Escape', keyCode: 27, bubbles: true, cancelable: true };
+    (document.activeElement || document.body).dispatchEvent(new KeyboardEvent('keydown', escape));
+    document.dispatchEvent(new KeyboardEvent('keyup', escape));
+    await _sleep(300);
+    if (!_isVisible(overlay) || !overlay.isConnected) {
+      dismissed.push({ kind: 'overlay', method: 'escape', label: 'Escape', url: location.href });
+    }
+  }
+  return dismissed;
+}
+
+// Describes the current frame for frame locators: its URL and window name, plus the frame ids of the
+// <iframe>/<frame> elements in it that match iframeSelector (shadow roots included).
+export function frameInfoLogic(iframeSelector: string | null): { url: string; name: string; childFrameIds: number[]; childUrls: string[] } {
+  const childFrameIds: number[] = [];
+  const childUrls: string[] = [];
+
+  function _collect(root: Document | ShadowRoot) {
+    if (!iframeSelector) return;
+    try {
+      root.querySelectorAll(iframeSelector).forEach(element => {
+        if (!(element instanceof HTMLIFrameElement || element instanceof HTMLFrameElement)) return;
+        // runtime.getFrameId (Chrome 106+) maps the element to its frame; the src is a fallback for older versions
+        const getFrameId = (chrome.runtime as unknown as { getFrameId?: (target: Element) => number }).getFrameId;
+        const frameId = getFrameId ? getFrameId(element) : -1;
+        if (frameId >= 0) childFrameIds.push(frameId);
+        else if (element.src) childUrls.push(element.src);
+      });
+      root.querySelectorAll('*').forEach(element => { if (element.shadowRoot) _collect(element.shadowRoot); });
+    } catch (e) { /* invalid selector: nothing matches */ }
+  }
+
+  _collect(document);
+  return { url: location.href, name: window.name, childFrameIds, childUrls };
+}
+
+// Content-box offsets of the iframes in this frame, keyed by their extension frame id; used to turn a point in a
+// child frame's viewport into top-level viewport coordinates for trusted input. Cross-origin frames are included.
+export function frameOffsetsLogic(): { frameId: number; left: number; top: number }[] {
+  const offsets: { frameId: number; left: number; top: number }[] = [];
+  const getFrameId = (chrome.runtime as unknown as { getFrameId?: (target: Element) => number }).getFrameId;
+  if (!getFrameId) return offsets;
+  for (const iframe of Array.from(document.querySelectorAll('iframe, frame'))) {
+    const frameId = getFrameId(iframe);
+    if (frameId < 0) continue;
+    const rect = iframe.getBoundingClientRect();
+    const style = getComputedStyle(iframe);
+    offsets.push({
+      frameId,
+      left: rect.left + iframe.clientLeft + (parseFloat(style.paddingLeft) || 0),
+      top: rect.top + iframe.clientTop + (parseFloat(style.paddingTop) || 0)
+    });
+  }
+  return offsets;
+}
+
+// Synthetic key presses for the press action. Dispatches keydown/keypress/keyup to the focused element and, unless
+// a listener cancels the keydown, emulates the browser's default for the keys scripts cannot trigger themselves
+// (Tab focus moves, select-all, Enter submitting a form, text insertion, Backspace). Only the frame that holds the
+// focus acts; if the page itself is not focused (e.g. the side panel is), the top frame does. With force set the
+// frame acts regardless, because the caller has just focused an element in it.
+export function pressKeyLogic(chord: KeyChord, repeat: number, force: boolean): { dispatched: boolean; error?: string; frameUrl?: string } {
+  const FOCUSABLE = 'a[href], button, input, select, textarea, summary, [tabindex], [contenteditable=""], [contenteditable="true"]';
+
+  function _activeElement(): HTMLElement {
+    let active: Element | null = document.activeElement;
+    while (active?.shadowRoot?.activeElement) active = active.shadowRoot.activeElement;
+    return active instanceof HTMLElement ? active : document.body;
+  }
+
+  function _moveFocus(from: HTMLElement, backwards: boolean) {
+    const candidates = Array.from(document.querySelectorAll<HTMLElement>(FOCUSABLE))
+      .filter(element => element.tabIndex >= 0 && !(element as HTMLInputElement).disabled && element.getClientRects().length > 0);
+    if (candidates.length === 0) return;
+    const index = candidates.indexOf(from);
+    const next = index < 0
+      ? candidates[backwards ? candidates.length - 1 : 0]
+      : candidates[(index + (backwards ? -1 : 1) + candidates.length) % candidates.length];
+    next.focus();
+  }
+
+  function _editText(element: HTMLInputElement | HTMLTextAreaElement, replacement: string, inputType: string) {
+    const start = element.selectionStart ?? element.value.length;
+    const end = element.selectionEnd ?? element.value.length;
+    // Backspace with a collapsed selection deletes the character before the caret
+    const from = inputType === 'deleteContentBackward' && start === end ? Math.max(0, start - 1) : start;
+    element.setRangeText(replacement, from, end, 'end');
+    element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data: replacement || null }));
+  }
+
+  function _applyDefault(element: HTMLElement) {
+    const isTextField = element instanceof HTMLTextAreaElement ||
+      (element instanceof HTMLInputElement && ['text', 'search', 'url', 'tel', 'password', ''].includes(element.type));
+    const character = chord.key === 'Enter' ? '\n' : chord.text;
+    if (chord.key === 'Tab' && !chord.ctrl && !chord.alt && !chord.meta) {
+      _moveFocus(element, chord.shift);
+    } else if ((chord.ctrl || chord.meta) && chord.key.toLowerCase() === 'a') {
+      if (isTextField) (element as HTMLInputElement).select();
+      else window.getSelection()?.selectAllChildren(element.isContentEditable ? element : document.body);
+    } else if (chord.key === 'Enter' && element instanceof HTMLInputElement && element.form) {
+      element.form.requestSubmit();
+    } else if (isTextField && chord.key === 'Backspace') {
+      _editText(element as HTMLInputElement, '', 'deleteContentBackward');
+    } else if (isTextField && character && !chord.ctrl && !chord.alt && !chord.meta) {
+      if (character === '\n' && element instanceof HTMLInputElement) return;
+      _editText(element as HTMLInputElement, character, character === '\n' ? 'insertLineBreak' : 'insertText');
+    }
+  }
+
+  if (!force) {
+    if (document.hasFocus()) {
+      // The focus is inside a child frame, which handles the press itself
+      if (document.activeElement instanceof HTMLIFrameElement || document.activeElement instanceof HTMLFrameElement) return { dispatched: false };
+    } else if (window !== window.top) {
+      return { dispatched: false };
+    }
+  }
+
+  try {
+    for (let i = 0; i < repeat; i++) {
+      const element = _activeElement();
+      const init: KeyboardEventInit = {
+        key: chord.key, code: chord.code, keyCode: chord.keyCode, which: chord.keyCode,
+        ctrlKey: chord.ctrl, shiftKey: chord.shift, altKey: chord.alt, metaKey: chord.meta,
+        bubbles: true, cancelable: true, composed: true
+      };
+      console.log(`[PRESS] Dispatching ${chord.key} to`, element);
+      const notCancelled = element.dispatchEvent(new KeyboardEvent('keydown', init));
+      if (notCancelled && chord.text && !chord.ctrl && !chord.meta) {
+        element.dispatchEvent(new KeyboardEvent('keypress', { ...init, charCode: chord.text.charCodeAt(0) }));
+      }
+      if (notCancelled) _applyDefault(element);
+      element.dispatchEvent(new KeyboardEvent('keyup', init));
+    }
+    return { dispatched: true, frameUrl: location.href };
+  } catch (e) {
+    console.error('[PRESS] Error dispatching key press:', e);
+    return { dispatched: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Attaches files to a file input, or drops them on a drop zone, for the upload action. File inputs are usually
+// hidden behind a styled button, so unlike actionCoreLogic the element does not have to be visible when it is (or
+// contains, or is the label of) an <input type=file>; anything else is treated as a drop zone and must be visible.
+// Fires the events a real selection produces: input and change on the input, or dragenter/dragover/drop.
+export function uploadFilesLogic(identifier: string, isSemantic: boolean, heuristics: HeuristicsMap, files: UploadFile[]): { success: boolean; error?: string; matchedSelector?: string; frameUrl?: string; mode?: 'input' | 'drop' } {
+  let matchedSelector: string | undefined;
+
+  function _queryDeep(selector: string, root: Document | ShadowRoot = document): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    root.querySelectorAll('*').forEach(element => {
+      if (element.shadowRoot) found.push(..._queryDeep(selector, element.shadowRoot));
+    });
+    return found;
+  }
+
+  function _isVisible(element: Element): element is HTMLElement {
+    if (!(element instanceof HTMLElement)) return false;
+    const style = getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+  }
+
+  // The file input an element stands for: itself, the control of a label, or a file input inside it
+  function _fileInputFor(element: Element): HTMLInputElement | null {
+    if (element instanceof HTMLInputElement) return element.type === 'file' ? element : null;
+    if (element instanceof HTMLLabelElement && element.control instanceof HTMLInputElement && element.control.type === 'file') return element.control;
+    const inner = element.querySelector('input[type="file"]') || element.shadowRoot?.querySelector('input[type="file"]');
+    return inner instanceof HTMLInputElement ? inner : null;
+  }
+
+  function _find(selector: string): Element | null {
+    let actualSelector = selector;
+    let checkText: string | null = null;
+    const match = selector.match(/(.*):contains\("(.*?)"\)/i);
+    if (match) {
+      actualSelector = match[1] || '*';
+      checkText = match[2].toLowerCase();
+    }
+    try {
+      return _queryDeep(actualSelector).find(element =>
+        (!checkText || (element.textContent || '').toLowerCase().includes(checkText)) &&
+        (_fileInputFor(element) !== null || _isVisible(element))) || null;
+    } catch (e) {
+      console.warn('[UPLOAD] Invalid selector', selector, e);
+      return null;
+    }
+  }
+
+  let element: Element | null = null;
+  if (isSemantic) {
+    for (const selector of heuristics[identifier] || []) {
+      element = _find(selector);
+      if (element) {
+        matchedSelector = selector;
+        break;
+      }
+    }
+  } else {
+    element = _find(identifier);
+  }
+  if (!element) return { success: false, error: 'Element not found in this frame' };
+
+  try {
+    const transfer = new DataTransfer();
+    for (const file of files) {
+      const base64 = file.dataUrl.slice(file.dataUrl.indexOf(',') + 1);
+      const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+      transfer.items.add(new File([bytes], file.name, { type: file.type, lastModified: file.lastModified }));
+    }
+
+    const input = _fileInputFor(element);
+    if (input) {
+      if (input.disabled) return { success: false, error: 'File input is disabled' };
+      if (files.length > 1 && !input.multiple) {
+        return { success: false, error: `File input accepts a single file, but ${files.length} were given` };
+      }
+      console.log('[UPLOAD] Setting files on input', input, files.map(file => file.name));
+      input.files = transfer.files;
+      input.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+      return { success: true, matchedSelector, frameUrl: location.href, mode: 'input' };
+    }
+
+    const zone = element as HTMLElement;
+    const rect = zone.getBoundingClientRect();
+    const coords = { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+    console.log('[UPLOAD] Dropping files on', zone, files.map(file => file.name));
+    for (const type of ['dragenter', 'dragover', 'drop']) {
+      zone.dispatchEvent(new DragEvent(type, { ...coords, bubbles: true, cancelable: true, composed: true, dataTransfer: transfer }));
+    }
+    return { success: true, matchedSelector, frameUrl: location.href, mode: 'drop' };
+  } catch (e) {
+    console.error('[UPLOAD] Error attaching files:', e);
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Synthetic drag for the drag action: the pointer/mouse sequence (down, moves along the path, up) that sliders and
+// pointer-based sortable libraries listen to, followed by the HTML5 drag-and-drop sequence (dragstart ... drop,
+// dragend) when the source is draggable. Source and destination must be in this frame. The destination is an
+// element, or the point at an offset from the source's centre.
+export async function dragLogic(source: string, sourceIsSemantic: boolean, destination: string | null, destinationIsSemantic: boolean, offset: { x: number; y: number } | null, heuristics: HeuristicsMap): Promise<{ success: boolean; error?: string; matchedSelector?: string; frameUrl?: string }> {
+  const MOVE_STEPS = 10;
+  let matchedSelector: string | undefined;
+
+  function _queryDeep(selector: string, root: Document | ShadowRoot = document): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    root.querySelectorAll('*').forEach(element => {
+      if (element.shadowRoot) found.push(..._queryDeep(selector, element.shadowRoot));
+    });
+    return found;
+  }
+
+  function _isVisible(element: Element): element is HTMLElement {
+    if (!(element instanceof HTMLElement)) return false;
+    const style = getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+  }
+
+  function _find(selector: string): HTMLElement | null {
+    let actualSelector = selector;
+    let checkText: string | null = null;
+    const match = selector.match(/(.*):contains\("(.*?)"\)/i);
+    if (match) {
+      actualSelector = match[1] || '*';
+      checkText = match[2].toLowerCase();
+    }
+    try {
+      const found = _queryDeep(actualSelector).find(element =>
+        (!checkText || (element.textContent || '').toLowerCase().includes(checkText)) && _isVisible(element));
+      return (found as HTMLElement | undefined) || null;
+    } catch (e) {
+      console.warn('[DRAG] Invalid selector', selector, e);
+      return null;
+    }
+  }
+
+  function _locate(identifier: string, isSemantic: boolean): { element: HTMLElement; selector?: string } | null {
+    if (!isSemantic) {
+      const element = _find(identifier);
+      return element ? { element } : null;
+    }
+    for (const selector of heuristics[identifier] || []) {
+      const element = _find(selector);
+      if (element) return { element, selector };
+    }
+    return null;
+  }
+
+  function _centre(element: HTMLElement): { x: number; y: number } {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  }
+
+  const pause = () => new Promise(resolve => setTimeout(resolve, 16));
+
+  const sourceMatch = _locate(source, sourceIsSemantic);
+  if (!sourceMatch) return { success: false, error: 'Element not found in this frame' };
+  matchedSelector = sourceMatch.selector;
+  const sourceElement = sourceMatch.element;
+  sourceElement.scrollIntoView({ block: 'center', inline: 'center' });
+
+  let destinationElement: HTMLElement | null = null;
+  if (destination) {
+    destinationElement = _locate(destination, destinationIsSemantic)?.element || null;
+    if (!destinationElement) return { success: false, error: `Drag destination "${destination}" not found in the source element's frame` };
+  }
+
+  try {
+    const start = _centre(sourceElement);
+    const end = destinationElement ? _centre(destinationElement) : { x: start.x + (offset?.x || 0), y: start.y + (offset?.y || 0) };
+    const at = (point: { x: number; y: number }) => ({ clientX: point.x, clientY: point.y, bubbles: true, cancelable: true, composed: true, view: window });
+    const pointer = { pointerId: 1, pointerType: 'mouse', isPrimary: true };
+    const hit = (point: { x: number; y: number }) => (document.elementFromPoint(point.x, point.y) as HTMLElement | null) || destinationElement || sourceElement;
+
+    console.log('[DRAG] Pointer sequence from', start, 'to', end);
+    sourceElement.dispatchEvent(new PointerEvent('pointerover', { ...at(start), ...pointer }));
+    sourceElement.dispatchEvent(new PointerEvent('pointerdown', { ...at(start), ...pointer, button: 0, buttons: 1 }));
+    sourceElement.dispatchEvent(new MouseEvent('mousedown', { ...at(start), button: 0, buttons: 1 }));
+    for (let i = 1; i <= MOVE_STEPS; i++) {
+      await pause();
+      const point = { x: start.x + (end.x - start.x) * i / MOVE_STEPS, y: start.y + (end.y - start.y) * i / MOVE_STEPS };
+      const over = hit(point);
+      over.dispatchEvent(new PointerEvent('pointermove', { ...at(point), ...pointer, buttons: 1 }));
+      over.dispatchEvent(new MouseEvent('mousemove', { ...at(point), buttons: 1 }));
+    }
+    const releaseTarget = destinationElement || hit(end);
+    releaseTarget.dispatchEvent(new PointerEvent('pointerup', { ...at(end), ...pointer, button: 0, buttons: 0 }));
+    releaseTarget.dispatchEvent(new MouseEvent('mouseup', { ...at(end), button: 0, buttons: 0 }));
+
+    // Links and images are draggable by default; anything else has to opt in
+    const draggable = sourceElement.draggable || sourceElement.closest('[draggable="true"]') !== null;
+    if (draggable) {
+      console.log('[DRAG] HTML5 drag-and-drop sequence');
+      const dataTransfer = new DataTransfer();
+      const dragAt = (point: { x: number; y: number }) => ({ ...at(point), dataTransfer });
+      const dropTarget = destinationElement || hit(end);
+      if (sourceElement.dispatchEvent(new DragEvent('dragstart', dragAt(start)))) {
+        await pause();
+        sourceElement.dispatchEvent(new DragEvent('drag', dragAt(end)));
+        dropTarget.dispatchEvent(new DragEvent('dragenter', dragAt(end)));
+        // As in a real drag, the drop only happens if the target accepts it by cancelling dragover
+        const accepted = !dropTarget.dispatchEvent(new DragEvent('dragover', dragAt(end)));
+        if (accepted) dropTarget.dispatchEvent(new DragEvent('drop', dragAt(end)));
+        else dropTarget.dispatchEvent(new DragEvent('dragleave', dragAt(end)));
+        sourceElement.dispatchEvent(new DragEvent('dragend', dragAt(end)));
+      }
+    }
+    return { success: true, matchedSelector, frameUrl: location.href };
+  } catch (e) {
+    console.error('[DRAG] Error during drag:', e);
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Looks at this frame for an assert step: how many visible elements match the locator, whether the text occurs
+// in them (or anywhere in the page without a locator) and the attribute of the first match. For a semantic target
+// the first heuristic selector with a visible match counts. Text is compared with whitespace collapsed, lower case.
+export function assertionProbeLogic(identifier: string | null, isSemantic: boolean, text: string | null, attribute: string | null, heuristics: HeuristicsMap): { count: number; textFound: boolean; attributeValue?: string | null; matchedSelector?: string; frameUrl: string } {
+  let matchedSelector: string | undefined;
+
+  function _queryDeep(selector: string, root: Document | ShadowRoot = document): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    root.querySelectorAll('*').forEach(element => {
+      if (element.shadowRoot) found.push(..._queryDeep(selector, element.shadowRoot));
+    });
+    return found;
+  }
+
+  function _isVisible(element: Element): element is HTMLElement {
+    if (!(element instanceof HTMLElement)) return false;
+    const style = getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+  }
+
+  function _normalize(value: string): string {
+    return value.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  function _findAll(selector: string): HTMLElement[] {
+    let actualSelector = selector;
+    let checkText: string | null = null;
+    const match = selector.match(/(.*):contains\("(.*?)"\)/i);
+    if (match) {
+      actualSelector = match[1] || '*';
+      checkText = match[2].toLowerCase();
+    }
+    try {
+      return _queryDeep(actualSelector).filter((element): element is HTMLElement =>
+        (!checkText || (element.textContent || '').toLowerCase().includes(checkText)) && _isVisible(element));
+    } catch (e) {
+      console.warn('[ASSERT] Invalid selector', selector, e);
+      return [];
+    }
+  }
+
+  // Page text including open shadow roots, which innerText does not reach
+  function _pageText(): string {
+    const parts = [document.body?.innerText || ''];
+    const collect = (root: Document | ShadowRoot) => root.querySelectorAll('*').forEach(element => {
+      if (element.shadowRoot) {
+        parts.push(element.shadowRoot.textContent || '');
+        collect(element.shadowRoot);
+      }
+    });
+    collect(document);
+    return parts.join(' ');
+  }
+
+  const needle = text ? _normalize(text) : null;
+  if (!identifier) {
+    return { count: 0, textFound: needle !== null && _normalize(_pageText()).includes(needle), frameUrl: location.href };
+  }
+
+  let elements: HTMLElement[] = [];
+  if (isSemantic) {
+    for (const selector of heuristics[identifier] || []) {
+      elements = _findAll(selector);
+      if (elements.length > 0) {
+        matchedSelector = selector;
+        break;
+      }
+    }
+  } else {
+    elements = _findAll(identifier);
+  }
+
+  const first = elements[0];
+  const attributeValue = !attribute || !first
+    ? undefined
+    : attribute === 'value' && (first instanceof HTMLInputElement || first instanceof HTMLTextAreaElement || first instanceof HTMLSelectElement)
+      ? first.value
+      : first.getAttribute(attribute);
+  return {
+    count: elements.length,
+    textFound: needle !== null && elements.some(element => _normalize(element.innerText || element.textContent || '').includes(needle)),
+    attributeValue,
+    matchedSelector,
+    frameUrl: location.href
+  };
+}
+
+// Lists this frame's visible matches of a for_each locator (a semantic target uses its first heuristic selector with
+// matches). With `mark`, the element at mark.index is tagged data-bai-item="<marker>", moving the tag off any element
+// that had it, so later steps can address it as [data-bai-item="<marker>"]; its text and link are returned.
+export function listItemsLogic(identifier: string, isSemantic: boolean, heuristics: HeuristicsMap, mark: { index: number; marker: string } | null): { count: number; matchedSelector?: string; frameUrl: string; item?: { text: string; url: string | null } } {
+  const ITEM_ATTRIBUTE = 'data-bai-item';
+  let matchedSelector: string | undefined;
+
+  function _queryDeep(selector: string, root: Document | ShadowRoot = document): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    root.querySelectorAll('*').forEach(element => {
+      if (element.shadowRoot) found.push(..._queryDeep(selector, element.shadowRoot));
+    });
+    return found;
+  }
+
+  function _isVisible(element: Element): element is HTMLElement {
+    if (!(element instanceof HTMLElement)) return false;
+    const style = getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+  }
+
+  function _findAll(selector: string): HTMLElement[] {
+    let actualSelector = selector;
+    let checkText: string | null = null;
+    const match = selector.match(/(.*):contains\("(.*?)"\)/i);
+    if (match) {
+      actualSelector = match[1] || '*';
+      checkText = match[2].toLowerCase();
+    }
+    try {
+      return _queryDeep(actualSelector).filter((element): element is HTMLElement =>
+        (!checkText || (element.textContent || '').toLowerCase().includes(checkText)) && _isVisible(element));
+    } catch (e) {
+      console.warn('[FOR EACH] Invalid selector', selector, e);
+      return [];
+    }
+  }
+
+  let elements: HTMLElement[] = [];
+  if (isSemantic) {
+    for (const selector of heuristics[identifier] || []) {
+      elements = _findAll(selector);
+      if (elements.length > 0) {
+        matchedSelector = selector;
+        break;
+      }
+    }
+  } else {
+    elements = _findAll(identifier);
+  }
+
+  const element = mark ? elements[mark.index] : undefined;
+  if (!mark || !element) return { count: elements.length, matchedSelector, frameUrl: location.href };
+
+  _queryDeep(`[${ITEM_ATTRIBUTE}="${mark.marker}"]`).forEach(previous => previous.removeAttribute(ITEM_ATTRIBUTE));
+  element.setAttribute(ITEM_ATTRIBUTE, mark.marker);
+  const link = element.closest('a[href]') || element.querySelector('a[href]');
+  return {
+    count: elements.length,
+    matchedSelector,
+    frameUrl: location.href,
+    item: {
+      text: (element.innerText || element.textContent || '').replace(/\s+/g, ' ').trim(),
+      url: link instanceof HTMLAnchorElement ? link.href : null
+    }
+  };
+}
@@ -1,8 +1,14 @@
 import type { ExecutionPlan } from '../utils/llm';
 import { executePlanSteps } from './planExecutor';
+import { runAgentLoop } from './agentLoop';
+import { getRun, cancelAllRuns, type RunCommand } from './runControl';
+import { startPageActivityTracking } from './pageActivity';
 
 console.log('Background service worker started.');
 
+// Listeners must be registered on startup so network activity is tracked before a run needs it
+startPageActivityTracking();
+
 function openSidePanelForTab(tabId: number) {
   console.log(`Opening side panel for tab ${tabId}`);
   chrome.sidePanel.open({ tabId: tabId }).then(() => {
@@ -12,12 +18,26 @@ function openSidePanelForTab(tabId: number) {
   });
 }
 
+// The panel holds a port open while it is visible; when the last one closes, running plans are cancelled
+let openPanelPorts = 0;
+chrome.runtime.onConnect.addListener(port => {
+  if (port.name !== 'panel') return;
+  openPanelPorts++;
+  port.onDisconnect.addListener(() => {
+    openPanelPorts--;
+    if (openPanelPorts === 0) {
+      console.log('Last panel closed, cancelling running plans.');
+      cancelAllRuns();
+    }
+  });
+});
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   console.log('Received message:', message, 'from sender:', sender);
   const senderTabId = sender.tab?.id;
   
-  // --- Handle executePlan --- 
-  if (message.type === 'executePlan') {
+  // --- Handle executePlan / runAgent (agent loop mode sends instructions instead of a plan) --- 
+  if (message.type === 'executePlan' || message.type === 'runAgent') {
     const requestId = message.requestId; // Get request ID
     if (!requestId) {
         console.error('executePlan message missing requestId');
@@ -51,9 +71,16 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       }
 
       // Check we have everything needed
-      if (targetTabId && message.plan) {
+      if (targetTabId && message.type === 'runAgent' && message.instructions) {
+        runAgentLoop(targetTabId, message.instructions, requestId)
+          .catch(error => console.error('[Main] Agent loop rejected for tab', targetTabId, error));
+      } else if (targetTabId && message.plan) {
         // Execute the plan, passing the requestId
-        executePlanSteps(targetTabId, message.plan as ExecutionPlan, requestId)
+        executePlanSteps(targetTabId, message.plan as ExecutionPlan, requestId, {
+          instructions: message.instructions,
+          variables: message.variables,
+          verifyGoal: message.verifyGoal === true
+        })
           .then(() => {
              // Overall success message is now sent via planStepResult with isFinal=true
              console.log('[Main] Plan execution promise resolved successfully for tab:', targetTabId);
@@ -78,6 +105,16 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     // Status updates are sent via separate messages. Return undefined or void.
     return; // Important: No 'true' here, response handled via messages
   }
+  // --- Handle executionControl (pause/resume/cancel/step from the panel) ---
+  else if (message.type === 'executionControl') {
+    const run = message.requestId ? getRun(message.requestId) : undefined;
+    if (run) {
+      run.handleCommand(message.command as RunCommand);
+    } else {
+      console.warn(`executionControl for unknown or finished request ${message.requestId}`);
+    }
+    return false;
+  }
   // --- Handle openSidePanel --- 
   else if (message.type === 'openSidePanel') {
        // This part remains the same
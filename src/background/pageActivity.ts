@@ -0,0 +1,240 @@
+import { matchesFrameUrl } from '../common/frames';
+import { parseKeyChord } from '../common/keys';
+import type { PlanStep, WaitStep } from '../common/types';
+import type { WaitSettings } from '../utils/waitSettings';
+import { waitForDomQuietLogic } from './injectable/scriptBuilder';
+
+/**
+ * Network requests and URL changes per tab, tracked from browser events so steps can wait for pages
+ * (single-page apps in particular) to finish loading data or changing route: explicitly through wait
+ * steps with "until", and automatically after clicks, submits and navigations (settlePage).
+ */
+
+// Requests open longer than this (long polling, streams, analytics beacons) no longer keep the network busy
+export const LONG_REQUEST_MS = 10000;
+const POLL_INTERVAL_MS = 100;
+
+interface TabActivity {
+  requests: Map<string, number>; // In-flight request ids and when they started
+  lastNetworkAt: number;         // When a request last started or finished
+  lastUrlChangeAt: number;
+  lastLoadStartAt: number;       // When the tab last started loading a document
+}
+
+export class PageActivityTracker {
+  private tabs = new Map<number, TabActivity>();
+
+  requestStarted(tabId: number, requestId: string, at = Date.now()) {
+    const activity = this.activity(tabId);
+    activity.requests.set(requestId, at);
+    activity.lastNetworkAt = at;
+  }
+
+  requestFinished(tabId: number, requestId: string, at = Date.now()) {
+    const activity = this.activity(tabId);
+    if (activity.requests.delete(requestId)) activity.lastNetworkAt = at;
+  }
+
+  // Navigations, history.pushState/replaceState and hash changes alike
+  urlChanged(tabId: number, at = Date.now()) {
+    this.activity(tabId).lastUrlChangeAt = at;
+  }
+
+  loadStarted(tabId: number, at = Date.now()) {
+    this.activity(tabId).lastLoadStartAt = at;
+  }
+
+  forget(tabId: number) {
+    this.tabs.delete(tabId);
+  }
+
+  /**
+   * Requests in flight (long-running ones are dropped) and how long the network has been quiet
+   * since `since`; quietForMs is 0 while requests are pending.
+   */
+  networkState(tabId: number, since: number, now = Date.now()): { pending: number; quietForMs: number } {
+    const activity = this.tabs.get(tabId);
+    if (!activity) return { pending: 0, quietForMs: now - since };
+    for (const [requestId, startedAt] of activity.requests) {
+      if (now - startedAt > LONG_REQUEST_MS) activity.requests.delete(requestId);
+    }
+    const pending = activity.requests.size;
+    return { pending, quietForMs: pending > 0 ? 0 : now - Math.max(activity.lastNetworkAt, since) };
+  }
+
+  // 0 if the URL has not changed since tracking started
+  lastUrlChangeAt(tabId: number): number {
+    return this.tabs.get(tabId)?.lastUrlChangeAt ?? 0;
+  }
+
+  // 0 if no load has started since tracking started
+  lastLoadStartAt(tabId: number): number {
+    return this.tabs.get(tabId)?.lastLoadStartAt ?? 0;
+  }
+
+  private activity(tabId: number): TabActivity {
+    let activity = this.tabs.get(tabId);
+    if (!activity) {
+      activity = { requests: new Map(), lastNetworkAt: 0, lastUrlChangeAt: 0, lastLoadStartAt: 0 };
+      this.tabs.set(tabId, activity);
+    }
+    return activity;
+  }
+}
+
+export const pageActivity = new PageActivityTracker();
+
+/**
+ * Feeds the tracker from webRequest and tab events. Called once when the service worker starts.
+ */
+export function startPageActivityTracking() {
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'] };
+  const finish = (details: { tabId: number; requestId: string }) => {
+    if (details.tabId >= 0) pageActivity.requestFinished(details.tabId, details.requestId);
+  };
+  chrome.webRequest.onBeforeRequest.addListener(details => {
+    if (details.tabId >= 0) pageActivity.requestStarted(details.tabId, details.requestId);
+  }, filter);
+  chrome.webRequest.onCompleted.addListener(finish, filter);
+  chrome.webRequest.onErrorOccurred.addListener(finish, filter);
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.url) pageActivity.urlChanged(tabId);
+    if (changeInfo.status === 'loading') pageActivity.loadStarted(tabId);
+  });
+  chrome.tabs.onRemoved.addListener(tabId => pageActivity.forget(tabId));
+}
+
+// Resolves true as soon as `check` passes, or with a last check once the timeout has passed
+async function pollUntil(check: () => boolean | Promise<boolean>, timeout: number): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (!(await check())) {
+    if (Date.now() >= deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now()))));
+  }
+  return true;
+}
+
+async function getTab(tabId: number): Promise<chrome.tabs.Tab | undefined> {
+  return chrome.tabs.get(tabId).catch(() => undefined);
+}
+
+// No request in flight for idleMs, counted from when the wait starts so requests a click is about to start are caught
+export function waitForNetworkIdle(tabId: number, idleMs: number, timeout: number): Promise<boolean> {
+  const since = Date.now();
+  return pollUntil(() => pageActivity.networkState(tabId, since).quietForMs >= idleMs, timeout);
+}
+
+export function waitForUrl(tabId: number, pattern: string, timeout: number): Promise<boolean> {
+  return pollUntil(async () => matchesFrameUrl(pattern, (await getTab(tabId))?.url || ''), timeout);
+}
+
+// Any URL change after `since`, including ones that happened before the wait started
+export function waitForUrlChange(tabId: number, since: number, timeout: number): Promise<boolean> {
+  return pollUntil(() => pageActivity.lastUrlChangeAt(tabId) >= since, timeout);
+}
+
+/**
+ * Waits for a navigation that started after `since` to finish: a document load (also a reload), or a same-document
+ * URL change such as a single-page app's history entry. Resolves false on timeout.
+ */
+export function waitForNavigation(tabId: number, since: number, timeout: number): Promise<boolean> {
+  return pollUntil(async () => (pageActivity.lastLoadStartAt(tabId) >= since || pageActivity.lastUrlChangeAt(tabId) >= since)
+    && (await getTab(tabId))?.status !== 'loading', timeout);
+}
+
+export function waitForLoadComplete(tabId: number, timeout: number): Promise<boolean> {
+  return pollUntil(async () => (await getTab(tabId))?.status !== 'loading', timeout);
+}
+
+// No elements added or removed and no text changed in the top frame for quietMs. Pages scripts cannot
+// run in (e.g. chrome:// pages) count as stable.
+export async function waitForDomStable(tabId: number, quietMs: number, timeout: number): Promise<boolean> {
+  try {
+    const results = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: waitForDomQuietLogic,
+      args: [quietMs, timeout]
+    });
+    return results?.[0]?.result !== false;
+  } catch (error) {
+    console.warn(`Could not watch the DOM of tab ${tabId}:`, error);
+    return true;
+  }
+}
+
+/**
+ * What a wait step with "until" waits for, e.g. `the URL to match "checkout/done"`.
+ */
+export function describeWaitCondition(step: Pick<WaitStep, 'until' | 'url'>): string {
+  switch (step.until) {
+    case 'network_idle': return 'the network to be idle';
+    case 'url': return `the URL to match "${step.url}"`;
+    case 'route_change': return 'the URL to change';
+    case 'dom_stable': return 'the page to stop changing';
+    default: return `condition ${step.until}`;
+  }
+}
+
+/**
+ * Waits for the page condition of a wait step. A route change counts from `since` (when the previous step started),
+ * so a change that a click already caused is not missed.
+ */
+export function waitForPageCondition(tabId: number, step: WaitStep, options: { timeout: number; idleMs: number; since: number }): Promise<boolean> {
+  switch (step.until) {
+    case 'network_idle': return waitForNetworkIdle(tabId, options.idleMs, options.timeout);
+    case 'url': return waitForUrl(tabId, step.url || '', options.timeout);
+    case 'route_change': return waitForUrlChange(tabId, options.since, options.timeout);
+    case 'dom_stable': return waitForDomStable(tabId, options.idleMs, options.timeout);
+    default: throw new Error(`Unknown wait condition "${step.until}"`);
+  }
+}
+
+/**
+ * Whether the page should be left to settle after a step: clicks, typing with submit, pressing Enter and
+ * navigations when automatic waiting is on. A step's own "settle" field wins for the steps that have one.
+ */
+export function shouldSettleAfter(step: PlanStep, autoWait: boolean): boolean {
+  switch (step.action) {
+    case 'click': return step.settle ?? autoWait;
+    case 'type': return step.settle ?? (autoWait && !!step.submit);
+    case 'press': return step.settle ?? (autoWait && pressesEnter(step.keys));
+    case 'navigate':
+    case 'go_back':
+    case 'go_forward':
+    case 'refresh':
+      return autoWait;
+    default: return false;
+  }
+}
+
+function pressesEnter(keys: string): boolean {
+  try {
+    return parseKeyChord(keys).key === 'Enter';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Waits, within settings.maxWaitMs in total, for a load the step started (the tab is loading or its URL changed
+ * after `since`) to finish, then for the network to go idle and the DOM to stop changing.
+ * Never fails; returns what did not settle in time, e.g. ['network'].
+ */
+export async function settlePage(tabId: number, since: number, settings: WaitSettings): Promise<string[]> {
+  const deadline = Date.now() + settings.maxWaitMs;
+  const remaining = () => Math.max(0, deadline - Date.now());
+  const unsettled: string[] = [];
+  const tab = await getTab(tabId);
+  if (!tab) return unsettled;
+
+  if (tab.status === 'loading' || pageActivity.lastUrlChangeAt(tabId) >= since) {
+    if (!(await waitForLoadComplete(tabId, remaining()))) unsettled.push('page load');
+  }
+  const [networkIdle, domStable] = await Promise.all([
+    waitForNetworkIdle(tabId, settings.idleMs, remaining()),
+    waitForDomStable(tabId, settings.idleMs, remaining())
+  ]);
+  if (!networkIdle) unsettled.push('network');
+  if (!domStable) unsettled.push('DOM');
+  return unsettled;
+}
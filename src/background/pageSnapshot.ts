@@ -0,0 +1,55 @@
+import type { PageSnapshot, SnapshotNode } from '../common/types';
+import { accessibilitySnapshotLogic } from './injectable/scriptBuilder';
+
+// Compact page descriptions for the model (agent loop and troubleshooting), built from
+// accessibilitySnapshotLogic. Listed elements can be targeted in steps as { "ref": "eN" }.
+
+const SNAPSHOT_MAX_NODES = 150;
+const SNAPSHOT_MAX_TEXT = 2000;
+
+export async function capturePageSnapshot(tabId: number): Promise<PageSnapshot> {
+    const [{ result }] = await chrome.scripting.executeScript({
+        target: { tabId, allFrames: false }, // Same-origin frames are walked from the top document
+        func: accessibilitySnapshotLogic,
+        args: [SNAPSHOT_MAX_NODES, SNAPSHOT_MAX_TEXT]
+    });
+    if (!result) throw new Error('Page snapshot returned no result');
+    return result;
+}
+
+function formatNode(node: SnapshotNode): string {
+    const parts = [`- ${node.role}${node.level ? ` (level ${node.level})` : ''}`];
+    if (node.name) parts.push(`"${node.name}"`);
+    parts.push(`[ref=${node.ref}]`);
+    if (node.value) parts.push(`value="${node.value}"`);
+    if (node.states.length > 0) parts.push(`(${node.states.join(', ')})`);
+    if (node.frame) parts.push(`in frame ${node.frame}`);
+    return parts.join(' ');
+}
+
+/**
+ * Renders a snapshot as text, one element per line, e.g. `- button "Search" [ref=e12] (disabled)`.
+ */
+export function formatSnapshot(snapshot: PageSnapshot): string {
+    return [
+        `URL: ${snapshot.url}`,
+        `Title: ${snapshot.title}`,
+        'Elements:',
+        ...(snapshot.nodes.length > 0 ? snapshot.nodes.map(formatNode) : ['(no interactive elements found)']),
+        ...(snapshot.truncated ? ['(more elements not shown)'] : []),
+        'Visible text (truncated):',
+        snapshot.text || '(none)'
+    ].join('\n');
+}
+
+/**
+ * Captures and formats a snapshot; pages that cannot be scripted (chrome://, the Web Store) yield a short note instead.
+ */
+export async function describePage(tabId: number): Promise<string> {
+    try {
+        return formatSnapshot(await capturePageSnapshot(tabId));
+    } catch (error) {
+        const tab = await chrome.tabs.get(tabId).catch(() => undefined);
+        return `URL: ${tab?.url || 'unknown'}\nPage content cannot be read (${error instanceof Error ? error.message : String(error)}).`;
+    }
+}
@@ -1,64 +1,84 @@
-import type { ExecutionPlan, PlanStep, StepResult } from '../common/types';
+import type {
+    ExecutionPlan, PlanStep, ScreenshotCapture, StepResult, StepFrame, ElementLocator, ActionabilityOptions,
+    NavigateStep, TypeStep, ClickStep, WaitStep, ScrollStep, ExtractStep, SelectStep,
+    HoverStep, ClearStep, PressStep, UploadStep, UploadFile, DragStep, GoBackStep, GoForwardStep, RefreshStep, ScreenshotStep,
+    OpenTabStep, SwitchTabStep, CloseTabStep, AssertStep, AssertionOutcome, GoalVerification, FailureReason, StepCondition
+} from '../common/types';
 import type { FoundElement, HeuristicsMap, RootNode } from '../common/types';
-import { heuristicsMap } from './injectable/heuristics';
+import { getHeuristicsForTab, getSiteForTab } from './siteHeuristics';
+import { attemptDismissPopups } from './popupDismissal';
+import { injectionTarget, resolveStepFrame } from './frameTargeting';
+import { TabRegistry, findSwitchTarget, describeSwitchTarget, describeRunTabs } from './tabRegistry';
+import { describePage } from './pageSnapshot';
+import { describeWaitCondition, waitForPageCondition, waitForNavigation, shouldSettleAfter, settlePage } from './pageActivity';
+import { trustedClick, trustedType, trustedPress, trustedDrag, toTopLevelPoint, type ViewportPoint } from './trustedInput';
+import { parseKeyChord } from '../common/keys';
 import { 
     actionCoreLogic, 
     scrollCoreLogic, 
     extractCoreLogic, 
-    waitForElementLogic
+    waitForElementLogic,
+    actionabilityLogic,
+    pressKeyLogic,
+    uploadFilesLogic,
+    dragLogic,
+    assertionProbeLogic,
+    listItemsLogic
 } from './injectable/scriptBuilder';
-import { withRetry, troubleshootWithLLM, FallbackError } from './retryUtils';
+import { resolveStepTemplates, DEFAULT_ITEM_NAME, type RunVariables } from '../common/template';
+import {
+    describeStepSubject, describeLocator, getStepLocator, mergeFallbackCandidate, validatePlan, formatValidationIssues,
+    numberSteps, flattenSteps
+} from '../common/planValidation';
+import { resolveStepRef, refSelector, itemSelector } from '../common/elementRefs';
+import {
+    describeCondition, evaluateVariableCondition, resolveConditionTemplates, getListItems, itemVariables,
+    DEFAULT_MAX_ITERATIONS, DEFAULT_MAX_ITEMS
+} from '../common/controlFlow';
+import { AssertionFailedError, describeAssertion, assertText, assertUrl, assertCount, assertAttribute, assertVariable } from '../common/assertions';
+import { registerRun, unregisterRun, RunCancelledError, type RunController } from './runControl';
+import { saveRunRecord, type RunRecord } from '../utils/runHistory';
+import { getLearnedSelectors, loadSelectorMemory, recordSelectorOutcome } from '../utils/selectorMemory';
+import { loadInputSettings } from '../utils/inputSettings';
+import { findLibraryFiles, loadFileLibrary } from '../utils/fileLibrary';
+import { loadTabSettings } from '../utils/tabSettings';
+import { loadWaitSettings } from '../utils/waitSettings';
+import { loadLLMSettings } from '../utils/llmSettings';
+import { verifyGoal } from '../utils/llm';
+import { withRetry, troubleshootWithLLM, FallbackError, captureScreenshot, captureFullPageScreenshot } from './retryUtils';
 
 const MAX_STEP_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
-// Local type for formatted steps sent to the panel
-interface FormattedStep extends PlanStep { // Inherits original PlanStep properties
+// Steps as sent to the panel: the plan step plus its id and display description
+export type FormattedStep = PlanStep & { // Inherits original PlanStep properties
     id: number;
     description: string;
+};
+
+// What an injected action reported back: the frame it ran in and, for semantic targets, the selector that matched
+export interface ActionReport {
+    frame?: StepFrame;
+    matchedSelector?: string;
 }
 
-// --- Helper for Optional Popup Dismissal ---
-// NOTE: This still uses the old pattern - needs refactor or removal if popups aren't needed.
-// For now, commenting out the body as it relies on the removed defineHelpersAndRunCoreLogic
-export async function attemptDismissPopups(tabId: number) {
-    console.log(`Quickly checking for optional popups/banners on tab ${tabId}... (Currently Disabled due to CSP refactor)`);
-    /*
-    const popupTargets = ["dismiss_popup_button"];
-    let dismissedSomething = false;
-
-    // --- Needs refactor to use direct function injection ---
-    // Example for find:
-    // const findArgs = [target, true, heuristicsMap]; 
-    // const findResults = await chrome.scripting.executeScript<{success: boolean, error?: string}, any[]>({...
-    //     func: findElementByHeuristics, // Assuming findElementByHeuristics is exported & self-contained
-    //     args: findArgs
-    // });
-    // Example for click:
-    // const clickArgs = ['click', target, true, null, heuristicsMap];
-    // const clickResults = await chrome.scripting.executeScript<{success: boolean, error?: string}, any[]>({...
-    //    func: actionCoreLogic, 
-    //    args: clickArgs
-    // });
-    // ... rest of logic ...
-    */
-}
-
-export async function waitForElement(tabId: number, step: PlanStep, timeout = 15000): Promise<void> {
-    const identifier = step.target || step.selector;
+// With a run's controller, a cancel during the wait fails it even if the element turns up afterwards
+export async function waitForElement(tabId: number, step: ElementLocator, timeout = 15000, control?: RunController): Promise<void> {
+    const identifier = step.target || step.selector || '';
     const isSemantic = !!step.target;
     console.log(`Waiting for ${isSemantic ? 'target' : 'selector'} "${identifier}" in tab ${tabId} (timeout: ${timeout}ms)...`);
     
     // Prepare selectors to try (from heuristics or direct selector)
     let selectors: string[] = [];
     if (isSemantic) {
-        selectors = heuristicsMap[identifier] || [];
+        selectors = (await getHeuristicsForTab(tabId))[identifier] || [];
     } else if (identifier) {
         selectors = [identifier];
     }
     if (selectors.length === 0) {
         throw new Error(`No selectors found for ${isSemantic ? 'target' : 'selector'}: ${identifier}`);
     }
+    const frame = await resolveStepFrame(tabId, step.frame);
 
     // Inject the self-contained waitForElementLogic function
     const results: chrome.scripting.InjectionResult<{ found: boolean; error?: string }>[] = 
@@ -66,10 +86,11 @@ export async function waitForElement(tabId: number, step: PlanStep, timeout = 15
         [string[], number], // Argument types
         Promise<{ found: boolean; error?: string }> // Return type FROM the function
     >({
-        target: { tabId, allFrames: false }, // Wait should happen in the main frame
+        target: injectionTarget(tabId, frame, false), // Wait in the step's frame, or the main frame
         func: waitForElementLogic, // Pass the function reference
         args: [selectors, timeout]
     });
+    control?.throwIfCancelled();
 
     // Check results (executeScript returns an array of InjectionResult)
     // We now await the promise returned by waitForElementLogic inside the result
@@ -88,13 +109,18 @@ export async function waitForElement(tabId: number, step: PlanStep, timeout = 15
     console.log(`${step.target ? 'Target' : 'Selector'} "${identifier}" found.`);
 }
 
-export async function handleNavigate(tabId: number, step: PlanStep) {
+export async function handleNavigate(tabId: number, step: NavigateStep) {
     if (!step.url || typeof step.url !== 'string') {
         throw new Error('Navigate step requires a valid string url.');
     }
     console.log(`Navigating tab ${tabId} to ${step.url}`);
     await chrome.tabs.update(tabId, { url: step.url });
-    await new Promise<void>(resolve => {
+    await waitForTabLoad(tabId);
+}
+
+// Resolves shortly after the tab reports that loading is complete, or after 10 s in any case
+function waitForTabLoad(tabId: number): Promise<void> {
+    return new Promise<void>(resolve => {
         const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
             if (updatedTabId === tabId && changeInfo.status === 'complete') {
                 chrome.tabs.onUpdated.removeListener(listener);
@@ -111,59 +137,141 @@ export async function handleNavigate(tabId: number, step: PlanStep) {
     });
 }
 
-export async function handleType(tabId: number, step: PlanStep) {
-    if (!step.selector && !step.target) {
-        throw new Error('Type step requires a valid target or selector.');
-    }
-    if (typeof step.text !== 'string') {
-        throw new Error('Type step requires a string value for text.');
+type ActionCoreResult = ReturnType<typeof actionCoreLogic>;
+
+// How long an action waits for its element to become actionable before the attempt fails
+const ACTIONABILITY_TIMEOUT_MS = 5000;
+// Actions that need the element to hold still and receive the pointer events at its centre ('locate' precedes a trusted click)
+const POINTER_ACTIONS = new Set(['click', 'hover', 'locate']);
+
+/**
+ * Waits until the element is actionable and returns the frame to act in. Every frame in scope is probed once; only
+ * the first frame with a visible, interactive match (else the first with any match) is waited on, so a hidden
+ * duplicate in another frame neither delays the action nor supplies the error. Returns null when no frame has the
+ * element, leaving actionCoreLogic to report that.
+ * @throws Error naming the condition that still failed at the timeout, e.g. the overlay that covers the element.
+ */
+async function waitForActionable(tabId: number, actionType: string, step: ElementLocator, frame: StepFrame | null, heuristics: HeuristicsMap, control?: RunController): Promise<number | null> {
+    const args = (timeout: number): [string, boolean, HeuristicsMap, boolean, number] =>
+        [step.target || step.selector || '', !!step.target, heuristics, POINTER_ACTIONS.has(actionType), timeout];
+    const probes = await chrome.scripting.executeScript({ target: injectionTarget(tabId, frame), func: actionabilityLogic, args: args(0) });
+    const chosen = probes.find(r => r.result?.usable) || probes.find(r => r.result?.found);
+    if (!chosen) return null;
+
+    control?.throwIfCancelled();
+    const [gate] = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [chosen.frameId] },
+        func: actionabilityLogic,
+        args: args(ACTIONABILITY_TIMEOUT_MS)
+    });
+    control?.throwIfCancelled();
+    if (gate?.result && !gate.result.ready && gate.result.failure) {
+        throw new Error(`Timed out after ${ACTIONABILITY_TIMEOUT_MS}ms waiting for ${describeLocator(step)} to be actionable: it is ${gate.result.failure}`);
     }
+    return chosen.frameId;
+}
 
-    const identifier = step.target || step.selector;
+// Runs actionCoreLogic in the step's frame (or every frame) and returns the first successful frame's result;
+// throws unless a frame reports success. Unless the step sets force, the element must pass the actionability gate first,
+// and the action then runs only in the frame the gate waited in. Nothing runs once the run's controller is cancelled.
+async function executeActionInFrames(tabId: number, actionType: string, step: ElementLocator & ActionabilityOptions, text: string | null | undefined, control?: RunController): Promise<{ frameId: number; result: ActionCoreResult }> {
+    const identifier = step.target || step.selector || '';
     const isSemantic = !!step.target;
+    const frame = await resolveStepFrame(tabId, step.frame);
+    const heuristics = isSemantic ? await getHeuristicsForTab(tabId) : {};
+    let target = injectionTarget(tabId, frame);
+    if (!step.force) {
+        const actionableFrameId = await waitForActionable(tabId, actionType, step, frame, heuristics, control);
+        if (actionableFrameId !== null) target = { tabId, frameIds: [actionableFrameId] };
+    }
+    control?.throwIfCancelled();
     // Ensure args match the function signature EXACTLY
     const argsForCoreLogic: [string, string, boolean, string | null | undefined, HeuristicsMap] = 
-        ['type', identifier, isSemantic, step.text, heuristicsMap];
+        [actionType, identifier, isSemantic, text, heuristics];
 
-    const results: chrome.scripting.InjectionResult<{ success: boolean; error?: string }>[] = 
+    const results: chrome.scripting.InjectionResult<ActionCoreResult>[] = 
       await chrome.scripting.executeScript<
         typeof argsForCoreLogic, // Use tuple type for args
-        { success: boolean; error?: string } // Return type
+        ActionCoreResult // Return type
     >({
-        target: { tabId, allFrames: true }, // Try in all frames
+        target,                          // The frame the gate waited in, the located frame, or all frames
         func: actionCoreLogic,           // Pass function reference
         args: argsForCoreLogic           // Pass data arguments
     });
 
     const successResult = results.find(r => r.result?.success);
-    if (!successResult) {
-        const errorResult = results.find(r => r.result?.error);
-        // Refine error message if possible
+    if (!successResult?.result) {
+        // Prefer a specific error over the generic per-frame "not found" ones
+        const errorResult = results.find(r => r.result?.error && !r.result.error.endsWith('in this frame')) 
+                         || results.find(r => r.result?.error);
         let errorMsg = 'Unknown script error or element not found';
-        if (errorResult?.result?.error) {
-            errorMsg = errorResult.result.error;
-        } else if (results.every(r => r.result?.error === 'Element not found in this frame')) {
-             errorMsg = 'Element not found in any frame';
+        const where = frame ? `in the selected frame (${frame.url})` : 'in any frame';
+        if (results.every(r => r.result?.error === 'Element not found in this frame')) {
+             errorMsg = `Element not found ${where}`;
         } else if (results.every(r => r.result?.error === 'Element found but not visible or interactive in this frame')) {
-             errorMsg = 'Element found but not visible or interactive in any frame';
+             errorMsg = `Element found but not visible or interactive ${where}`;
+        } else if (errorResult?.result?.error) {
+            errorMsg = errorResult.result.error;
         }
-        throw new Error(`Failed to execute type action: ${errorMsg}`);
+        throw new Error(`Failed to execute ${actionType} action: ${errorMsg}`);
+    }
+    console.log(`${actionType} action successful in frame ${successResult.frameId}.`);
+    return { frameId: successResult.frameId, result: successResult.result };
+}
+
+function toActionReport(frameId: number, result: ActionCoreResult): ActionReport {
+    return { frame: { frameId, url: result.frameUrl }, matchedSelector: result.matchedSelector };
+}
+
+async function runActionInFrames(tabId: number, actionType: string, step: ElementLocator & ActionabilityOptions, text: string | null | undefined, control?: RunController): Promise<ActionReport> {
+    const { frameId, result } = await executeActionInFrames(tabId, actionType, step, text, control);
+    return toActionReport(frameId, result);
+}
+
+// Trusted input: actionCoreLogic only locates the element (and focuses it for typing); the input itself is
+// dispatched through the debugger at the element's position
+async function runTrustedAction(tabId: number, step: ClickStep | TypeStep, control?: RunController): Promise<ActionReport> {
+    const { frameId, result } = await executeActionInFrames(tabId, step.action === 'type' ? 'select-text' : 'locate', step, null, control);
+    if (step.action === 'type') {
+        await trustedType(tabId, step.text, !!step.submit, control);
+    } else {
+        if (!result.point) throw new Error('Element position not reported for trusted click');
+        await trustedClick(tabId, await toTopLevelPoint(tabId, frameId, result.point), control);
+    }
+    return toActionReport(frameId, result);
+}
+
+// Clicks and types with the step's input driver (or the one from Settings). When trusted input cannot be used,
+// e.g. because DevTools is already attached to the tab, the synthetic events are used instead.
+async function runInputAction(tabId: number, step: ClickStep | TypeStep, text: string | null, control?: RunController): Promise<ActionReport> {
+    const driver = step.input ?? (await loadInputSettings()).driver;
+    if (driver === 'trusted') {
+        try {
+            return await runTrustedAction(tabId, step, control);
+        } catch (error) {
+            if (error instanceof RunCancelledError) throw error;
+            console.warn(`Trusted ${step.action} failed, falling back to synthetic events:`, error);
+        }
+    }
+    return runActionInFrames(tabId, step.action, step, text, control);
+}
+
+export async function handleType(tabId: number, step: TypeStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Type step requires a valid target or selector.');
     }
-    console.log(`Type action successful in at least one frame.`);
+    if (typeof step.text !== 'string') {
+        throw new Error('Type step requires a string value for text.');
+    }
+    return runInputAction(tabId, step, step.text, control);
 }
 
-export async function handleClick(tabId: number, step: PlanStep): Promise<number> {
+export async function handleClick(tabId: number, step: ClickStep, control?: RunController): Promise<ActionReport & { tabId: number }> {
      if (!step.selector && !step.target) {
         throw new Error('Click step requires a valid target or selector.');
     }
 
-    await waitForElement(tabId, step); // Keep wait before click
-
-    const identifier = step.target || step.selector;
-    const isSemantic = !!step.target;
-    // Ensure args match the function signature EXACTLY
-    const argsForCoreLogic: [string, string, boolean, string | null | undefined, HeuristicsMap] = 
-        ['click', identifier, isSemantic, null, heuristicsMap];
+    await waitForElement(tabId, step, undefined, control); // Keep wait before click
 
     let newTabId: number | null = null;
     const newTabListener = (newTab: chrome.tabs.Tab) => {
@@ -175,31 +283,9 @@ export async function handleClick(tabId: number, step: PlanStep): Promise<number
     chrome.tabs.onCreated.addListener(newTabListener);
 
     let scriptError: Error | null = null;
+    let report: ActionReport = {};
     try {
-        const results: chrome.scripting.InjectionResult<{ success: boolean; error?: string }>[] = 
-          await chrome.scripting.executeScript<
-             typeof argsForCoreLogic, // Use tuple type for args
-             { success: boolean; error?: string } // Return type
-        >({
-            target: { tabId, allFrames: true }, // Try in all frames
-            func: actionCoreLogic,           // Pass function reference
-            args: argsForCoreLogic           // Pass data arguments
-        });
-
-        const successResult = results.find(r => r.result?.success);
-        if (!successResult) {
-            const errorResult = results.find(r => r.result?.error);
-            // Refine error message
-             let errorMsg = 'Unknown script error or element not found';
-             if (errorResult?.result?.error) {
-                 errorMsg = errorResult.result.error;
-             } else if (results.every(r => r.result?.error === 'Element not found in this frame')) {
-                 errorMsg = 'Element not found in any frame';
-             } else if (results.every(r => r.result?.error === 'Element found but not visible or interactive in this frame')) {
-                 errorMsg = 'Element found but not visible or interactive in any frame';
-             }
-            scriptError = new Error(`Failed to execute click action: ${errorMsg}`);
-        }
+        report = await runInputAction(tabId, step, null, control);
     } catch (execError) {
         scriptError = execError instanceof Error ? execError : new Error(String(execError));
     } finally {
@@ -212,48 +298,61 @@ export async function handleClick(tabId: number, step: PlanStep): Promise<number
 
     if (newTabId !== null) {
         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait for tab to potentially load
-        // await attemptDismissPopups(newTabId); // Disabled
         console.log(`Switching active tab context to newly opened tab: ${newTabId}`);
-        return newTabId;
+        return { ...report, tabId: newTabId };
     }
 
     console.log(`Click action successful in at least one frame. No new tab detected or associated.`);
-    return tabId;
+    return { ...report, tabId };
 }
 
-export async function handleWait(tabId: number, step: PlanStep) {
+// `since` is when the previous step started; route_change waits accept URL changes from then on
+export async function handleWait(tabId: number, step: WaitStep, since: number = Date.now(), control?: RunController): Promise<ActionReport> {
     if (step.selector || step.target) {
          // Use a shorter timeout for optional waits, otherwise use specified or default
          const timeoutMs = step.optional ? 2000 : (step.timeout as number | undefined) || 10000;
          console.log(`Executing wait for ${step.target || step.selector} (Optional: ${!!step.optional}, Timeout: ${timeoutMs}ms)`);
-         await waitForElement(tabId, step, timeoutMs);
+         await waitForElement(tabId, step, timeoutMs, control);
+         const frame = await resolveStepFrame(tabId, step.frame);
+         return frame ? { frame } : {};
+    } else if (step.until) {
+         const timeoutMs = step.optional ? 2000 : step.timeout || 10000;
+         const idleMs = step.idleMs ?? (await loadWaitSettings()).idleMs;
+         console.log(`Executing wait for ${describeWaitCondition(step)} (Optional: ${!!step.optional}, Timeout: ${timeoutMs}ms)`);
+         if (!(await waitForPageCondition(tabId, step, { timeout: timeoutMs, idleMs, since }))) {
+             throw new Error(`Timed out after ${timeoutMs}ms waiting for ${describeWaitCondition(step)}`);
+         }
+         return {};
     } else if (step.duration && typeof step.duration === 'number') {
         console.warn(`Performing fixed duration wait (${step.duration}ms) - prefer selector/target-based waits.`);
         await new Promise(resolve => setTimeout(resolve, step.duration));
+        return {};
     } else {
-        throw new Error('Wait step requires a valid target, selector, or a numeric duration.');
+        throw new Error('Wait step requires a valid target, selector, page condition (until) or a numeric duration.');
     }
 }
 
-export async function handleScroll(tabId: number, step: PlanStep) {
+export async function handleScroll(tabId: number, step: ScrollStep): Promise<ActionReport> {
     console.log(`Executing scroll step:`, step);
+    const frame = await resolveStepFrame(tabId, step.frame);
 
     // Ensure args match the function signature EXACTLY
-    const argsForCoreLogic: [any, HeuristicsMap] = [step, heuristicsMap];
+    const argsForCoreLogic: [any, HeuristicsMap] = [step, await getHeuristicsForTab(tabId)];
 
     const results: chrome.scripting.InjectionResult<{ success: boolean; error?: string }>[] = 
       await chrome.scripting.executeScript<
         typeof argsForCoreLogic, // Use tuple type for args
         { success: boolean; error?: string } // Return type
     >({
-        target: { tabId, allFrames: true }, // Try scroll in all frames
+        target: injectionTarget(tabId, frame), // The located frame, or try scroll in all frames
         func: scrollCoreLogic,            // Pass function reference
         args: argsForCoreLogic            // Pass data arguments
     });
 
     // Scroll is allowed to fail in some frames if element not present
     // Check if *any* frame succeeded OR if all frames reported "not found" (which we treat as ok for scroll)
-    const success = results.some(r => r.result?.success);
+    const successResult = results.find(r => r.result?.success);
+    const success = !!successResult;
     
     if (!success) {
         // If no frame reported success, check for specific errors
@@ -266,9 +365,10 @@ export async function handleScroll(tabId: number, step: PlanStep) {
     }
     
     console.log("Scroll action completed (or target not found in specific frames).");
+    return successResult ? { frame: { frameId: successResult.frameId } } : {};
 }
 
-export async function handleExtract(tabId: number, step: PlanStep) {
+export async function handleExtract(tabId: number, step: ExtractStep, control?: RunController): Promise<ActionReport & { data: string | null | (string | null)[] | undefined }> {
     console.log(`Executing extract step:`, step);
     const identifier = step.target || step.selector;
     if (!identifier) {
@@ -277,18 +377,19 @@ export async function handleExtract(tabId: number, step: PlanStep) {
     const isSemantic = !!step.target;
     const attribute = step.attribute as string | undefined;
 
-    await waitForElement(tabId, step); // Wait for element first
+    await waitForElement(tabId, step, undefined, control); // Wait for element first
+    const frame = await resolveStepFrame(tabId, step.frame);
 
     // Ensure args match the function signature EXACTLY
-    const argsForCoreLogic: [string, boolean, string | null | undefined, HeuristicsMap] = 
-        [identifier, isSemantic, attribute, heuristicsMap];
+    const argsForCoreLogic: [string, boolean, string | null | undefined, HeuristicsMap, boolean] = 
+        [identifier, isSemantic, attribute, isSemantic ? await getHeuristicsForTab(tabId) : {}, !!step.all];
 
-    const results: chrome.scripting.InjectionResult<{ success: boolean; data?: string | null; error?: string }>[] = 
+    const results: chrome.scripting.InjectionResult<ReturnType<typeof extractCoreLogic>>[] = 
       await chrome.scripting.executeScript<
         typeof argsForCoreLogic, // Use tuple type for args
-        { success: boolean; data?: string | null; error?: string } // Return type
+        ReturnType<typeof extractCoreLogic> // Return type
     >({
-        target: { tabId, allFrames: true }, // Try extract in all frames
+        target: injectionTarget(tabId, frame), // The located frame, or try extract in all frames
         func: extractCoreLogic,          // Pass function reference
         args: argsForCoreLogic           // Pass data arguments
     });
@@ -297,41 +398,361 @@ export async function handleExtract(tabId: number, step: PlanStep) {
     if (successResult && successResult.result) {
         const extractedValue = successResult.result.data;
         console.log(`Extraction successful. Value:`, extractedValue);
-        return extractedValue;
+        return {
+            data: extractedValue,
+            frame: { frameId: successResult.frameId, url: successResult.result.frameUrl },
+            matchedSelector: successResult.result.matchedSelector
+        };
     } else {
         const errorResult = results.find(r => r.result?.error && r.result.error !== 'Element not found in this frame');
-        const errorMessage = errorResult?.result?.error || 'Element not found in any frame or extraction failed';
+        const where = frame ? `in the selected frame (${frame.url})` : 'in any frame';
+        const errorMessage = errorResult?.result?.error || `Element not found ${where} or extraction failed`;
         throw new Error(`Extraction failed: ${errorMessage}`);
     }
 }
 
-export async function handleGoBack(tabId: number, step: PlanStep) {
-    console.log(`Executing go_back step for tab ${tabId}`);
-    await chrome.tabs.goBack(tabId);
-    // Optional: Add a small delay or wait for tab update if needed
-    await new Promise(resolve => setTimeout(resolve, 500)); 
+export async function handleSelect(tabId: number, step: SelectStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Select step requires a valid target or selector.');
+    }
+    // 'value' matches an option's value or its visible label; 'label' is accepted as an explicit alias
+    const optionToSelect = step.value ?? step.label;
+    if (typeof optionToSelect !== 'string' && typeof optionToSelect !== 'number') {
+        throw new Error('Select step requires a value or label for the option to choose.');
+    }
+    await waitForElement(tabId, step, undefined, control);
+    return runActionInFrames(tabId, 'select', step, String(optionToSelect), control);
 }
 
-export async function handleGoForward(tabId: number, step: PlanStep) {
-    console.log(`Executing go_forward step for tab ${tabId}`);
-    await chrome.tabs.goForward(tabId);
-    // Optional: Add a small delay or wait for tab update if needed
-    await new Promise(resolve => setTimeout(resolve, 500)); 
+export async function handleHover(tabId: number, step: HoverStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Hover step requires a valid target or selector.');
+    }
+    await waitForElement(tabId, step, undefined, control);
+    const report = await runActionInFrames(tabId, 'hover', step, null, control);
+    // Give hover-triggered menus/tooltips a moment to render before the next step
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return report;
 }
 
-export async function handleRefresh(tabId: number, step: PlanStep) {
-    console.log(`Executing refresh step for tab ${tabId}`);
-    await chrome.tabs.reload(tabId);
-    // Optional: Add a small delay or wait for tab update if needed
-    await new Promise(resolve => setTimeout(resolve, 500)); 
+export async function handleClear(tabId: number, step: ClearStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Clear step requires a valid target or selector.');
+    }
+    await waitForElement(tabId, step, undefined, control);
+    return runActionInFrames(tabId, 'clear', step, null, control);
 }
 
-export async function handleScreenshot(tabId: number, step: PlanStep) {
-    const filename = step.filename || `screenshot-${Date.now()}.png`;
-    console.log(`Executing screenshot step for tab ${tabId}. Filename: ${filename}`);
-    // TODO: Implement actual screenshot capture using chrome.tabs.captureVisibleTab
-    // For now, just log a message.
-    console.warn(`Screenshot functionality not fully implemented yet. Would save as ${filename}`);
+export async function handlePress(tabId: number, step: PressStep, control?: RunController): Promise<ActionReport> {
+    const platform = await chrome.runtime.getPlatformInfo();
+    const chord = parseKeyChord(step.keys, platform.os === 'mac');
+    const repeat = step.repeat ?? 1;
+
+    // With a locator the element is focused first and receives the keys; otherwise they go to the current focus
+    let focused: { frameId: number; result: ActionCoreResult } | null = null;
+    if (step.selector || step.target) {
+        await waitForElement(tabId, step, undefined, control);
+        focused = await executeActionInFrames(tabId, 'focus', step, null, control);
+    }
+    const report = focused ? toActionReport(focused.frameId, focused.result) : {};
+
+    const driver = step.input ?? (await loadInputSettings()).driver;
+    if (driver === 'trusted') {
+        try {
+            await trustedPress(tabId, chord, repeat, control);
+            return report;
+        } catch (error) {
+            if (error instanceof RunCancelledError) throw error;
+            console.warn('Trusted key press failed, falling back to synthetic events:', error);
+        }
+    }
+
+    control?.throwIfCancelled();
+    const results = await chrome.scripting.executeScript({
+        target: focused ? { tabId, frameIds: [focused.frameId] } : { tabId, allFrames: true },
+        func: pressKeyLogic,
+        args: [chord, repeat, !!focused]
+    });
+    const dispatched = results.find(r => r.result?.dispatched);
+    if (!dispatched) {
+        const error = results.find(r => r.result?.error)?.result?.error;
+        throw new Error(`Failed to press ${step.keys}: ${error || 'no frame accepted the key press'}`);
+    }
+    console.log(`Pressed ${step.keys}${repeat > 1 ? ` x${repeat}` : ''} in frame ${dispatched.frameId}.`);
+    return focused ? report : { frame: { frameId: dispatched.frameId, url: dispatched.result?.frameUrl } };
+}
+
+export async function handleUpload(tabId: number, step: UploadStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Upload step requires a valid target or selector.');
+    }
+    if (!Array.isArray(step.files) || step.files.length === 0) {
+        throw new Error('Upload step requires at least one file name.');
+    }
+    const files: UploadFile[] = findLibraryFiles(await loadFileLibrary(), step.files)
+        .map(({ name, type, dataUrl, lastModified }) => ({ name, type, dataUrl, lastModified }));
+
+    await waitForElement(tabId, step, undefined, control);
+    const identifier = step.target || step.selector || '';
+    const isSemantic = !!step.target;
+    const frame = await resolveStepFrame(tabId, step.frame);
+    control?.throwIfCancelled();
+    const results = await chrome.scripting.executeScript({
+        target: injectionTarget(tabId, frame),
+        func: uploadFilesLogic,
+        args: [identifier, isSemantic, isSemantic ? await getHeuristicsForTab(tabId) : {}, files]
+    });
+
+    const successResult = results.find(r => r.result?.success);
+    if (!successResult?.result) {
+        const errorResult = results.find(r => r.result?.error && r.result.error !== 'Element not found in this frame');
+        const where = frame ? `in the selected frame (${frame.url})` : 'in any frame';
+        throw new Error(`Upload failed: ${errorResult?.result?.error || `Element not found ${where}`}`);
+    }
+    console.log(`Uploaded ${files.map(file => file.name).join(', ')} via ${successResult.result.mode} in frame ${successResult.frameId}.`);
+    return {
+        frame: { frameId: successResult.frameId, url: successResult.result.frameUrl },
+        matchedSelector: successResult.result.matchedSelector
+    };
+}
+
+// Trusted drag: locates both ends, then drags with real mouse input between their top-level positions
+async function runTrustedDrag(tabId: number, step: DragStep, to: ElementLocator | undefined, control?: RunController): Promise<ActionReport> {
+    const locateSource = () => executeActionInFrames(tabId, 'locate', step, null, control);
+    let source = await locateSource();
+    let end: ViewportPoint | null = null;
+    if (to) {
+        const destination = await executeActionInFrames(tabId, 'locate', { ...to, frame: step.frame }, null, control);
+        if (!destination.result.point) throw new Error('Drag destination position not reported');
+        end = await toTopLevelPoint(tabId, destination.frameId, destination.result.point);
+        // Bringing the destination into view may have scrolled the source
+        source = await locateSource();
+    }
+    if (!source.result.point) throw new Error('Element position not reported for trusted drag');
+    const start = await toTopLevelPoint(tabId, source.frameId, source.result.point);
+    await trustedDrag(tabId, start, end || { x: start.x + (step.offset?.x || 0), y: start.y + (step.offset?.y || 0) }, control);
+    return toActionReport(source.frameId, source.result);
+}
+
+export async function handleDrag(tabId: number, step: DragStep, control?: RunController): Promise<ActionReport> {
+    if (!step.selector && !step.target) {
+        throw new Error('Drag step requires a valid source target or selector.');
+    }
+    const to: ElementLocator | undefined = step.to?.ref ? { selector: refSelector(step.to.ref) } : step.to;
+    if (!to?.target && !to?.selector && !step.offset) {
+        throw new Error('Drag step requires a destination ("to") or an "offset".');
+    }
+    await waitForElement(tabId, step, undefined, control);
+
+    const driver = step.input ?? (await loadInputSettings()).driver;
+    if (driver === 'trusted') {
+        try {
+            return await runTrustedDrag(tabId, step, to, control);
+        } catch (error) {
+            if (error instanceof RunCancelledError) throw error;
+            console.warn('Trusted drag failed, falling back to synthetic events:', error);
+        }
+    }
+
+    const frame = await resolveStepFrame(tabId, step.frame);
+    const heuristics = step.target || to?.target ? await getHeuristicsForTab(tabId) : {};
+    control?.throwIfCancelled();
+    const results = await chrome.scripting.executeScript({
+        target: injectionTarget(tabId, frame),
+        func: dragLogic,
+        args: [
+            step.target || step.selector || '', !!step.target,
+            to ? to.target || to.selector || null : null, !!to?.target,
+            to ? null : step.offset || null,
+            heuristics
+        ]
+    });
+
+    const successResult = results.find(r => r.result?.success);
+    if (!successResult?.result) {
+        const errorResult = results.find(r => r.result?.error && r.result.error !== 'Element not found in this frame');
+        const where = frame ? `in the selected frame (${frame.url})` : 'in any frame';
+        throw new Error(`Drag failed: ${errorResult?.result?.error || `Element not found ${where}`}`);
+    }
+    console.log(`Drag completed in frame ${successResult.frameId}.`);
+    return {
+        frame: { frameId: successResult.frameId, url: successResult.result.frameUrl },
+        matchedSelector: successResult.result.matchedSelector
+    };
+}
+
+// History navigations and reloads wait for the navigation they start, like navigate steps; after 10 s the step proceeds anyway
+async function runHistoryNavigation(tabId: number, label: string, navigate: () => Promise<void>) {
+    console.log(`Executing ${label} step for tab ${tabId}`);
+    const since = Date.now();
+    await navigate();
+    if (!(await waitForNavigation(tabId, since, 10000))) {
+        console.warn(`${label} in tab ${tabId} did not finish navigating within 10 s, proceeding anyway.`);
+    }
+}
+
+export async function handleGoBack(tabId: number, step: GoBackStep) {
+    await runHistoryNavigation(tabId, 'go_back', () => chrome.tabs.goBack(tabId));
+}
+
+export async function handleGoForward(tabId: number, step: GoForwardStep) {
+    await runHistoryNavigation(tabId, 'go_forward', () => chrome.tabs.goForward(tabId));
+}
+
+export async function handleRefresh(tabId: number, step: RefreshStep) {
+    await runHistoryNavigation(tabId, 'refresh', () => chrome.tabs.reload(tabId));
+}
+
+// --- Assertions ---
+
+/**
+ * Checks an assert step against the page or the run variables.
+ * @throws AssertionFailedError when the check does not hold.
+ */
+export async function handleAssert(tabId: number, step: AssertStep, variables: RunVariables): Promise<ActionReport & { assertion: AssertionOutcome }> {
+    let assertion: AssertionOutcome;
+    let report: ActionReport = {};
+    if (step.check === 'url_matches') {
+        assertion = assertUrl(step, await getTabUrl(tabId));
+    } else if (step.check === 'variable_equals' || step.check === 'variable_contains') {
+        assertion = assertVariable(step, variables);
+    } else {
+        const probes = await probeElements(tabId, step, step.text ?? null, step.attribute ?? null);
+        const matched = probes.find(probe => probe.count > 0);
+        if (matched) report = { frame: { frameId: matched.frameId, url: matched.frameUrl }, matchedSelector: matched.matchedSelector };
+        assertion = step.check === 'element_count'
+            ? assertCount(step, probes.reduce((total, probe) => total + probe.count, 0))
+            : step.check === 'attribute_equals'
+                ? assertAttribute(step, matched?.attributeValue, !!matched)
+                : assertText(step, probes.some(probe => probe.textFound));
+    }
+    console.log(`Assertion ${assertion.passed ? 'passed' : 'failed'}: expected ${assertion.expected}; ${assertion.actual}.`);
+    if (!assertion.passed) throw new AssertionFailedError(assertion, step.message);
+    return { ...report, assertion };
+}
+
+// Runs assertionProbeLogic in the locator's frame (or every frame) and returns each frame's findings;
+// without a target or selector it only looks for the text
+async function probeElements(tabId: number, locator: ElementLocator, text: string | null, attribute: string | null) {
+    const identifier = locator.target || locator.selector || null;
+    const isSemantic = !!locator.target;
+    const frame = await resolveStepFrame(tabId, locator.frame);
+    const results = await chrome.scripting.executeScript({
+        target: injectionTarget(tabId, frame),
+        func: assertionProbeLogic,
+        args: [identifier, isSemantic, text, attribute, isSemantic ? await getHeuristicsForTab(tabId) : {}]
+    });
+    return results.filter(r => r.result).map(r => ({ frameId: r.frameId, ...r.result! }));
+}
+
+// --- Tabs ---
+// Tab steps return the tab later steps act on; the registry keeps the names steps refer to tabs by
+
+export async function handleOpenTab(tabId: number, step: OpenTabStep, tabs: TabRegistry): Promise<{ tabId: number }> {
+    if (step.name && tabs.findByName(step.name)) {
+        throw new Error(`A tab named "${step.name}" is already open in this run.`);
+    }
+    const opener = await chrome.tabs.get(tabId).catch(() => undefined);
+    const created = await chrome.tabs.create({
+        url: step.url,
+        active: !step.background,
+        windowId: opener?.windowId,
+        openerTabId: opener?.id
+    });
+    if (created.id === undefined) throw new Error('Chrome did not return the new tab.');
+    const entry = tabs.track(created.id, { name: step.name, created: true });
+    console.log(`Opened tab ${created.id} as "${entry.name}"${step.url ? ` for ${step.url}` : ''}.`);
+    if (step.url) await waitForTabLoad(created.id);
+    return { tabId: step.background ? tabId : created.id };
+}
+
+export async function handleSwitchTab(tabId: number, step: SwitchTabStep, tabs: TabRegistry): Promise<{ tabId: number }> {
+    // Registry names may refer to a tab in another window; the other criteria look at the current tab's window
+    const named = step.name !== undefined ? tabs.findByName(step.name) : undefined;
+    const windowId = named
+        ? (await chrome.tabs.get(named.tabId).catch(() => undefined))?.windowId
+        : (await chrome.tabs.get(tabId)).windowId;
+    if (named && windowId === undefined) {
+        tabs.remove(named.tabId);
+        throw new Error(`Tab "${named.name}" has been closed.`);
+    }
+    const windowTabs = await chrome.tabs.query({ windowId });
+    const match = findSwitchTarget(step, windowTabs, tabs);
+    if (match?.id === undefined) {
+        const known = tabs.list().map(tab => tab.name).join(', ');
+        throw new Error(`No ${describeSwitchTarget(step)} is open (tabs in this run: ${known}).`);
+    }
+    const entry = tabs.track(match.id);
+    await chrome.tabs.update(match.id, { active: true });
+    console.log(`Switched to tab ${match.id} ("${entry.name}", ${match.url}).`);
+    return { tabId: match.id };
+}
+
+export async function handleCloseTab(tabId: number, step: CloseTabStep, tabs: TabRegistry): Promise<{ tabId: number }> {
+    const entry = step.name !== undefined ? tabs.findByName(step.name) : tabs.describe(tabId);
+    if (!entry) {
+        throw new Error(`No tab named "${step.name}" in this run (tabs: ${tabs.list().map(tab => tab.name).join(', ')}).`);
+    }
+    if (entry.tabId !== tabId) {
+        await chrome.tabs.remove(entry.tabId).catch(error => console.warn(`Tab ${entry.tabId} was already closed:`, error));
+        tabs.remove(entry.tabId);
+        return { tabId };
+    }
+    // Closing the current tab: continue in the most recently used other tab that is still open
+    let next: number | undefined;
+    for (const candidate of tabs.list().reverse()) {
+        if (candidate.tabId === tabId) continue;
+        if (await chrome.tabs.get(candidate.tabId).then(() => true, () => false)) {
+            next = candidate.tabId;
+            break;
+        }
+        tabs.remove(candidate.tabId);
+    }
+    if (next === undefined) throw new Error('Cannot close the only tab of the run; open or switch to another tab first.');
+    await chrome.tabs.remove(tabId);
+    tabs.remove(tabId);
+    await chrome.tabs.update(next, { active: true });
+    console.log(`Closed tab ${tabId} ("${entry.name}"), continuing in tab ${next}.`);
+    return { tabId: next };
+}
+
+/**
+ * Closes the tabs the run opened that are still open, if enabled in Settings.
+ * The tab the run started in was not created by it and stays open.
+ */
+async function closeCreatedTabs(tabs: TabRegistry) {
+    const tabIds = tabs.createdTabIds();
+    if (tabIds.length === 0) return;
+    try {
+        if (!(await loadTabSettings()).closeCreatedTabs) return;
+        const open = (await Promise.all(tabIds.map(id => chrome.tabs.get(id).then(() => id, () => undefined))))
+            .filter((id): id is number => id !== undefined);
+        if (open.length > 0) await chrome.tabs.remove(open);
+        console.log(`Closed ${open.length} tab(s) opened by the run.`);
+    } catch (error) {
+        console.warn('Could not close the tabs opened by the run:', error);
+    }
+}
+
+export async function handleScreenshot(tabId: number, step: ScreenshotStep): Promise<ScreenshotCapture> {
+    let filename: string = step.filename || `screenshot-${Date.now()}.png`;
+    if (!/\.png$/i.test(filename)) filename += '.png';
+    const fullPage = !!step.fullPage;
+    console.log(`Executing screenshot step for tab ${tabId}. Filename: ${filename}, full page: ${fullPage}`);
+
+    // captureVisibleTab can only see the active tab of a window
+    const tab = await chrome.tabs.get(tabId);
+    if (!tab.active) {
+        await chrome.tabs.update(tabId, { active: true });
+        await new Promise(resolve => setTimeout(resolve, 300));
+    }
+
+    const dataUrl = fullPage ? await captureFullPageScreenshot(tabId) : await captureScreenshot(tabId);
+    if (!dataUrl) {
+        throw new Error('Screenshot capture returned no image (is the tab visible?).');
+    }
+    console.log(`Screenshot captured (${Math.round(dataUrl.length / 1024)} KB data URL).`);
+    return { filename, dataUrl, fullPage, url: tab.url, capturedAt: Date.now() };
 }
 
 // --- Main Plan Executor ---
@@ -340,198 +761,739 @@ export async function handleScreenshot(tabId: number, step: PlanStep) {
 function generateStepDescription(step: PlanStep): string {
     switch (step.action) {
         case 'navigate': return `Navigate to ${step.url}`;
-        case 'type': return `Type "${step.text?.substring(0, 20)}${step.text?.length > 20 ? '...' : ''}" into ${step.target || step.selector}` + (step.submit ? ' and submit' : '');
-        case 'click': return `Click on ${step.target || step.selector}`;
-        case 'wait': return `Wait for ${step.target || step.selector || (step.duration + 'ms')}`;
-        case 'scroll': return `Scroll ${step.direction || 'element into view'} ${step.target || step.selector || 'page'}`;
-        case 'extract': return `Extract ${step.attribute || 'text'} from ${step.target || step.selector}`;
+        case 'type': return `Type "${step.text?.substring(0, 20)}${step.text?.length > 20 ? '...' : ''}" into ${describeLocator(step)}` + (step.submit ? ' and submit' : '');
+        case 'click': return `Click on ${describeLocator(step)}`;
+        case 'wait': return `Wait for ${describeLocator(step) || (step.until ? describeWaitCondition(step) : step.duration + 'ms')}`;
+        case 'scroll': return `Scroll ${step.direction || 'element into view'} ${describeLocator(step) || 'page'}`;
+        case 'extract': return `Extract ${step.attribute || 'text'} from ${step.all ? 'every ' : ''}${describeLocator(step)}` + (step.as ? ` as {{${step.as}}}` : '');
         case 'go_back': return `Navigate back`;
         case 'go_forward': return `Navigate forward`;
         case 'refresh': return `Refresh page`;
-        case 'screenshot': return `Take screenshot${step.filename ? ' (' + step.filename + ')' : ''}`;
-        // Add cases for select, hover, clear if implemented
+        case 'screenshot': return `Take ${step.fullPage ? 'full page ' : ''}screenshot${step.filename ? ' (' + step.filename + ')' : ''}`;
+        case 'select': return `Select "${step.value ?? step.label}" in ${describeLocator(step)}`;
+        case 'hover': return `Hover over ${describeLocator(step)}`;
+        case 'clear': return `Clear ${describeLocator(step)}`;
+        case 'upload': return `Upload ${(step.files || []).join(', ')} to ${describeLocator(step)}`;
+        case 'drag': return `Drag ${describeLocator(step)} ` + (step.to ? `to ${describeLocator(step.to)}` : `by (${step.offset?.x}, ${step.offset?.y})`);
+        case 'press': return `Press ${step.keys}${step.repeat && step.repeat > 1 ? ` ${step.repeat} times` : ''}` + (describeLocator(step) ? ` in ${describeLocator(step)}` : '');
+        case 'open_tab': return `Open ${step.background ? 'background ' : ''}tab${step.name ? ` "${step.name}"` : ''}${step.url ? ` at ${step.url}` : ''}`;
+        case 'switch_tab': return `Switch to ${describeSwitchTarget(step)}`;
+        case 'close_tab': return `Close ${step.name ? `tab "${step.name}"` : 'current tab'}`;
+        case 'assert': return `Assert ${describeAssertion(step)}`;
+        case 'if': return `If ${describeCondition(step.condition)}`;
+        case 'repeat_until': return `Repeat until ${describeCondition(step.condition)} (at most ${step.maxIterations ?? DEFAULT_MAX_ITERATIONS} times)`;
+        case 'for_each': return `For each ${step.items !== undefined ? `entry of {{${step.items}}}` : describeLocator(step)} as {{${step.as || DEFAULT_ITEM_NAME}}}`;
         default: return `Perform action: ${(step as any).action}`;
     }
 }
 
+// Outcome of one attempt at a step
+interface ActionOutcome extends ActionReport {
+    tabId: number;
+    data?: any;
+    screenshot?: ScreenshotCapture;
+    assertion?: AssertionOutcome;
+}
+
 // --- Helper function to execute a single step (original or fallback) ---
-async function executeSingleAction(step: PlanStep, tabId: number): Promise<{ tabId: number; data?: any }> {
+// The run's controller is passed to the element actions so a cancel stops them before they touch the page
+async function executeSingleAction(planStep: PlanStep, tabId: number, tabs: TabRegistry, variables: RunVariables, previousStepStartedAt: number, control: RunController): Promise<ActionOutcome> {
+    // Snapshot refs become [data-bai-ref] selectors, found in any frame or shadow root like other selectors
+    const step = resolveStepRef(planStep);
     let currentTabId = tabId;
     let extractedData: any = undefined;
-    // TODO: Consider how to handle extracted data from fallbacks if needed
+    let screenshot: ScreenshotCapture | undefined = undefined;
+    let assertion: AssertionOutcome | undefined = undefined;
+    let report: ActionReport = {};
 
-    console.log(`Attempting action: ${step.action} for target/selector: ${step.target || step.selector || step.url || step.duration || 'N/A'}`);
+    console.log(`Attempting action: ${step.action} for target/selector: ${describeStepSubject(step) || 'N/A'}`);
 
     switch (step.action) {
         case 'navigate': await handleNavigate(currentTabId, step); break;
-        case 'type': await handleType(currentTabId, step); break;
-        case 'click': currentTabId = await handleClick(currentTabId, step); break; // Updates activeTabId
-        case 'wait': await handleWait(currentTabId, step); break;
-        case 'scroll': await handleScroll(currentTabId, step); break;
+        case 'type': report = await handleType(currentTabId, step, control); break;
+        case 'click':
+             ({ tabId: currentTabId, ...report } = await handleClick(currentTabId, step, control)); // Updates activeTabId
+             if (currentTabId !== tabId) tabs.track(currentTabId, { created: true });
+             break;
+        case 'wait': report = await handleWait(currentTabId, step, previousStepStartedAt, control); break;
+        case 'scroll': report = await handleScroll(currentTabId, step); break;
         case 'extract': 
-             extractedData = await handleExtract(currentTabId, step); // Assuming handleExtract returns data
+             ({ data: extractedData, ...report } = await handleExtract(currentTabId, step, control));
              break; 
         case 'go_back': await handleGoBack(currentTabId, step); break;
         case 'go_forward': await handleGoForward(currentTabId, step); break;
         case 'refresh': await handleRefresh(currentTabId, step); break;
-        case 'screenshot': await handleScreenshot(currentTabId, step); break;
+        case 'screenshot': screenshot = await handleScreenshot(currentTabId, step); break;
+        case 'select': report = await handleSelect(currentTabId, step, control); break;
+        case 'hover': report = await handleHover(currentTabId, step, control); break;
+        case 'clear': report = await handleClear(currentTabId, step, control); break;
+        case 'press': report = await handlePress(currentTabId, step, control); break;
+        case 'upload': report = await handleUpload(currentTabId, step, control); break;
+        case 'drag': report = await handleDrag(currentTabId, step, control); break;
+        case 'open_tab': ({ tabId: currentTabId } = await handleOpenTab(currentTabId, step, tabs)); break;
+        case 'switch_tab': ({ tabId: currentTabId } = await handleSwitchTab(currentTabId, step, tabs)); break;
+        case 'close_tab': ({ tabId: currentTabId } = await handleCloseTab(currentTabId, step, tabs)); break;
+        case 'assert': ({ assertion, ...report } = await handleAssert(currentTabId, step, variables)); break;
         default: console.warn(`Unsupported action type in fallback execution: ${(step as any).action}`);
-                 throw new Error(`Unsupported fallback action: ${step.action}`);
+                 throw new Error(`Unsupported fallback action: ${(step as any).action}`);
     }
-    return { tabId: currentTabId, data: extractedData };
+    return { ...report, tabId: currentTabId, data: extractedData, screenshot, assertion };
 }
 
-export async function executePlanSteps(currentTabId: number, plan: ExecutionPlan, requestId: string) {
-    console.log(`Starting execution for tab ${currentTabId}, plan:`, plan, `ReqID: ${requestId}`);
-    let activeTabId = currentTabId;
-
-    // 1. Format plan for display (add id, description)
-    const formattedPlan: FormattedStep[] = plan.steps.map((step, index) => ({
-        ...step, // Keep original step properties
-        id: index, // Use index as unique ID for this execution
-        description: generateStepDescription(step)
-    }));
-    console.log("Formatted plan:", formattedPlan);
+// Stores an extract step's value on its result and, when named with 'as', in the run variables
+function recordExtraction(step: FormattedStep, data: unknown, result: StepResult, variables: RunVariables) {
+    if (step.action !== 'extract') return;
+    const name = typeof step.as === 'string' && step.as ? step.as : `step_${step.id + 1}`;
+    result.extracted = { name, value: data ?? null };
+    if (step.as) {
+        variables[step.as] = data ?? null;
+        console.log(`Stored extracted value in variable {{${step.as}}}:`, data);
+    }
+}
 
-    // 2. Send formatted plan back to panel
-    console.log("[Executor] Sending planReceived message...");
-    chrome.runtime.sendMessage({ 
-        type: "planReceived", 
-        requestId: requestId, 
-        formattedPlan: formattedPlan 
+// Appends a step's final outcome to the run record kept for the History view
+export async function recordStepHistory(record: RunRecord, step: FormattedStep, startedAt: number, result: StepResult, tabId: number) {
+    const tabUrl = await chrome.tabs.get(tabId).then(tab => tab.url, () => undefined);
+    record.steps.push({
+        stepId: step.id,
+        description: step.description,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        tabUrl,
+        result: { ...result }
     });
+}
 
-    let overallSuccess = true;
-    let finalErrorMessage: string | undefined = undefined;
-    let stepResultPayload: StepResult = { success: false }; // Initialize StepResult payload
+export async function storeRunRecord(record: RunRecord) {
+    try {
+        await saveRunRecord(record);
+    } catch (error) {
+        console.error('Failed to save run history:', error);
+    }
+}
 
-    // 3. Execute steps sequentially
-    for (const step of formattedPlan) {
-        console.log(`Executing step ${step.id + 1}/${formattedPlan.length} on tab ${activeTabId}:`, step);
-        const attempts = step.retryCount ?? MAX_STEP_RETRIES;
-        const delayMs = step.retryDelayMs ?? RETRY_DELAY_MS;
+/**
+ * Adds ids and descriptions to steps, numbering nested steps depth first from `firstId` (see numberSteps).
+ */
+export function formatSteps(steps: PlanStep[], firstId = 0): FormattedStep[] {
+    return numberSteps(steps, (step, id): FormattedStep => ({ ...step, id, description: generateStepDescription(step) }), firstId);
+}
+
+export function formatStep(step: PlanStep, id: number): FormattedStep {
+    return formatSteps([step], id)[0];
+}
 
-        stepResultPayload = { success: false }; // Reset for current step
-        let attemptFallback = false;
+// --- Learned selectors ---
 
-        try {
-            // --- Initial Attempt with Retry --- 
-            const initialResult = await withRetry(
-                () => executeSingleAction(step, activeTabId),
-                attempts,
-                delayMs,
-                !!step.optional, // Pass the optional status
-                async (err) => troubleshootWithLLM(step, err, activeTabId, requestId) 
-            );
-            activeTabId = initialResult.tabId; // Update activeTabId if changed
-            stepResultPayload.success = true;
-            console.log(`Step ${step.id + 1} completed successfully on initial try (with retry).`);
+// Learned selectors for a semantic target on the tab's site, in the order the injectables try them
+async function findLearnedSelectors(tabId: number, target: string | undefined): Promise<{ site: string | null; selectors: string[] }> {
+    const site = target ? await getSiteForTab(tabId) : null;
+    if (!site || !target) return { site, selectors: [] };
+    try {
+        return { site, selectors: getLearnedSelectors(await loadSelectorMemory(), site, target).map(entry => entry.selector) };
+    } catch (error) {
+        console.warn('Could not load learned selectors:', error);
+        return { site, selectors: [] };
+    }
+}
 
-        } catch (error) {
-            // --- Handle Failures --- 
-            const originalError = error instanceof FallbackError ? error.originalError : error;
-            const originalErrorMessage = originalError instanceof Error ? originalError.message : String(originalError);
-            
-            // 1) Send initial failure message BEFORE attempting fallbacks
-            console.log(`[Executor] Sending initial failure message for step ${step.id}...`);
-            stepResultPayload = { success: false, error: originalErrorMessage }; // Base payload for initial failure
-            chrome.runtime.sendMessage({
-                type: "planStepResult",
-                requestId: requestId,
-                isFinal: false, 
-                stepId: step.id,
-                result: stepResultPayload 
-            });
-            
-            // Check if we should attempt fallbacks
-            if (error instanceof FallbackError && error.candidates && error.candidates.length > 0) {
-                console.warn(`Step ${step.id + 1} failed initial attempts, trying ${error.candidates.length} fallback candidate(s)...`);
-                let fallbackSucceeded = false;
-                let lastFallbackResult: StepResult['fallback'] | undefined = undefined;
-
-                // 2) Iterate through candidates
-                for (const candidate of error.candidates) {
-                    console.log(` -> Trying fallback candidate:`, candidate);
-                    try {
-                        const candidateToRun = { ...step, ...candidate }; 
-                        const fallbackExecResult = await executeSingleAction(candidateToRun, activeTabId);
-                        activeTabId = fallbackExecResult.tabId; 
-                        
-                        console.log(`   -> Fallback candidate succeeded!`);
-                        fallbackSucceeded = true;
-                        lastFallbackResult = { step: candidate, success: true };
-                        break; // Stop trying fallbacks on first success
-
-                    } catch (fallbackAttemptError) {
-                        console.warn(`   -> Fallback candidate failed:`, fallbackAttemptError);
-                        lastFallbackResult = { 
-                            step: candidate, 
-                            success: false, 
-                            error: fallbackAttemptError instanceof Error ? fallbackAttemptError.message : String(fallbackAttemptError)
-                        };
-                        // Continue to the next candidate
+// Scores the learned selectors tried ahead of the built-in heuristics: the one that matched succeeded,
+// the ones before it did not. Without a match (a failed attempt) every learned selector failed.
+async function scoreLearnedSelectors(site: string, target: string, learned: string[], matchedSelector: string | undefined) {
+    const matchedIndex = matchedSelector ? learned.indexOf(matchedSelector) : -1;
+    const tried = matchedIndex >= 0 ? learned.slice(0, matchedIndex + 1) : learned;
+    try {
+        for (const selector of tried) {
+            await recordSelectorOutcome(site, target, selector, selector === matchedSelector);
+        }
+    } catch (error) {
+        console.warn('Could not update learned selectors:', error);
+    }
+}
+
+async function learnFallbackSelector(site: string, target: string, selector: string) {
+    try {
+        await recordSelectorOutcome(site, target, selector, true);
+        console.log(`Learned selector "${selector}" for target "${target}" on ${site}.`);
+    } catch (error) {
+        console.warn('Could not store learned selector:', error);
+    }
+}
+
+// Actions after which the page is new even if the URL did not change
+const NAVIGATING_ACTIONS = new Set<PlanStep['action']>(['navigate', 'go_back', 'go_forward', 'refresh']);
+// Actions that run in no particular tab; their results report the tab that is current afterwards
+const TAB_ACTIONS = new Set<PlanStep['action']>(['open_tab', 'switch_tab', 'close_tab']);
+// Steps that run nested steps instead of acting themselves
+const CONTROL_FLOW_ACTIONS = new Set<PlanStep['action']>(['if', 'repeat_until', 'for_each']);
+
+async function getTabUrl(tabId: number): Promise<string | undefined> {
+    return chrome.tabs.get(tabId).then(tab => tab.url, () => undefined);
+}
+
+// Messages to the panel. Closing the panel cancels the run, so the run's last messages often find no receiver.
+export function notifyPanel(message: object) {
+    chrome.runtime.sendMessage(message).catch(() => { /* Panel may be closed */ });
+}
+
+function sendStepResult(requestId: string, stepId: number, result: StepResult) {
+    notifyPanel({
+        type: "planStepResult",
+        requestId: requestId,
+        isFinal: false,
+        stepId: stepId,
+        result: result
+    });
+}
+
+// State shared by the steps of one run (plan or agent loop)
+export interface RunContext {
+    requestId: string;
+    tabId: number; // Tab the next step acts on; updated when a step opens or switches tabs
+    variables: RunVariables;
+    control: RunController;
+    tabs: TabRegistry; // Tabs the run opened or acted in, by name
+    lastStepStartedAt?: number; // Route-change waits count URL changes since the step before them started
+    lastStepSettled?: boolean; // The last step already waited for the page to settle (see pauseAfterStep)
+}
+
+// Fixed pause between steps whose page was not left to settle
+const STEP_DELAY_MS = 500;
+
+/**
+ * Pauses before the next step: not at all after a step that waited for the page to settle, otherwise briefly.
+ */
+export async function pauseAfterStep(context: RunContext) {
+    if (!context.lastStepSettled) await context.control.sleep(STEP_DELAY_MS);
+}
+
+/**
+ * Runs one step with retries, LLM troubleshooting and fallback candidates, reporting its
+ * result to the panel. Returns the final StepResult; throws RunCancelledError if the run is cancelled.
+ */
+export async function runStep(step: FormattedStep, context: RunContext): Promise<StepResult> {
+    const { requestId, variables, control } = context;
+    const attempts = step.retryCount ?? MAX_STEP_RETRIES;
+    const delayMs = step.retryDelayMs ?? RETRY_DELAY_MS;
+    let stepResultPayload: StepResult = { success: false };
+    // Site and semantic target a working fallback selector is learned for, and the selectors already learned
+    let learnedFor: { site: string; target: string } | null = null;
+    let learnedSelectors: string[] = [];
+    // Where the step started, to tell whether it navigated
+    const tabBefore = context.tabId;
+    const urlBefore = await getTabUrl(context.tabId);
+    const startedAt = Date.now();
+    const previousStepStartedAt = context.lastStepStartedAt ?? startedAt;
+    context.lastStepStartedAt = startedAt;
+
+    try {
+        // Resolve {{variable}} references up front: an unknown variable is a hard failure, not worth retrying
+        const resolvedStep = resolveStepTemplates(step, variables);
+        const target = 'target' in resolvedStep ? resolvedStep.target : undefined;
+        const learned = await findLearnedSelectors(context.tabId, target);
+        if (learned.site && target) learnedFor = { site: learned.site, target };
+        learnedSelectors = learned.selectors;
+
+        // --- Initial Attempt with Retry --- 
+        const initialResult = await withRetry(
+            () => executeSingleAction(resolvedStep, context.tabId, context.tabs, variables, previousStepStartedAt, control),
+            attempts,
+            delayMs,
+            !!step.optional, // Pass the optional status
+            // A failed assertion is a finding about the page, not a step to repair
+            async (err) => err instanceof AssertionFailedError ? [] : troubleshootWithLLM(resolvedStep, err, context.tabId, requestId),
+            control
+        );
+        // Waits and scrolls don't report which selector matched; only score steps that do
+        if (learnedFor && learnedSelectors.length > 0 && initialResult.matchedSelector) {
+            await scoreLearnedSelectors(learnedFor.site, learnedFor.target, learnedSelectors, initialResult.matchedSelector);
+        }
+        context.tabId = initialResult.tabId; // Update the active tab if it changed
+        stepResultPayload.success = true;
+        stepResultPayload.screenshot = initialResult.screenshot;
+        stepResultPayload.frame = initialResult.frame;
+        stepResultPayload.assertion = initialResult.assertion;
+        recordExtraction(step, initialResult.data, stepResultPayload, variables);
+        console.log(`Step ${step.id + 1} completed successfully on initial try (with retry).`);
+
+    } catch (error) {
+        if (error instanceof RunCancelledError) throw error; // Handled by the caller
+        if (learnedFor && learnedSelectors.length > 0) {
+            await scoreLearnedSelectors(learnedFor.site, learnedFor.target, learnedSelectors, undefined);
+        }
+        // --- Handle Failures --- 
+        const originalError = error instanceof FallbackError ? error.originalError : error;
+        const originalErrorMessage = originalError instanceof Error ? originalError.message : String(originalError);
+        
+        // 1) Send initial failure message BEFORE attempting fallbacks
+        console.log(`[Executor] Sending initial failure message for step ${step.id}...`);
+        stepResultPayload = { success: false, error: originalErrorMessage }; // Base payload for initial failure
+        if (originalError instanceof AssertionFailedError) {
+            stepResultPayload.failureReason = 'assertion_failed';
+            stepResultPayload.assertion = originalError.outcome;
+        } else {
+            stepResultPayload.failureReason = 'error';
+        }
+        sendStepResult(requestId, step.id, stepResultPayload);
+        
+        // Check if we should attempt fallbacks
+        if (error instanceof FallbackError && error.candidates && error.candidates.length > 0) {
+            console.warn(`Step ${step.id + 1} failed initial attempts, trying ${error.candidates.length} fallback candidate(s)...`);
+            let fallbackSucceeded = false;
+            let lastFallbackResult: StepResult['fallback'] | undefined = undefined;
+
+            // 2) Iterate through candidates
+            for (const candidate of error.candidates) {
+                console.log(` -> Trying fallback candidate:`, candidate);
+                try {
+                    const candidateToRun = resolveStepTemplates(mergeFallbackCandidate(step, candidate), variables); 
+                    const fallbackExecResult = await control.race(executeSingleAction(candidateToRun, context.tabId, context.tabs, variables, previousStepStartedAt, control));
+                    context.tabId = fallbackExecResult.tabId; 
+                    stepResultPayload.screenshot = fallbackExecResult.screenshot;
+                    stepResultPayload.frame = fallbackExecResult.frame;
+                    recordExtraction(step, fallbackExecResult.data, stepResultPayload, variables);
+                    
+                    console.log(`   -> Fallback candidate succeeded!`);
+                    // A plain selector that worked for a semantic target is remembered for this site
+                    const learnedLocator = getStepLocator(candidateToRun);
+                    if (learnedFor && learnedLocator?.selector && !learnedLocator.target && !getStepLocator(candidate)?.ref) {
+                        await learnFallbackSelector(learnedFor.site, learnedFor.target, learnedLocator.selector);
                     }
-                }
+                    fallbackSucceeded = true;
+                    lastFallbackResult = { step: candidate, success: true };
+                    break; // Stop trying fallbacks on first success
 
-                // Update final step result payload after trying fallbacks
-                stepResultPayload.success = fallbackSucceeded;
-                stepResultPayload.fallback = lastFallbackResult; // Record the last fallback attempted
-                if (fallbackSucceeded) {
-                    stepResultPayload.error = undefined; // Clear original error if fallback worked
-                } else {
-                    // Keep original error message if all fallbacks failed
-                    console.error(`Step ${step.id + 1} failed after trying all ${error.candidates.length} fallback candidates.`);
-                    finalErrorMessage = stepResultPayload.error || 'Step failed after all fallbacks';
-                    overallSuccess = false; 
+                } catch (fallbackAttemptError) {
+                    if (fallbackAttemptError instanceof RunCancelledError) throw fallbackAttemptError;
+                    console.warn(`   -> Fallback candidate failed:`, fallbackAttemptError);
+                    lastFallbackResult = { 
+                        step: candidate, 
+                        success: false, 
+                        error: fallbackAttemptError instanceof Error ? fallbackAttemptError.message : String(fallbackAttemptError)
+                    };
+                    // Continue to the next candidate
                 }
+            }
 
+            // Update final step result payload after trying fallbacks
+            stepResultPayload.success = fallbackSucceeded;
+            stepResultPayload.fallback = lastFallbackResult; // Record the last fallback attempted
+            if (fallbackSucceeded) {
+                stepResultPayload.error = undefined; // Clear original error if fallback worked
+                stepResultPayload.failureReason = undefined;
             } else {
-                // --- Hard Failure (Not FallbackError or no candidates) ---
-                console.error(`Step ${step.id + 1} failed with non-recoverable error or no fallback provided:`, originalError);
-                // stepResultPayload already set to initial failure
-                finalErrorMessage = stepResultPayload.error;
-                overallSuccess = false;
+                // Keep original error message if all fallbacks failed
+                console.error(`Step ${step.id + 1} failed after trying all ${error.candidates.length} fallback candidates.`);
+                stepResultPayload.error = stepResultPayload.error || 'Step failed after all fallbacks';
             }
+
+        } else {
+            // --- Hard Failure (Not FallbackError or no candidates) ---
+            console.error(`Step ${step.id + 1} failed with non-recoverable error or no fallback provided:`, originalError);
+            // stepResultPayload already set to initial failure
         }
+    }
 
-        // --- Send FINAL Step Result (after initial attempt + potential fallbacks) --- 
-        console.log(`[Executor] Sending FINAL planStepResult message for step ${step.id}...`, stepResultPayload);
-        // Ensure the payload includes fallback details if attempted
-        chrome.runtime.sendMessage({
-            type: "planStepResult",
-            requestId: requestId,
-            isFinal: false, 
-            stepId: step.id,
-            result: stepResultPayload 
-        });
-        
-        // --- Stop Execution on Failure (unless optional) --- 
-        if (!stepResultPayload.success) {
+    stepResultPayload.tab = context.tabs.describe(stepResultPayload.success && TAB_ACTIONS.has(step.action) ? context.tabId : tabBefore);
+
+    // --- Let the page finish loading data or changing route before the next step looks at it ---
+    context.lastStepSettled = false;
+    if (stepResultPayload.success) {
+        const waitSettings = await loadWaitSettings();
+        if (shouldSettleAfter(step, waitSettings.autoWait)) {
+            context.lastStepSettled = true;
+            const unsettled = await control.race(settlePage(context.tabId, startedAt, waitSettings));
+            if (unsettled.length > 0) console.warn(`Step ${step.id + 1}: page did not settle within ${waitSettings.maxWaitMs}ms (${unsettled.join(', ')}), continuing.`);
+        }
+    }
+
+    // --- Dismiss banners and overlays on the page the step navigated to ---
+    // Switching to or back to a tab that is already open is not a navigation
+    if (stepResultPayload.success && step.action !== 'switch_tab' && step.action !== 'close_tab'
+        && (NAVIGATING_ACTIONS.has(step.action) || context.tabId !== tabBefore || await getTabUrl(context.tabId) !== urlBefore)) {
+        const dismissed = await control.race(attemptDismissPopups(context.tabId));
+        if (dismissed.length > 0) stepResultPayload.dismissed = dismissed;
+    }
+
+    // --- Send FINAL Step Result (after initial attempt + potential fallbacks) --- 
+    console.log(`[Executor] Sending FINAL planStepResult message for step ${step.id}...`, stepResultPayload);
+    sendStepResult(requestId, step.id, stepResultPayload);
+    return stepResultPayload;
+}
+
+/**
+ * Reports a step interrupted by cancellation to the panel and the run record.
+ */
+export async function recordCancelledStep(context: RunContext, record: RunRecord, step: FormattedStep, startedAt: number, error: RunCancelledError) {
+    console.log(`Execution cancelled during step ${step.id + 1}.`);
+    const cancelledResult: StepResult = { success: false, cancelled: true, error: error.message, failureReason: 'cancelled' };
+    sendStepResult(context.requestId, step.id, cancelledResult);
+    await recordStepHistory(record, step, startedAt, cancelledResult, context.tabId);
+}
+
+// --- Control flow ---
+// if, repeat_until and for_each steps run their nested steps with runPlanSteps, like the plan's own steps.
+// A control-flow step's result is sent once its nested steps are done; loops overwrite the nested
+// steps' results with each iteration.
+
+type ControlFlowStep = Extract<FormattedStep, { action: 'if' | 'repeat_until' | 'for_each' }>;
+
+// The step in progress, recorded as cancelled if the run is cancelled during it
+interface StepInProgress {
+    step: FormattedStep | null;
+    startedAt: number;
+}
+
+// What running a list of steps produced
+interface StepListOutcome {
+    success: boolean; // False if any step failed, including optional ones
+    stopped: boolean; // A non-optional step failed and the rest of the list was skipped
+    error?: string; // Of the last failed step
+    failureReason?: FailureReason;
+    extracted: Record<string, unknown>; // Values extracted by the steps, by name
+}
+
+/**
+ * Runs steps in order, including nested ones, until a non-optional step fails.
+ * Throws RunCancelledError if the run is cancelled; `current` then holds the interrupted step.
+ */
+async function runPlanSteps(steps: FormattedStep[], context: RunContext, record: RunRecord, current: StepInProgress): Promise<StepListOutcome> {
+    const outcome: StepListOutcome = { success: true, stopped: false, extracted: {} };
+    for (const [index, step] of steps.entries()) {
+        await context.control.checkpoint(); // Blocks while paused, throws once cancelled
+        console.log(`Executing step ${step.id + 1} on tab ${context.tabId}:`, step);
+
+        let result: StepResult;
+        if (CONTROL_FLOW_ACTIONS.has(step.action)) {
+            const group = await runControlFlowStep(step as ControlFlowStep, context, record, current);
+            result = group.result;
+            Object.assign(outcome.extracted, group.extracted);
+        } else {
+            current.step = step;
+            current.startedAt = Date.now();
+            result = await runStep(step, context);
+            await recordStepHistory(record, step, current.startedAt, result, context.tabId);
+            current.step = null;
+            if (result.extracted) outcome.extracted[result.extracted.name] = result.extracted.value;
+        }
+
+        // --- Stop on failure (unless optional) ---
+        if (!result.success) {
+            outcome.success = false;
+            outcome.error = result.error;
+            outcome.failureReason = result.failureReason;
             if (step.optional) {
                 console.log(`Optional step ${step.id + 1} failed, but proceeding anyway.`);
             } else {
-                console.log("Stopping plan execution due to step failure.");
-                break; 
+                console.log(`Stopping at step ${step.id + 1} due to step failure.`);
+                outcome.stopped = true;
+                break;
             }
         }
 
-        // Small delay between steps unless it was the last one
-        if (step.id < formattedPlan.length - 1) {
-             await new Promise(resolve => setTimeout(resolve, 500)); 
+        // Pause between steps unless it was the last one
+        if (index < steps.length - 1) {
+            await pauseAfterStep(context);
+        }
+    }
+    return outcome;
+}
+
+// Result of a control-flow step from the outcome of nested steps: it fails when they stopped
+function nestedResult(outcome: StepListOutcome, details: Partial<StepResult>): StepResult {
+    return outcome.stopped
+        ? { success: false, error: outcome.error, failureReason: outcome.failureReason, ...details }
+        : { success: true, ...details };
+}
+
+/**
+ * Runs an if, repeat_until or for_each step, reports its result and records it in History.
+ * Returns the result and the values extracted by the nested steps (the collected list for loops).
+ */
+async function runControlFlowStep(step: ControlFlowStep, context: RunContext, record: RunRecord, current: StepInProgress): Promise<{ result: StepResult; extracted: Record<string, unknown> }> {
+    const startedAt = Date.now();
+    const tabBefore = context.tabId;
+    let result: StepResult;
+    let extracted: Record<string, unknown> = {};
+    try {
+        if (step.action === 'if') {
+            current.step = step;
+            current.startedAt = startedAt;
+            const holds = await context.control.race(evaluateCondition(context, step.condition));
+            console.log(`Condition ${describeCondition(step.condition)} ${holds ? 'holds' : 'does not hold'}.`);
+            const branch = holds ? step.then : step.else;
+            if (!branch) {
+                result = { success: true };
+            } else {
+                const outcome = await runPlanSteps(branch as FormattedStep[], context, record, current);
+                result = nestedResult(outcome, { branch: holds ? 'then' : 'else' });
+                extracted = outcome.extracted;
+            }
+        } else {
+            result = await runLoop(step, context, record, current, startedAt);
+            if (result.extracted) extracted = { [result.extracted.name]: result.extracted.value };
         }
+    } catch (error) {
+        if (error instanceof RunCancelledError) throw error;
+        console.error(`Step ${step.id + 1} failed:`, error);
+        result = { success: false, error: error instanceof Error ? error.message : String(error), failureReason: 'error' };
     }
+    result.tab = context.tabs.describe(tabBefore);
+    sendStepResult(context.requestId, step.id, result);
+    await recordStepHistory(record, step, startedAt, result, context.tabId);
+    return { result, extracted };
+}
+
+// Runs the iterations of a repeat_until or for_each step. The values extracted in each iteration are
+// reported as a list on the step's result, and stored in the 'collect' variable if it names one.
+async function runLoop(step: Extract<ControlFlowStep, { action: 'repeat_until' | 'for_each' }>, context: RunContext, record: RunRecord, current: StepInProgress, startedAt: number): Promise<StepResult> {
+    const body = step.steps as FormattedStep[];
+    const collected: Record<string, unknown>[] = [];
+    let iterations = 0;
+    let failed: StepListOutcome | undefined;
+    let error: string | undefined;
 
-    // 4. Send final overall status message
-     console.log("[Executor] Sending FINAL planStepResult message...");
-     chrome.runtime.sendMessage({
+    const runIteration = async () => {
+        iterations++;
+        console.log(`Step ${step.id + 1}: iteration ${iterations}.`);
+        const outcome = await runPlanSteps(body, context, record, current);
+        collected.push(outcome.extracted);
+        if (outcome.stopped) failed = outcome;
+        current.step = step;
+        current.startedAt = startedAt;
+        if (!failed) await pauseAfterStep(context);
+    };
+    current.step = step;
+    current.startedAt = startedAt;
+
+    if (step.action === 'repeat_until') {
+        const maxIterations = step.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+        while (!failed && !await context.control.race(evaluateCondition(context, step.condition))) {
+            if (iterations >= maxIterations) {
+                error = `Condition "${describeCondition(step.condition)}" still not met after ${iterations} iteration(s)`;
+                break;
+            }
+            await runIteration();
+        }
+    } else if (step.items !== undefined) {
+        const items = getListItems(step.items, context.variables).slice(0, step.maxItems ?? DEFAULT_MAX_ITEMS);
+        for (const [index, item] of items.entries()) {
+            Object.assign(context.variables, itemVariables(step.as || DEFAULT_ITEM_NAME, item, index));
+            await runIteration();
+            if (failed) break;
+        }
+    } else {
+        // Elements are listed again before each iteration, as earlier iterations may have changed the page
+        const locator = resolveStepTemplates(resolveStepRef(step), context.variables);
+        const marker = String(step.id);
+        let total: number | undefined;
+        for (let index = 0; !failed && (total === undefined || index < total); index++) {
+            const listed = await context.control.race(markListItem(context.tabId, locator, index, marker));
+            if (total === undefined) total = Math.min(listed.count, step.maxItems ?? DEFAULT_MAX_ITEMS);
+            if (index >= total) break;
+            if (!listed.item) {
+                error = `Item ${index + 1} of ${total} is no longer on the page (${listed.count} match now)`;
+                break;
+            }
+            const details = { selector: itemSelector(marker), url: listed.item.url };
+            Object.assign(context.variables, itemVariables(step.as || DEFAULT_ITEM_NAME, listed.item.text, index, details));
+            await runIteration();
+        }
+    }
+
+    const result: StepResult = failed
+        ? nestedResult(failed, { iterations })
+        : error ? { success: false, error, failureReason: 'error', iterations } : { success: true, iterations };
+    if (step.collect || collected.some(values => Object.keys(values).length > 0)) {
+        const name = step.collect || `step_${step.id + 1}`;
+        result.extracted = { name, value: collected };
+        if (step.collect) context.variables[step.collect] = collected;
+    }
+    return result;
+}
+
+// Whether a condition holds: a variable check, or a probe of the page for the located element
+async function evaluateCondition(context: RunContext, condition: StepCondition): Promise<boolean> {
+    const resolved = resolveConditionTemplates(condition, context.variables);
+    if (resolved.variable !== undefined) return evaluateVariableCondition(resolved, context.variables);
+    const locator = resolved.ref ? { selector: refSelector(resolved.ref), frame: resolved.frame } : resolved;
+    const found = (await probeElements(context.tabId, locator, null, null)).some(probe => probe.count > 0);
+    return resolved.exists === false ? !found : found;
+}
+
+// Tags the index-th visible match of a for_each locator for the iteration, in the first frame that has matches
+async function markListItem(tabId: number, locator: ElementLocator, index: number, marker: string): Promise<ReturnType<typeof listItemsLogic> | { count: 0; item?: undefined }> {
+    const identifier = locator.target || locator.selector || '';
+    const isSemantic = !!locator.target;
+    const heuristics = isSemantic ? await getHeuristicsForTab(tabId) : {};
+    const frame = await resolveStepFrame(tabId, locator.frame);
+    const counts = await chrome.scripting.executeScript({
+        target: injectionTarget(tabId, frame),
+        func: listItemsLogic,
+        args: [identifier, isSemantic, heuristics, null]
+    });
+    const listed = counts.find(r => r.result && r.result.count > 0);
+    if (!listed) return { count: 0 };
+    const marked = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [listed.frameId] },
+        func: listItemsLogic,
+        args: [identifier, isSemantic, heuristics, { index, marker }]
+    });
+    return marked[0]?.result || { count: 0 };
+}
+
+// How a run ended, as reported in its final message
+export interface RunOutcome {
+    success: boolean;
+    cancelled: boolean;
+    error?: string;
+    failureReason?: FailureReason; // Defaults to 'error' for a failed run that was not cancelled
+    verification?: GoalVerification;
+}
+
+/**
+ * Closes the tabs the run opened (if enabled in Settings), sends the final message of a run and stores it in History.
+ */
+export async function finishRun(context: RunContext, record: RunRecord, outcome: RunOutcome, lastStepId: number) {
+    await closeCreatedTabs(context.tabs);
+    console.log("[Executor] Sending FINAL planStepResult message...");
+    notifyPanel({
         type: "planStepResult",
-        requestId: requestId,
+        requestId: context.requestId,
         isFinal: true, // Mark this as the final message for this request
-        stepId: formattedPlan.length - 1, // Associate with last step or use -1?
+        stepId: lastStepId,
         result: { 
-            success: overallSuccess, 
-            error: finalErrorMessage 
+            success: outcome.success, 
+            error: outcome.error,
+            cancelled: outcome.cancelled || undefined,
+            failureReason: outcome.success ? undefined : outcome.cancelled ? 'cancelled' : outcome.failureReason || 'error',
+            verification: outcome.verification
             // No fallback info for overall status
         }
     });
-} 
\ No newline at end of file
+
+    record.finishedAt = Date.now();
+    record.status = outcome.cancelled ? 'cancelled' : outcome.success ? 'success' : 'failed';
+    record.error = outcome.error;
+    record.variables = { ...context.variables };
+    await storeRunRecord(record);
+}
+
+export interface ExecutionOptions {
+    instructions?: string; // The instructions the plan was generated from, kept for History
+    variables?: RunVariables; // Initial run variables, e.g. recipe parameter values
+    verifyGoal?: boolean; // Ask the model whether the final page meets plan.goal when all steps succeeded
+}
+
+/**
+ * Asks the model whether the page the run ended on meets its goal. Returns undefined (and the run
+ * keeps its result) when the model cannot be asked or does not answer with a verdict.
+ */
+async function verifyRunGoal(context: RunContext, goal: string, record: RunRecord): Promise<GoalVerification | undefined> {
+    try {
+        const pageState = await describeRunTabs(context.tabs, context.tabId) + await describePage(context.tabId);
+        const steps = record.steps.map(step => ({ description: step.description, success: step.result.success, error: step.result.error }));
+        const verification = await verifyGoal(await loadLLMSettings(), goal, steps, pageState);
+        console.log(`Goal ${verification.achieved ? 'verified' : 'not met'}: ${verification.explanation}`);
+        return verification;
+    } catch (error) {
+        console.warn('Could not verify the goal:', error);
+        return undefined;
+    }
+}
+
+export function createRunRecord(requestId: string, plan: ExecutionPlan, options: ExecutionOptions): RunRecord {
+    return {
+        id: requestId,
+        instructions: options.instructions,
+        inputs: options.variables,
+        plan,
+        stepDescriptions: [],
+        startedAt: Date.now(),
+        finishedAt: Date.now(),
+        status: 'success',
+        steps: [],
+        variables: {}
+    };
+}
+
+export async function executePlanSteps(currentTabId: number, plan: ExecutionPlan, requestId: string, options: ExecutionOptions = {}) {
+    console.log(`Starting execution for tab ${currentTabId}, plan:`, plan, `ReqID: ${requestId}`);
+    const runRecord = createRunRecord(requestId, plan, options);
+
+    // Plans can come from the LLM, replays or user edits; never start executing an invalid one
+    const planIssues = validatePlan(plan);
+    if (planIssues.length > 0) {
+        const errorMsg = `Plan is invalid:\n${formatValidationIssues(planIssues, plan)}`;
+        console.error(errorMsg);
+        notifyPanel({
+            type: "planStepResult",
+            requestId: requestId,
+            isFinal: true,
+            stepId: -1, // Indicate overall failure
+            result: { success: false, error: errorMsg }
+        });
+        await storeRunRecord({ ...runRecord, status: 'failed', error: errorMsg, finishedAt: Date.now() });
+        return;
+    }
+
+    // 1. Format plan for display (add id, description); nested steps get ids of their own
+    const formattedPlan: FormattedStep[] = formatSteps(plan.steps);
+    console.log("Formatted plan:", formattedPlan);
+    const allSteps = flattenSteps(formattedPlan);
+    runRecord.stepDescriptions = allSteps.map(step => step.description);
+
+    // 2. Send formatted plan back to panel
+    console.log("[Executor] Sending planReceived message...");
+    notifyPanel({ 
+        type: "planReceived", 
+        requestId: requestId, 
+        formattedPlan: formattedPlan 
+    });
+
+    // Pause/resume/cancel/step commands from the panel reach this run through its controller.
+    // Variables hold values from 'extract' steps named with 'as' (plus any initial inputs), available via {{name}}
+    const context: RunContext = {
+        requestId,
+        tabId: currentTabId,
+        variables: { ...options.variables },
+        control: registerRun(requestId),
+        tabs: new TabRegistry(currentTabId)
+    };
+
+    let overallSuccess = true;
+    let finalErrorMessage: string | undefined = undefined;
+    let failureReason: FailureReason | undefined = undefined;
+    let verification: GoalVerification | undefined = undefined;
+    let wasCancelled = false;
+    const current: StepInProgress = { step: null, startedAt: Date.now() };
+
+    // 3. Execute steps sequentially
+    try {
+        const outcome = await runPlanSteps(formattedPlan, context, runRecord, current);
+        overallSuccess = outcome.success;
+        finalErrorMessage = outcome.error;
+        failureReason = outcome.failureReason;
+
+        // Every step succeeding does not mean the goal was reached; optionally let the model judge the final page
+        if (options.verifyGoal && overallSuccess && plan.goal) {
+            verification = await context.control.race(verifyRunGoal(context, plan.goal, runRecord));
+            if (verification && !verification.achieved) {
+                overallSuccess = false;
+                finalErrorMessage = `Goal not met: ${verification.explanation || 'the final page does not match the goal.'}`;
+                failureReason = 'goal_not_met';
+            }
+        }
+    } catch (error) {
+        if (!(error instanceof RunCancelledError)) throw error;
+        wasCancelled = true;
+        overallSuccess = false;
+        finalErrorMessage = error.message;
+        if (current.step) await recordCancelledStep(context, runRecord, current.step, current.startedAt, error);
+    } finally {
+        unregisterRun(requestId);
+    }
+
+    // 4. Send final overall status message and store the run; it goes with the last step, which may be nested
+    await finishRun(context, runRecord, { success: overallSuccess, cancelled: wasCancelled, error: finalErrorMessage, failureReason, verification }, allSteps[allSteps.length - 1].id);
+}
@@ -0,0 +1,57 @@
+import type { DismissedOverlay } from '../common/types';
+import { dismissOverlaysLogic } from './injectable/scriptBuilder';
+import { consentManagers } from './injectable/consentManagers';
+import { getSiteForTab } from './siteHeuristics';
+import { loadPopupSettings, getPopupAction } from '../utils/popupSettings';
+
+// --- Popup and consent banner dismissal ---
+// Runs after steps that navigate. Banners often appear a moment after load and dismissing one can
+// reveal another (e.g. a consent layer over a newsletter modal), so the pass is repeated a few times.
+
+const SETTLE_DELAY_MS = 1000; // Extra wait for late banners when the first look finds nothing
+const BETWEEN_PASSES_MS = 500;
+const MAX_PASSES = 3;
+
+async function runDismissPass(tabId: number, choice: Parameters<typeof dismissOverlaysLogic>[0]): Promise<DismissedOverlay[]> {
+    try {
+        const results = await chrome.scripting.executeScript({
+            target: { tabId, allFrames: true }, // Some consent managers render inside an iframe
+            func: dismissOverlaysLogic,
+            args: [choice, consentManagers]
+        });
+        return results.flatMap(frame => (frame.result as DismissedOverlay[] | undefined) || []);
+    } catch (error) {
+        // Restricted pages (chrome://, the Web Store) cannot be scripted; nothing to dismiss there
+        console.warn(`Popup dismissal skipped on tab ${tabId}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Dismisses cookie banners and modal overlays on the tab according to the popup settings for its site.
+ * Never throws; returns what was dismissed.
+ */
+export async function attemptDismissPopups(tabId: number): Promise<DismissedOverlay[]> {
+    const site = await getSiteForTab(tabId);
+    if (!site) return [];
+    const settings = await loadPopupSettings().catch(() => null);
+    const choice = settings ? getPopupAction(settings, site) : 'off';
+    if (choice === 'off') return [];
+
+    console.log(`Checking for popups/banners on tab ${tabId} (${site}, choice: ${choice})...`);
+    const dismissed: DismissedOverlay[] = [];
+    let waitedForLateBanners = false;
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const found = await runDismissPass(tabId, choice);
+        if (found.length === 0) {
+            if (dismissed.length > 0 || waitedForLateBanners) break;
+            waitedForLateBanners = true;
+            await new Promise(resolve => setTimeout(resolve, SETTLE_DELAY_MS));
+            continue;
+        }
+        console.log(`Dismissed ${found.length} popup(s) on tab ${tabId}:`, found);
+        dismissed.push(...found);
+        await new Promise(resolve => setTimeout(resolve, BETWEEN_PASSES_MS));
+    }
+    return dismissed;
+}
@@ -4,7 +4,13 @@
  */
 import type { PlanStep } from '../common/types';
 import { getTroubleshootingSuggestion } from '../utils/llm';
-import { heuristicsMap } from './injectable/heuristics';
+import { estimateImageTokens, estimateTokens, fitToTokenBudget } from '../utils/llmProviders';
+import { loadLLMSettings, getSettingsProblem } from '../utils/llmSettings';
+import { getHeuristicsForTab } from './siteHeuristics';
+import { RunCancelledError, type RunController } from './runControl';
+import { describeStepSubject, getStepLocator, mergeFallbackCandidate, validateStep } from '../common/planValidation';
+import { refSelector } from '../common/elementRefs';
+import { describePage } from './pageSnapshot';
 
 // Define a custom error type to hold fallback candidates
 export class FallbackError extends Error {
@@ -24,17 +30,21 @@ export async function withRetry<T>(
   attempts: number,
   delayMs: number,
   isOptional: boolean,
-  onFail: (error: any) => Promise<PlanStep[]>
+  onFail: (error: any) => Promise<PlanStep[]>,
+  control?: RunController // When given, cancellation interrupts attempts, back-off delays and onFail
 ): Promise<T> {
   let lastError: any;
   for (let i = 1; i <= attempts; i++) {
     try {
-      return await action();
+      control?.throwIfCancelled();
+      return await (control ? control.race(action()) : action());
     } catch (err) {
+      if (err instanceof RunCancelledError) throw err; // Never retry or troubleshoot a cancelled run
       lastError = err;
       console.warn(`Attempt ${i}/${attempts} failed:`, err);
       if (i < attempts) {
-        await new Promise(res => setTimeout(res, delayMs * i)); // linear back-off
+        const backoffMs = delayMs * i; // linear back-off
+        await (control ? control.sleep(backoffMs) : new Promise(res => setTimeout(res, backoffMs)));
       }
     }
   }
@@ -50,7 +60,7 @@ export async function withRetry<T>(
 
   // If not optional, proceed with fallback attempt
   console.log("Calling onFail handler to get fallback candidates...");
-  const fallbackCandidates = await onFail(lastError);
+  const fallbackCandidates = await (control ? control.race(onFail(lastError)) : onFail(lastError));
 
   if (fallbackCandidates && fallbackCandidates.length > 0) {
       console.log(`onFail returned ${fallbackCandidates.length} fallback candidate(s). Throwing FallbackError.`, fallbackCandidates);
@@ -86,8 +96,109 @@ export async function captureScreenshot(tabId: number): Promise<string> {
   });
 }
 
+// captureVisibleTab is rate limited by Chrome (2 calls/second), so space out full-page segments
+const CAPTURE_INTERVAL_MS = 600;
+// Keeps the stitched canvas well below browser canvas size limits on very long pages
+const MAX_FULL_PAGE_SEGMENTS = 15;
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'image/png'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Capture the full scrollable page by scrolling the main frame one viewport at a time
+ * and stitching the segments together on an OffscreenCanvas. Restores the scroll position afterwards.
+ */
+export async function captureFullPageScreenshot(tabId: number): Promise<string> {
+  const [{ result: metrics }] = await chrome.scripting.executeScript<[], { scrollHeight: number; viewportHeight: number; viewportWidth: number; scrollX: number; scrollY: number }>({
+    target: { tabId, allFrames: false },
+    func: () => ({
+      scrollHeight: Math.max(document.documentElement.scrollHeight, document.body?.scrollHeight || 0),
+      viewportHeight: window.innerHeight,
+      viewportWidth: window.innerWidth,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY
+    })
+  });
+  if (!metrics) {
+    throw new Error('Could not read page dimensions for full page screenshot.');
+  }
+
+  const scrollTo = async (y: number): Promise<number> => {
+    const [{ result }] = await chrome.scripting.executeScript<[number], number>({
+      target: { tabId, allFrames: false },
+      func: (top: number) => { window.scrollTo({ top, left: 0, behavior: 'instant' as ScrollBehavior }); return window.scrollY; },
+      args: [y]
+    });
+    return typeof result === 'number' ? result : y;
+  };
+
+  const segmentCount = Math.min(Math.ceil(metrics.scrollHeight / metrics.viewportHeight), MAX_FULL_PAGE_SEGMENTS);
+  const segments: { y: number; bitmap: ImageBitmap }[] = [];
+  try {
+    for (let i = 0; i < segmentCount; i++) {
+      const actualY = await scrollTo(i * metrics.viewportHeight);
+      await new Promise(res => setTimeout(res, CAPTURE_INTERVAL_MS));
+      const dataUrl = await captureScreenshot(tabId);
+      if (!dataUrl) throw new Error(`Capture of segment ${i + 1}/${segmentCount} returned no image.`);
+      const blob = await (await fetch(dataUrl)).blob();
+      segments.push({ y: actualY, bitmap: await createImageBitmap(blob) });
+    }
+  } finally {
+    await scrollTo(metrics.scrollY).catch(() => { /* page may have navigated away */ });
+  }
+
+  // Captured pixels can be larger than CSS pixels on high-DPI displays
+  const scale = segments[0].bitmap.width / metrics.viewportWidth;
+  const lastSegment = segments[segments.length - 1];
+  const totalHeight = Math.round(lastSegment.y * scale) + lastSegment.bitmap.height;
+  const canvas = new OffscreenCanvas(segments[0].bitmap.width, totalHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable for stitching.');
+  for (const segment of segments) {
+    ctx.drawImage(segment.bitmap, 0, Math.round(segment.y * scale));
+    segment.bitmap.close();
+  }
+  return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+}
+
 /**
- * On terminal failure, capture HTML and screenshot, then call the LLM for troubleshooting.
+ * Downscales a screenshot to at most `maxWidth` pixels wide (JPEG) so it costs fewer image tokens.
+ */
+export async function downscaleScreenshot(dataUrl: string, maxWidth: number): Promise<{ dataUrl: string; width: number; height: number }> {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const scale = Math.min(1, maxWidth / bitmap.width);
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable for downscaling.');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { dataUrl: await blobToDataUrl(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })), width, height };
+}
+
+// Page text always gets at least this many tokens, even when the screenshot uses most of the budget
+const MIN_PAGE_TEXT_TOKENS = 500;
+
+// Body markup without scripts, styles and comments: only useful context is worth spending budget on
+function stripHtmlNoise(html: string): string {
+  return html
+    .replace(/<head[\s\S]*?<\/head>/i, '')
+    .replace(/<(script|style|noscript|svg)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * On terminal failure, capture a page snapshot and screenshot, then call the LLM for troubleshooting.
+ * The screenshot is downscaled and sent as an image (vision models only); the snapshot, then body HTML,
+ * fill whatever remains of the troubleshooting context token budget.
  */
 // Define a type for the message we send back to the panel
 interface TroubleshootResultMessage {
@@ -106,46 +217,66 @@ export async function troubleshootWithLLM(
     requestId: string 
 ): Promise<PlanStep[]> { // Return PlanStep[]
   try {
-    const storage = await chrome.storage.local.get(['openai_api_key']);
-    const apiKey = storage.openai_api_key;
-    if (!apiKey) {
-      console.error('OpenAI API Key not found in storage (key: openai_api_key). Cannot troubleshoot with LLM.');
+    const settings = await loadLLMSettings();
+    const settingsProblem = getSettingsProblem(settings);
+    if (settingsProblem) {
+      console.error(`LLM not configured (${settingsProblem}). Cannot troubleshoot with LLM.`);
       return []; // Return empty array
     }
 
     console.log("Initiating troubleshooting captures...");
-    // Capture HTML and Screenshot concurrently
-    const htmlPromise = capturePageHTML(tabId);
-    const screenshotPromise = captureScreenshot(tabId);
-    const [html, screenshot] = await Promise.all([htmlPromise, screenshotPromise]);
-    console.log(`Captures complete. HTML length: ${html.length}, Screenshot available: ${!!screenshot}`);
-
-    // Truncate HTML more aggressively (10k) since we add screenshot
-    const truncatedHtml = html.slice(0, 10000);
+    const roleSettings = settings.troubleshooting;
+    // Capture the page snapshot, HTML and Screenshot concurrently
+    const [pageSnapshot, html, rawScreenshot] = await Promise.all([
+      describePage(tabId),
+      capturePageHTML(tabId).catch(() => ''),
+      roleSettings.vision ? captureScreenshot(tabId) : Promise.resolve('')
+    ]);
+
+    let budget = roleSettings.contextTokenBudget;
+    let screenshot: string | undefined = undefined;
+    if (rawScreenshot) {
+      try {
+        const scaled = await downscaleScreenshot(rawScreenshot, roleSettings.screenshotMaxWidth);
+        screenshot = scaled.dataUrl;
+        budget -= estimateImageTokens(scaled.width, scaled.height);
+      } catch (scaleError) {
+        console.warn('Could not downscale screenshot, sending none:', scaleError);
+      }
+    }
+    const snapshotText = fitToTokenBudget(pageSnapshot, Math.max(budget, MIN_PAGE_TEXT_TOKENS));
+    budget -= estimateTokens(snapshotText);
+    const htmlText = fitToTokenBudget(stripHtmlNoise(html), budget);
+    console.log(`Captures complete. Snapshot: ${snapshotText.length} chars, HTML: ${htmlText.length} chars, screenshot: ${!!screenshot}`);
+
     const prompt = `
 The following web automation step failed:
 Action: ${stepInfo.action}
-Target/Selector: ${stepInfo.target || stepInfo.selector || 'N/A'}
-Other Params: ${JSON.stringify(Object.fromEntries(Object.entries(stepInfo).filter(([k]) => !['action', 'target', 'selector', 'id', 'description'].includes(k))))}
+Target/Selector: ${describeStepSubject(stepInfo) || 'N/A'}
+Other Params: ${JSON.stringify(Object.fromEntries(Object.entries(stepInfo).filter(([k]) => !['action', 'target', 'selector', 'ref', 'id', 'description'].includes(k))))}
 
 Error: ${error?.message || error}
 
-Here is the relevant page HTML (truncated to 10,000 chars):
+Here is a snapshot of the page's interactive elements (role, accessible name, value, states):
+${snapshotText}
+
+Alternatives may target an element from the snapshot by its ref, e.g. { "action": "click", "ref": "e12" }.
+${htmlText ? `
+Here is an excerpt of the page body HTML:
 \u0060\u0060\u0060html
-${truncatedHtml}
+${htmlText}
 \u0060\u0060\u0060
+` : ''}
+${screenshot ? 'A screenshot of the visible part of the page is attached.' : 'No screenshot is available.'}
 
-Here is a screenshot of the page (base64 PNG data URL):
-${screenshot}
-
-Please analyze the HTML, screenshot, and the failed step to determine potential fixes.
+Please analyze the page information and the failed step to determine potential fixes.
 Return up to 3 alternative PlanStep JSON objects, ranked by likelihood of success, that could replace the failed step. 
 IMPORTANT: Output these alternatives as a JSON array within a single markdown code block like \u0060\u0060\u0060json\n[\n  {...}, \n  {...}, \n  {...} \n]\n\u0060\u0060\u0060. Ensure the output inside the block is ONLY the valid JSON array.
 `;
 
     console.info('Sending troubleshooting prompt to LLM for fallback candidates...');
     // Expect PlanStep[] now
-    const fallbackCandidates = await getTroubleshootingSuggestion(apiKey, prompt);
+    const fallbackCandidates = await getTroubleshootingSuggestion(settings, prompt, screenshot);
     console.info('LLM fallback candidates received:', fallbackCandidates);
 
     if (!fallbackCandidates || fallbackCandidates.length === 0) {
@@ -156,23 +287,34 @@ IMPORTANT: Output these alternatives as a JSON array within a single markdown co
     // --- Filter candidates based on existence --- 
     console.log("Filtering candidates based on selector existence...");
     const viableCandidates: PlanStep[] = [];
+    const heuristics = await getHeuristicsForTab(tabId);
     for (const candidate of fallbackCandidates) {
+        // Candidates are merged over the failed step before running, so validate the merged result
+        const problems = validateStep(mergeFallbackCandidate(stepInfo, candidate));
+        if (problems.length > 0) {
+            console.log(` -> Discarding invalid candidate (${problems.join('; ')}):`, candidate);
+            continue;
+        }
+
         // Only check existence if candidate has a selector or target with known heuristics
+        const locator = getStepLocator(candidate);
         let selectorToCheck: string | null = null;
-        if (candidate.selector) {
-            selectorToCheck = candidate.selector;
-        } else if (candidate.target && heuristicsMap[candidate.target]) {
+        if (locator?.ref) {
+            selectorToCheck = refSelector(locator.ref);
+        } else if (locator?.selector) {
+            selectorToCheck = locator.selector;
+        } else if (locator?.target && heuristics[locator.target]) {
             // Use first heuristic selector for existence check if target is known
-            selectorToCheck = heuristicsMap[candidate.target][0]; 
-        } else if (candidate.target) {
-             console.log(` -> Candidate target "${candidate.target}" has no defined heuristics. Cannot check existence. Keeping.`);
+            selectorToCheck = heuristics[locator.target][0]; 
+        } else if (locator?.target) {
+             console.log(` -> Candidate target "${locator.target}" has no defined heuristics. Cannot check existence. Keeping.`);
              viableCandidates.push(candidate); // Keep if target has no heuristics defined
              continue;
         }
         
         if (selectorToCheck) {
             try {
-                 console.log(`Checking existence for selector: "${selectorToCheck}" derived from candidate target/selector "${candidate.target || candidate.selector}" in tab ${tabId}`);
+                 console.log(`Checking existence for selector: "${selectorToCheck}" derived from candidate target/selector "${locator?.target || locator?.selector}" in tab ${tabId}`);
                  const results: chrome.scripting.InjectionResult<{exists: boolean; count: number}>[] = 
                    await chrome.scripting.executeScript<
                      [string], 
@@ -210,9 +352,17 @@ IMPORTANT: Output these alternatives as a JSON array within a single markdown co
 
 // --- Injectable function to check selector existence --- 
 export function checkSelectorExistence(selector: string): { exists: boolean; count: number } {
+    // Counts matches in the document and in open shadow roots
+    function countIn(root: Document | ShadowRoot): number {
+        let count = root.querySelectorAll(selector).length;
+        for (const element of root.querySelectorAll('*')) {
+            if (element.shadowRoot) count += countIn(element.shadowRoot);
+        }
+        return count;
+    }
     try {
-        const elements = document.querySelectorAll(selector);
-        return { exists: elements.length > 0, count: elements.length };
+        const count = countIn(document);
+        return { exists: count > 0, count };
     } catch (e) {
         console.warn(`Error checking selector existence for "${selector}":`, e);
         return { exists: false, count: 0 };
@@ -0,0 +1,160 @@
+/**
+ * Pause / resume / cancel / step-once control for a running plan.
+ * The executor calls checkpoint() between steps and routes waits through sleep()/race(),
+ * so a cancel takes effect between steps and inside long waits and retries. Step handlers
+ * given the controller call throwIfCancelled() before each page-side sub-step, so a cancelled
+ * step does not go on to act on the page.
+ */
+
+export type RunState = 'running' | 'paused' | 'cancelled' | 'finished';
+export type RunCommand = 'pause' | 'resume' | 'cancel' | 'step';
+
+export class RunCancelledError extends Error {
+  constructor(message = 'Execution cancelled by user.') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+export class RunController {
+  readonly requestId: string;
+  private _state: RunState = 'running';
+  // Steps allowed to run while paused (granted by 'step')
+  private stepBudget = 0;
+  private wakeUps: (() => void)[] = [];
+  private cancelListeners: ((error: RunCancelledError) => void)[] = [];
+
+  constructor(requestId: string) {
+    this.requestId = requestId;
+  }
+
+  get state(): RunState {
+    return this._state;
+  }
+
+  get isCancelled(): boolean {
+    return this._state === 'cancelled';
+  }
+
+  handleCommand(command: RunCommand) {
+    switch (command) {
+      case 'pause': this.pause(); break;
+      case 'resume': this.resume(); break;
+      case 'cancel': this.cancel(); break;
+      case 'step': this.step(); break;
+    }
+  }
+
+  pause() {
+    if (this._state !== 'running') return;
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this._state !== 'paused') return;
+    this.stepBudget = 0;
+    this.setState('running');
+    this.wake();
+  }
+
+  // While paused: run exactly one more step, then pause again. While running: pause after the current step.
+  step() {
+    if (this._state === 'running') {
+      this.pause();
+      return;
+    }
+    if (this._state !== 'paused') return;
+    this.stepBudget = 1;
+    this.wake();
+  }
+
+  cancel() {
+    if (this._state === 'cancelled' || this._state === 'finished') return;
+    this.setState('cancelled');
+    const error = new RunCancelledError();
+    this.cancelListeners.splice(0).forEach(listener => listener(error));
+    this.wake();
+  }
+
+  finish() {
+    if (this._state === 'cancelled') return;
+    this._state = 'finished';
+  }
+
+  throwIfCancelled() {
+    if (this.isCancelled) throw new RunCancelledError();
+  }
+
+  /**
+   * Called between steps. Throws if cancelled; blocks while paused (unless a single step was granted).
+   */
+  async checkpoint(): Promise<void> {
+    while (true) {
+      this.throwIfCancelled();
+      if (this._state !== 'paused') return;
+      if (this.stepBudget > 0) {
+        this.stepBudget--;
+        return;
+      }
+      await new Promise<void>(resolve => this.wakeUps.push(resolve));
+    }
+  }
+
+  /**
+   * Settles with the given promise, or rejects with RunCancelledError as soon as the run is cancelled.
+   * The underlying work is not aborted, its result is just ignored; work that acts on the page
+   * checks throwIfCancelled() itself.
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    this.throwIfCancelled();
+    return new Promise<T>((resolve, reject) => {
+      const onCancel = (error: RunCancelledError) => reject(error);
+      this.cancelListeners.push(onCancel);
+      const cleanup = () => {
+        this.cancelListeners = this.cancelListeners.filter(listener => listener !== onCancel);
+      };
+      promise.then(
+        value => { cleanup(); resolve(value); },
+        error => { cleanup(); reject(error); }
+      );
+    });
+  }
+
+  // A delay that ends early (with RunCancelledError) if the run is cancelled
+  sleep(ms: number): Promise<void> {
+    return this.race(new Promise<void>(resolve => setTimeout(resolve, ms)));
+  }
+
+  private wake() {
+    this.wakeUps.splice(0).forEach(resolve => resolve());
+  }
+
+  private setState(state: RunState) {
+    this._state = state;
+    console.log(`[RunControl] Request ${this.requestId} is now ${state}.`);
+    chrome.runtime.sendMessage({ type: 'executionState', requestId: this.requestId, state })
+      .catch(() => { /* Panel may be closed */ });
+  }
+}
+
+// --- Registry of runs currently executing, keyed by requestId ---
+const activeRuns = new Map<string, RunController>();
+
+export function registerRun(requestId: string): RunController {
+  const controller = new RunController(requestId);
+  activeRuns.set(requestId, controller);
+  return controller;
+}
+
+export function unregisterRun(requestId: string) {
+  activeRuns.get(requestId)?.finish();
+  activeRuns.delete(requestId);
+}
+
+export function getRun(requestId: string): RunController | undefined {
+  return activeRuns.get(requestId);
+}
+
+export function cancelAllRuns() {
+  activeRuns.forEach(controller => controller.cancel());
+}
@@ -0,0 +1,29 @@
+import type { HeuristicsMap } from '../common/types';
+import { heuristicsMap } from './injectable/heuristics';
+import { getSiteKey, loadSelectorMemory, mergeLearnedHeuristics } from '../utils/selectorMemory';
+import { loadCustomHeuristics, mergeCustomHeuristics } from '../utils/customHeuristics';
+
+// Heuristics as seen by the injectables for a given tab: the built-in map extended by the user's
+// global and domain-scoped entries, with the selectors learned for the tab's site tried first.
+
+export async function getSiteForTab(tabId: number): Promise<string | null> {
+    const url = await chrome.tabs.get(tabId).then(tab => tab.url, () => undefined);
+    return getSiteKey(url);
+}
+
+export async function getHeuristicsForTab(tabId: number): Promise<HeuristicsMap> {
+    const site = await getSiteForTab(tabId);
+    let merged = heuristicsMap;
+    try {
+        merged = mergeCustomHeuristics(merged, await loadCustomHeuristics(), site);
+    } catch (error) {
+        console.warn('Could not load custom heuristics, using built-in heuristics only:', error);
+    }
+    if (!site) return merged;
+    try {
+        return mergeLearnedHeuristics(merged, await loadSelectorMemory(), site);
+    } catch (error) {
+        console.warn('Could not load learned selectors:', error);
+        return merged;
+    }
+}
@@ -0,0 +1,121 @@
+import { matchesFrameUrl } from '../common/frames';
+import type { StepTab, SwitchTabStep } from '../common/types';
+
+/**
+ * The tabs one run has opened or acted in, with the names steps use to refer to them.
+ * The tab the run started in is "main"; tabs get the name given by open_tab, or tab2, tab3, ...
+ * Tabs the run created are remembered so they can be closed when the run ends.
+ */
+
+export const MAIN_TAB_NAME = 'main';
+
+export interface RunTab {
+  tabId: number;
+  name: string;
+  createdByRun: boolean;
+}
+
+export class TabRegistry {
+  private tabs: RunTab[] = [];
+  private nextNumber = 2;
+
+  constructor(initialTabId: number) {
+    this.track(initialTabId, { name: MAIN_TAB_NAME });
+  }
+
+  /**
+   * Registers a tab unless it is already known, and returns its entry.
+   * @throws Error if the name is already used by another tab of the run.
+   */
+  track(tabId: number, options: { name?: string; created?: boolean } = {}): RunTab {
+    const existing = this.get(tabId);
+    if (existing) return existing;
+    if (options.name && this.findByName(options.name)) {
+      throw new Error(`A tab named "${options.name}" is already open in this run.`);
+    }
+    const entry: RunTab = { tabId, name: options.name || this.nextName(), createdByRun: !!options.created };
+    this.tabs.push(entry);
+    return entry;
+  }
+
+  get(tabId: number): RunTab | undefined {
+    return this.tabs.find(tab => tab.tabId === tabId);
+  }
+
+  // Names are matched case-insensitively
+  findByName(name: string): RunTab | undefined {
+    const wanted = name.trim().toLowerCase();
+    return this.tabs.find(tab => tab.name.toLowerCase() === wanted);
+  }
+
+  // In the order the run first used them
+  list(): RunTab[] {
+    return [...this.tabs];
+  }
+
+  remove(tabId: number) {
+    this.tabs = this.tabs.filter(tab => tab.tabId !== tabId);
+  }
+
+  createdTabIds(): number[] {
+    return this.tabs.filter(tab => tab.createdByRun).map(tab => tab.tabId);
+  }
+
+  // The tab as reported on a step result; tabs the registry has not seen yet are registered
+  describe(tabId: number): StepTab {
+    return { tabId, name: this.track(tabId).name };
+  }
+
+  private nextName(): string {
+    while (this.findByName(`tab${this.nextNumber}`)) this.nextNumber++;
+    return `tab${this.nextNumber++}`;
+  }
+}
+
+/**
+ * Picks the tab a switch_tab step means among the window's tabs: by registry name, tab strip index,
+ * title (case-insensitive substring) or URL pattern ('*' is a wildcard, otherwise a substring).
+ * Among several title or URL matches, tabs the run already knows win, then the leftmost one.
+ */
+export function findSwitchTarget(step: SwitchTabStep, windowTabs: chrome.tabs.Tab[], registry: TabRegistry): chrome.tabs.Tab | undefined {
+  if (step.name !== undefined) {
+    const entry = registry.findByName(step.name);
+    return entry ? windowTabs.find(tab => tab.id === entry.tabId) : undefined;
+  }
+  if (step.index !== undefined) return windowTabs.find(tab => tab.index === step.index);
+
+  const matches = windowTabs
+    .filter(tab => step.title !== undefined
+      ? (tab.title || '').toLowerCase().includes(step.title.toLowerCase())
+      : step.url !== undefined && matchesFrameUrl(step.url, tab.pendingUrl || tab.url || ''))
+    .sort((a, b) => a.index - b.index);
+  return matches.find(tab => tab.id !== undefined && registry.get(tab.id)) || matches[0];
+}
+
+/**
+ * Human-readable criterion of a switch_tab step, e.g. `tab titled "Invoice"`.
+ */
+export function describeSwitchTarget(step: SwitchTabStep): string {
+  if (step.name !== undefined) return `tab "${step.name}"`;
+  if (step.index !== undefined) return `tab at index ${step.index}`;
+  if (step.title !== undefined) return `tab titled "${step.title}"`;
+  return `tab with URL "${step.url}"`;
+}
+
+/**
+ * The run's open tabs for the agent prompt, one per line with the current one marked, e.g.
+ * `- main (current) - Inbox - https://mail.example.com/`. Empty while the run has a single tab;
+ * tabs closed meanwhile are dropped from the registry.
+ */
+export async function describeRunTabs(registry: TabRegistry, currentTabId: number): Promise<string> {
+  const lines: string[] = [];
+  for (const entry of registry.list()) {
+    const tab = await chrome.tabs.get(entry.tabId).catch(() => undefined);
+    if (!tab) {
+      registry.remove(entry.tabId);
+      continue;
+    }
+    lines.push(`- ${entry.name}${entry.tabId === currentTabId ? ' (current)' : ''} - ${tab.title || 'untitled'} - ${tab.url || tab.pendingUrl || 'unknown'}`);
+  }
+  return lines.length > 1 ? `Tabs (switch_tab by name):\n${lines.join('\n')}\n\n` : '';
+}
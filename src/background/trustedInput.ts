@@ -0,0 +1,182 @@
+import type { KeyChord } from '../common/types';
+import { parseKeyChord } from '../common/keys';
+import { frameOffsetsLogic } from './injectable/scriptBuilder';
+import type { RunController } from './runControl';
+
+// --- Trusted input ---
+// Real mouse and keyboard input through chrome.debugger (the DevTools protocol). Unlike the synthetic events
+// dispatched by actionCoreLogic these have isTrusted === true, so sites that ignore scripted events still react.
+// The debugger is attached for one action at a time; Chrome shows its "started debugging this browser" bar meanwhile.
+// With a run's controller, a cancel stops the sequence before its next input event.
+
+const PROTOCOL_VERSION = '1.3';
+
+export interface ViewportPoint {
+    x: number;
+    y: number;
+}
+
+// Sends one DevTools command to the attached tab
+type SendCommand = (method: string, params: object) => Promise<unknown>;
+
+async function withDebugger<T>(tabId: number, control: RunController | undefined, run: (send: SendCommand) => Promise<T>): Promise<T> {
+    const target: chrome.debugger.Debuggee = { tabId };
+    control?.throwIfCancelled();
+    try {
+        await chrome.debugger.attach(target, PROTOCOL_VERSION);
+    } catch (error) {
+        // Typically DevTools (or another extension) is already attached, or the page is a chrome:// page
+        throw new Error(`Cannot attach the debugger for trusted input: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const send: SendCommand = (method, params) => {
+        control?.throwIfCancelled();
+        return chrome.debugger.sendCommand(target, method, params);
+    };
+    try {
+        return await run(send);
+    } finally {
+        await chrome.debugger.detach(target).catch(error => console.warn(`Failed to detach the debugger from tab ${tabId}:`, error));
+    }
+}
+
+/**
+ * Converts a point in a frame's viewport to top-level viewport coordinates by adding the offsets of the
+ * iframes it is nested in. Works for cross-origin frames, since every frame reports its own children.
+ * @throws Error when the frame is not part of the tab's frame tree.
+ */
+export async function toTopLevelPoint(tabId: number, frameId: number, point: ViewportPoint): Promise<ViewportPoint> {
+    if (frameId === 0) return point;
+    const results = await chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        func: frameOffsetsLogic
+    });
+    const parents = new Map<number, { parentFrameId: number; left: number; top: number }>();
+    for (const result of results) {
+        for (const child of result.result || []) {
+            parents.set(child.frameId, { parentFrameId: result.frameId, left: child.left, top: child.top });
+        }
+    }
+
+    let { x, y } = point;
+    let current = frameId;
+    while (current !== 0) {
+        const parent = parents.get(current);
+        if (!parent) throw new Error(`Cannot find frame ${frameId} in the page for trusted input`);
+        x += parent.left;
+        y += parent.top;
+        current = parent.parentFrameId;
+    }
+    return { x, y };
+}
+
+/**
+ * Moves the mouse to the point (top-level viewport coordinates) and clicks the left button.
+ */
+export async function trustedClick(tabId: number, point: ViewportPoint, control?: RunController): Promise<void> {
+    await withDebugger(tabId, control, async send => {
+        const position = { x: Math.round(point.x), y: Math.round(point.y) };
+        await send('Input.dispatchMouseEvent', { type: 'mouseMoved', ...position });
+        await send('Input.dispatchMouseEvent', { type: 'mousePressed', ...position, button: 'left', buttons: 1, clickCount: 1 });
+        await send('Input.dispatchMouseEvent', { type: 'mouseReleased', ...position, button: 'left', buttons: 0, clickCount: 1 });
+    });
+    console.log(`Trusted click dispatched at (${Math.round(point.x)}, ${Math.round(point.y)}) in tab ${tabId}.`);
+}
+
+/**
+ * Presses the left button at one point, moves to the other in steps and releases it. Native HTML5 drags are
+ * intercepted and completed with DevTools drag events, since real ones would wait for the OS drag loop.
+ */
+export async function trustedDrag(tabId: number, from: ViewportPoint, to: ViewportPoint, control?: RunController, steps = 10): Promise<void> {
+    await withDebugger(tabId, control, async send => {
+        let dragData: unknown = null;
+        const onEvent = (source: chrome.debugger.Debuggee, method: string, params?: object) => {
+            if (source.tabId === tabId && method === 'Input.dragIntercepted') dragData = (params as { data: unknown }).data;
+        };
+        chrome.debugger.onEvent.addListener(onEvent);
+        try {
+            await send('Input.setInterceptDrags', { enabled: true });
+            const start = { x: Math.round(from.x), y: Math.round(from.y) };
+            const end = { x: Math.round(to.x), y: Math.round(to.y) };
+            await send('Input.dispatchMouseEvent', { type: 'mouseMoved', ...start });
+            await send('Input.dispatchMouseEvent', { type: 'mousePressed', ...start, button: 'left', buttons: 1, clickCount: 1 });
+            for (let i = 1; i <= steps; i++) {
+                const point = {
+                    x: Math.round(start.x + (end.x - start.x) * i / steps),
+                    y: Math.round(start.y + (end.y - start.y) * i / steps)
+                };
+                await send('Input.dispatchMouseEvent', { type: 'mouseMoved', ...point, button: 'left', buttons: 1 });
+                await new Promise(resolve => setTimeout(resolve, 16));
+            }
+            if (dragData) {
+                console.log('Native drag intercepted, completing it with drag events.');
+                for (const type of ['dragEnter', 'dragOver', 'drop']) {
+                    await send('Input.dispatchDragEvent', { type, ...end, data: dragData });
+                }
+            }
+            await send('Input.dispatchMouseEvent', { type: 'mouseReleased', ...end, button: 'left', buttons: 0, clickCount: 1 });
+        } finally {
+            chrome.debugger.onEvent.removeListener(onEvent);
+        }
+    });
+    console.log(`Trusted drag dispatched from (${Math.round(from.x)}, ${Math.round(from.y)}) to (${Math.round(to.x)}, ${Math.round(to.y)}) in tab ${tabId}.`);
+}
+
+/**
+ * Inserts the text into the focused element, replacing its selection, and presses Enter when submit is set.
+ * The caller focuses the element and selects its content first (actionCoreLogic 'focus').
+ */
+export async function trustedType(tabId: number, text: string, submit: boolean, control?: RunController): Promise<void> {
+    await withDebugger(tabId, control, async send => {
+        if (text) {
+            await send('Input.insertText', { text });
+        } else {
+            // Nothing to insert: delete the selected content instead
+            await dispatchChord(send, parseKeyChord('Backspace'));
+        }
+        if (submit) {
+            await dispatchChord(send, parseKeyChord('Enter'));
+        }
+    });
+    console.log(`Trusted typing dispatched in tab ${tabId}${submit ? ' and submitted with Enter' : ''}.`);
+}
+
+/**
+ * Presses a key or chord the given number of times, delivered to whatever has the focus in the tab.
+ */
+export async function trustedPress(tabId: number, chord: KeyChord, repeat: number, control?: RunController): Promise<void> {
+    await withDebugger(tabId, control, async send => {
+        for (let i = 0; i < repeat; i++) await dispatchChord(send, chord);
+    });
+    console.log(`Trusted key press ${chord.key} x${repeat} dispatched in tab ${tabId}.`);
+}
+
+// DevTools modifier bits, and the modifier keys themselves for the keyDown/keyUp events around a chord
+const MODIFIER_KEYS: { flag: keyof Pick<KeyChord, 'alt' | 'ctrl' | 'meta' | 'shift'>; bit: number; key: string; code: string; keyCode: number }[] = [
+    { flag: 'alt', bit: 1, key: 'Alt', code: 'AltLeft', keyCode: 18 },
+    { flag: 'ctrl', bit: 2, key: 'Control', code: 'ControlLeft', keyCode: 17 },
+    { flag: 'meta', bit: 4, key: 'Meta', code: 'MetaLeft', keyCode: 91 },
+    { flag: 'shift', bit: 8, key: 'Shift', code: 'ShiftLeft', keyCode: 16 }
+];
+
+async function dispatchChord(send: SendCommand, chord: KeyChord): Promise<void> {
+    const held = MODIFIER_KEYS.filter(modifier => chord[modifier.flag]);
+    const modifiers = held.reduce((bits, modifier) => bits | modifier.bit, 0);
+    for (const modifier of held) {
+        await send('Input.dispatchKeyEvent', {
+            type: 'rawKeyDown', key: modifier.key, code: modifier.code, windowsVirtualKeyCode: modifier.keyCode, modifiers
+        });
+    }
+    const key = { key: chord.key, code: chord.code, windowsVirtualKeyCode: chord.keyCode, modifiers };
+    // 'keyDown' with text also produces the character (keypress/input); 'rawKeyDown' only the keydown
+    await send('Input.dispatchKeyEvent', chord.text
+        ? { type: 'keyDown', ...key, text: chord.text, unmodifiedText: chord.text }
+        : { type: 'rawKeyDown', ...key });
+    await send('Input.dispatchKeyEvent', { type: 'keyUp', ...key });
+    let remaining = modifiers;
+    for (const modifier of held.reverse()) {
+        remaining &= ~modifier.bit;
+        await send('Input.dispatchKeyEvent', {
+            type: 'keyUp', key: modifier.key, code: modifier.code, windowsVirtualKeyCode: modifier.keyCode, modifiers: remaining
+        });
+    }
+}
@@ -0,0 +1,41 @@
+import { AssertionFailedError, describeAssertion, assertCount, assertAttribute, assertText, assertUrl, assertVariable } from '../assertions';
+
+describe('assertions', () => {
+  it('describes what is checked', () => {
+    expect(describeAssertion({ action: 'assert', check: 'text_present', text: 'Order placed' })).toBe('text "Order placed" is on the page');
+    expect(describeAssertion({ action: 'assert', check: 'element_count', selector: '.result', min: 1, max: 10 })).toBe('1 to 10 .result element(s)');
+    expect(describeAssertion({ action: 'assert', check: 'variable_contains', variable: 'title', value: 'Invoice' })).toBe('{{title}} contains "Invoice"');
+  });
+
+  it('inverts the text check for text_absent', () => {
+    expect(assertText({ action: 'assert', check: 'text_present', text: 'Welcome' }, true).passed).toBe(true);
+    expect(assertText({ action: 'assert', check: 'text_absent', text: 'No results' }, true)).toEqual({
+      check: 'text_absent', passed: false, expected: 'text "No results" is not on the page', actual: 'the text was found'
+    });
+  });
+
+  it('matches URLs, counts and attributes', () => {
+    expect(assertUrl({ action: 'assert', check: 'url_matches', url: '*/checkout/*' }, 'https://shop.example.com/checkout/done').passed).toBe(true);
+    expect(assertUrl({ action: 'assert', check: 'url_matches', url: '/cart' }, 'https://shop.example.com/').passed).toBe(false);
+    expect(assertCount({ action: 'assert', check: 'element_count', selector: 'li', count: 3 }, 3).passed).toBe(true);
+    expect(assertCount({ action: 'assert', check: 'element_count', selector: 'li', min: 1 }, 0).actual).toBe('0 matched');
+    const attribute = { action: 'assert' as const, check: 'attribute_equals' as const, selector: '#agree', attribute: 'aria-checked', value: 'true' };
+    expect(assertAttribute(attribute, ' true ', true).passed).toBe(true);
+    expect(assertAttribute(attribute, null, true).actual).toBe('the element has no aria-checked attribute');
+    expect(assertAttribute(attribute, undefined, false).actual).toBe('the element was not found');
+  });
+
+  it('compares variables exactly or by containment', () => {
+    const variables = { total: 42, title: 'Invoice  42 - ACME' };
+    expect(assertVariable({ action: 'assert', check: 'variable_equals', variable: 'total', value: '42' }, variables).passed).toBe(true);
+    expect(assertVariable({ action: 'assert', check: 'variable_contains', variable: 'title', value: 'invoice 42' }, variables).passed).toBe(true);
+    expect(assertVariable({ action: 'assert', check: 'variable_equals', variable: 'missing', value: 'x' }, variables).actual)
+      .toBe('there is no variable {{missing}} (available: total, title)');
+  });
+
+  it('builds the failure message from the outcome unless one is given', () => {
+    const outcome = assertCount({ action: 'assert', check: 'element_count', selector: '.result', min: 1 }, 0);
+    expect(new AssertionFailedError(outcome).message).toBe('Assertion failed: expected at least 1 .result element(s), but 0 matched');
+    expect(new AssertionFailedError(outcome, 'The search returned nothing').message).toBe('The search returned nothing');
+  });
+});
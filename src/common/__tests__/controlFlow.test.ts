@@ -0,0 +1,56 @@
+import { describeCondition, evaluateVariableCondition, getListItems, itemVariables, resolveConditionTemplates } from '../controlFlow';
+
+describe('describeCondition', () => {
+  it('describes element and variable conditions', () => {
+    expect(describeCondition({ selector: 'a.next' })).toBe('a.next is on the page');
+    expect(describeCondition({ target: 'cookie_banner', exists: false })).toBe('cookie_banner is not on the page');
+    expect(describeCondition({ variable: 'status', equals: 'paid' })).toBe('{{status}} equals "paid"');
+    expect(describeCondition({ variable: 'coupon' })).toBe('{{coupon}} is set');
+  });
+});
+
+describe('evaluateVariableCondition', () => {
+  const variables = { status: ' Paid ', count: 0, empty: '', list: [], off: false, note: 'Ships in 2 DAYS' };
+
+  it('holds for set, non-empty values', () => {
+    expect(evaluateVariableCondition({ variable: 'status' }, variables)).toBe(true);
+    expect(evaluateVariableCondition({ variable: 'count' }, variables)).toBe(true);
+    expect(['empty', 'list', 'off', 'missing'].map(variable => evaluateVariableCondition({ variable }, variables))).toEqual([false, false, false, false]);
+  });
+
+  it('compares with equals and contains', () => {
+    expect(evaluateVariableCondition({ variable: 'status', equals: 'Paid' }, variables)).toBe(true);
+    expect(evaluateVariableCondition({ variable: 'count', equals: 0 }, variables)).toBe(true);
+    expect(evaluateVariableCondition({ variable: 'note', contains: '2 days' }, variables)).toBe(true);
+    expect(evaluateVariableCondition({ variable: 'note', equals: '2 days' }, variables)).toBe(false);
+  });
+});
+
+describe('resolveConditionTemplates', () => {
+  it('resolves the selector and expected text', () => {
+    expect(resolveConditionTemplates({ selector: '{{item.selector}} .sold-out' }, { 'item.selector': '[data-bai-item="3"]' }))
+      .toEqual({ selector: '[data-bai-item="3"] .sold-out' });
+    expect(resolveConditionTemplates({ variable: 'total', equals: '{{expected}}' }, { expected: 42 })).toEqual({ variable: 'total', equals: '42' });
+  });
+});
+
+describe('getListItems', () => {
+  it('accepts lists and JSON lists', () => {
+    expect(getListItems('urls', { urls: ['a', 'b'] })).toEqual(['a', 'b']);
+    expect(getListItems('urls', { urls: '["a"]' })).toEqual(['a']);
+  });
+
+  it('rejects missing variables and other values', () => {
+    expect(() => getListItems('urls', {})).toThrow('Unknown variable "{{urls}}"');
+    expect(() => getListItems('title', { title: 'Hello' })).toThrow('{{title}} is not a list (it is "Hello")');
+  });
+});
+
+describe('itemVariables', () => {
+  it('provides the item, its index and its fields', () => {
+    expect(itemVariables('item', 'Blue shoes', 2, { selector: '[data-bai-item="4"]', url: null })).toEqual({
+      item: 'Blue shoes', 'item.selector': '[data-bai-item="4"]', 'item.url': null, 'item.index': 2
+    });
+    expect(itemVariables('row', { name: 'Ann', index: 'x' }, 0)).toEqual({ row: { name: 'Ann', index: 'x' }, 'row.name': 'Ann', 'row.index': 0 });
+  });
+});
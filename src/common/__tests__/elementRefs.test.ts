@@ -0,0 +1,13 @@
+import { resolveStepRef } from '../elementRefs';
+
+describe('resolveStepRef', () => {
+  it('turns a ref into a data-bai-ref selector, dropping other locators', () => {
+    const step = { action: 'click' as const, ref: 'e42', target: 'search_button' };
+    expect(resolveStepRef(step)).toEqual({ action: 'click', selector: '[data-bai-ref="e42"]' });
+  });
+
+  it('returns steps without a ref unchanged', () => {
+    const step = { action: 'click' as const, selector: '#go' };
+    expect(resolveStepRef(step)).toBe(step);
+  });
+});
@@ -0,0 +1,21 @@
+import { matchesFrameUrl, describeFrameLocator } from '../frames';
+
+describe('matchesFrameUrl', () => {
+  it('matches plain patterns as substrings', () => {
+    expect(matchesFrameUrl('js.stripe.com', 'https://js.stripe.com/v3/elements-inner-card.html')).toBe(true);
+    expect(matchesFrameUrl('paypal.com', 'https://js.stripe.com/v3/')).toBe(false);
+  });
+
+  it('matches patterns with "*" as globs over the whole URL', () => {
+    expect(matchesFrameUrl('https://*.example.com/embed/*', 'https://docs.example.com/embed/42')).toBe(true);
+    expect(matchesFrameUrl('https://*.example.com/embed', 'https://docs.example.com/embed/42')).toBe(false);
+    expect(matchesFrameUrl('*?id=1', 'https://example.com/frame?id=1')).toBe(true);
+  });
+});
+
+describe('describeFrameLocator', () => {
+  it('lists the given fields', () => {
+    expect(describeFrameLocator({ name: 'payment', url: 'stripe.com' })).toBe('frame name="payment" url~"stripe.com"');
+    expect(describeFrameLocator({ selector: '#editor iframe' })).toBe('frame selector="#editor iframe"');
+  });
+});
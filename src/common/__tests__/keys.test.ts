@@ -0,0 +1,35 @@
+import { parseKeyChord } from '../keys';
+
+describe('parseKeyChord', () => {
+  it('parses named keys and their aliases case-insensitively', () => {
+    expect(parseKeyChord('Escape')).toMatchObject({ key: 'Escape', code: 'Escape', keyCode: 27, ctrl: false });
+    expect(parseKeyChord('esc')).toMatchObject({ key: 'Escape' });
+    expect(parseKeyChord('pagedown')).toMatchObject({ key: 'PageDown', keyCode: 34 });
+    expect(parseKeyChord('Down')).toMatchObject({ key: 'ArrowDown', code: 'ArrowDown' });
+    expect(parseKeyChord('F5')).toMatchObject({ key: 'F5', keyCode: 116 });
+  });
+
+  it('parses chords and drops the text of shortcuts', () => {
+    const selectAll = parseKeyChord('Ctrl+A');
+    expect(selectAll).toMatchObject({ key: 'a', code: 'KeyA', keyCode: 65, ctrl: true });
+    expect(selectAll.text).toBeUndefined();
+    expect(parseKeyChord('Shift+Enter')).toMatchObject({ key: 'Enter', shift: true, text: '\r' });
+    expect(parseKeyChord('Shift+a')).toMatchObject({ key: 'A', text: 'A' });
+  });
+
+  it('maps Mod to Cmd on macOS and Ctrl elsewhere', () => {
+    expect(parseKeyChord('Mod+A', true)).toMatchObject({ meta: true, ctrl: false });
+    expect(parseKeyChord('Mod+A', false)).toMatchObject({ meta: false, ctrl: true });
+  });
+
+  it('accepts a literal plus', () => {
+    expect(parseKeyChord('+')).toMatchObject({ key: '+', text: '+' });
+    expect(parseKeyChord('Shift++')).toMatchObject({ key: '+', shift: true });
+  });
+
+  it('rejects unknown keys and modifiers', () => {
+    expect(() => parseKeyChord('Hyper+A')).toThrow('Unknown modifier "Hyper"');
+    expect(() => parseKeyChord('Ctrl+Banana')).toThrow('Unknown key "Banana"');
+    expect(() => parseKeyChord('Ctrl+')).toThrow('Unknown key ""');
+  });
+});
@@ -0,0 +1,155 @@
+import { validatePlan, validateStep, formatValidationIssues, mergeFallbackCandidate, numberSteps, flattenSteps } from '../planValidation';
+import type { PlanStep } from '../types';
+
+describe('validateStep', () => {
+  it('accepts well-formed steps', () => {
+    expect(validateStep({ action: 'navigate', url: 'https://example.com' })).toEqual([]);
+    expect(validateStep({ action: 'click', target: 'search_button', optional: true })).toEqual([]);
+    expect(validateStep({ action: 'wait', duration: 500 })).toEqual([]);
+    expect(validateStep({ action: 'select', selector: '#size', value: 'M' })).toEqual([]);
+  });
+
+  it('requires a locator for element actions', () => {
+    expect(validateStep({ action: 'click' })).toEqual(['requires either "target" or "selector"']);
+  });
+
+  it('requires a full url for navigate, unless templated', () => {
+    expect(validateStep({ action: 'navigate' })).toEqual(['requires a non-empty "url"']);
+    expect(validateStep({ action: 'navigate', url: 'example.com' })[0]).toMatch(/full URL/);
+    expect(validateStep({ action: 'navigate', url: '{{start_url}}' })).toEqual([]);
+  });
+
+  it('accepts snapshot refs as locators', () => {
+    expect(validateStep({ action: 'click', ref: 'e42' })).toEqual([]);
+    expect(validateStep({ action: 'click', ref: '42' })[0]).toMatch(/snapshot ref like "e42"/);
+  });
+
+  it('checks frame locators', () => {
+    expect(validateStep({ action: 'click', selector: '#pay', frame: { url: 'js.stripe.com' } })).toEqual([]);
+    expect(validateStep({ action: 'click', selector: '#pay', frame: {} })).toEqual(['"frame" requires a "url", "name" or "selector"']);
+    expect(validateStep({ action: 'click', selector: '#pay', frame: 'payment' })[0]).toMatch(/"frame" must be an object/);
+  });
+
+  it('checks the input driver of click and type steps', () => {
+    expect(validateStep({ action: 'click', selector: '#buy', input: 'trusted' })).toEqual([]);
+    expect(validateStep({ action: 'type', selector: '#q', text: 'x', input: 'real' })).toEqual(['"input" must be one of: synthetic, trusted']);
+  });
+
+  it('requires file names for upload steps', () => {
+    expect(validateStep({ action: 'upload', selector: 'input[type=file]', files: ['resume.pdf'] })).toEqual([]);
+    expect(validateStep({ action: 'upload', selector: '#drop', files: [] })).toEqual(['requires "files", a list of file names from the file library']);
+    expect(validateStep({ action: 'upload', files: ['a', ''] })).toEqual(['requires either "target" or "selector"', '"files" must contain only non-empty file names']);
+  });
+
+  it('requires exactly one drag destination', () => {
+    expect(validateStep({ action: 'drag', selector: '.card', to: { selector: '#done' } })).toEqual([]);
+    expect(validateStep({ action: 'drag', target: 'slider_handle', offset: { x: 40, y: 0 } })).toEqual([]);
+    expect(validateStep({ action: 'drag', selector: '.card' })[0]).toMatch(/requires either a destination "to"/);
+    expect(validateStep({ action: 'drag', selector: '.card', to: {} })).toEqual(['"to" must be an object with "target", "selector" or "ref"']);
+    expect(validateStep({ action: 'drag', selector: '.card', offset: { x: '10' } })).toEqual(['"offset" must be an object with numeric "x" and "y" (pixels)']);
+  });
+
+  it('checks the force option that skips the actionability checks', () => {
+    expect(validateStep({ action: 'click', selector: '#toggle', force: true })).toEqual([]);
+    expect(validateStep({ action: 'hover', selector: '#menu', force: 'yes' })).toEqual(['"force" must be true or false']);
+  });
+
+  it('checks the page conditions of wait steps', () => {
+    expect(validateStep({ action: 'wait', until: 'network_idle', idleMs: 800, timeout: 15000 })).toEqual([]);
+    expect(validateStep({ action: 'wait', until: 'url', url: '*/orders/*' })).toEqual([]);
+    expect(validateStep({ action: 'wait', until: 'url' })).toEqual(['requires "url", a URL substring or a pattern with \'*\'']);
+    expect(validateStep({ action: 'wait', until: 'quiet' })[0]).toMatch(/"until" must be one of: network_idle, url, route_change, dom_stable/);
+    expect(validateStep({ action: 'wait' })).toEqual(['requires either "target"/"selector", a page condition "until" or a numeric "duration"']);
+    expect(validateStep({ action: 'click', selector: '#save', settle: 'yes' })).toEqual(['"settle" must be true or false']);
+  });
+
+  it('checks the keys of press steps', () => {
+    expect(validateStep({ action: 'press', keys: 'Shift+Tab', repeat: 2 })).toEqual([]);
+    expect(validateStep({ action: 'press', keys: 'Escape', target: 'search_input' })).toEqual([]);
+    expect(validateStep({ action: 'press' })).toEqual(['requires "keys", e.g. "Escape" or "Control+A"']);
+    expect(validateStep({ action: 'press', keys: 'Ctrl+Banana' })[0]).toMatch(/Unknown key "Banana"/);
+  });
+
+  it('requires exactly one criterion for switch_tab', () => {
+    expect(validateStep({ action: 'open_tab', url: 'https://example.com/docs', name: 'docs', background: true })).toEqual([]);
+    expect(validateStep({ action: 'open_tab', url: 'example.com' })[0]).toMatch(/full URL/);
+    expect(validateStep({ action: 'switch_tab', title: 'Invoice' })).toEqual([]);
+    expect(validateStep({ action: 'switch_tab', index: 1.5 })).toEqual(['"index" must be a whole number']);
+    expect(validateStep({ action: 'switch_tab', name: 'docs', url: '*example.com*' })).toEqual(['requires exactly one of "name", "index", "title" or "url" to pick the tab']);
+    expect(validateStep({ action: 'close_tab' })).toEqual([]);
+    expect(validateStep({ action: 'close_tab', name: '' })).toEqual(['"name" must be a non-empty tab name']);
+  });
+
+  it('checks the fields each assertion needs', () => {
+    expect(validateStep({ action: 'assert', check: 'text_present', text: 'Thank you' })).toEqual([]);
+    expect(validateStep({ action: 'assert', check: 'element_count', selector: '.result', min: 1 })).toEqual([]);
+    expect(validateStep({ action: 'assert', check: 'variable_equals', variable: 'total', value: 42 })).toEqual([]);
+    expect(validateStep({ action: 'assert', check: 'looks_good' })[0]).toMatch(/"check" must be one of/);
+    expect(validateStep({ action: 'assert', check: 'element_count', selector: '.result' })).toEqual(['requires "count", "min" or "max"']);
+    expect(validateStep({ action: 'assert', check: 'attribute_equals', selector: '#agree' })).toEqual(['requires the "attribute" to check', 'requires the expected "value"']);
+    expect(validateStep({ action: 'assert', check: 'url_matches' })).toEqual(['requires "url", a URL substring or a pattern with \'*\'']);
+  });
+
+  it('checks conditions and the steps nested in control-flow steps', () => {
+    const click = { action: 'click', selector: '#next' };
+    expect(validateStep({ action: 'if', condition: { selector: '#banner' }, then: [click], else: [] })).toEqual([]);
+    expect(validateStep({ action: 'repeat_until', condition: { selector: '#next', exists: false }, steps: [click], maxIterations: 20 })).toEqual([]);
+    expect(validateStep({ action: 'for_each', selector: '.result a', steps: [click], as: 'link', collect: 'titles' })).toEqual([]);
+    expect(validateStep({ action: 'for_each', items: 'urls', steps: [{ action: 'navigate', url: '{{item}}' }] })).toEqual([]);
+    expect(validateStep({ action: 'if', condition: { variable: 'total', selector: '#x' }, then: [click] })[0]).toMatch(/either an element .* or a "variable", not both/);
+    expect(validateStep({ action: 'if', condition: { variable: 'status', equals: true }, then: [click] })).toEqual(['condition: "equals" must be a string or a number']);
+    expect(validateStep({ action: 'repeat_until', condition: { selector: '#more' }, steps: [] })).toEqual(['"steps" must be a non-empty list of steps']);
+    expect(validateStep({ action: 'for_each', steps: [click] })[0]).toMatch(/requires either an element locator/);
+    expect(validateStep({ action: 'if', condition: { target: 'cart' }, then: [click, { action: 'if', condition: { target: 'x' }, then: [{ action: 'type', selector: '#q' }] }] }))
+      .toEqual(['then step 2 (if): then step 1 (type): requires "text"']);
+  });
+
+  it('rejects unknown actions and bad common options', () => {
+    expect(validateStep({ action: 'teleport' })[0]).toMatch(/unknown action "teleport"/);
+    expect(validateStep({ action: 'refresh', retryCount: 0 })).toEqual(['"retryCount" must be at least 1']);
+  });
+});
+
+describe('validatePlan', () => {
+  it('reports plan-level and per-step issues', () => {
+    const plan = { goal: '', steps: [{ action: 'navigate', url: 'https://example.com' }, { action: 'type', target: 'search_input' }] };
+    const issues = validatePlan(plan);
+    expect(issues).toEqual([
+      { stepIndex: null, message: 'Plan requires a non-empty "goal"' },
+      { stepIndex: 1, message: 'requires "text"' }
+    ]);
+    expect(formatValidationIssues(issues, plan)).toBe('Plan requires a non-empty "goal"\nStep 2 (type): requires "text"');
+  });
+});
+
+describe('mergeFallbackCandidate', () => {
+  it('replaces the whole locator when the candidate names an element', () => {
+    const step = { action: 'click' as const, ref: 'e3', optional: true };
+    expect(mergeFallbackCandidate(step, { action: 'click', selector: '#buy' })).toEqual({ action: 'click', selector: '#buy', optional: true });
+  });
+
+  it('keeps the locator when the candidate only changes other fields', () => {
+    const step = { action: 'type' as const, selector: '#q', text: 'shoes' };
+    expect(mergeFallbackCandidate(step, { action: 'type', text: 'shoes', submit: true } as any)).toEqual({ ...step, submit: true });
+  });
+});
+
+describe('numberSteps and flattenSteps', () => {
+  const steps: PlanStep[] = [
+    { action: 'navigate', url: 'https://example.com' },
+    { action: 'if', condition: { selector: '#banner' }, then: [{ action: 'click', selector: '#accept' }], else: [{ action: 'wait', duration: 100 }] },
+    { action: 'for_each', selector: '.row', steps: [{ action: 'click', selector: '{{item.selector}}' }] }
+  ];
+
+  it('numbers nested steps depth first, after the step they are nested in', () => {
+    const numbered = numberSteps(steps, (step, id) => ({ ...step, id }));
+    expect(flattenSteps(numbered).map(step => [step.id, step.action])).toEqual([
+      [0, 'navigate'], [1, 'if'], [2, 'click'], [3, 'wait'], [4, 'for_each'], [5, 'click']
+    ]);
+    expect(numberSteps(steps.slice(2), (step, id) => ({ ...step, id }), 7).map(step => step.id)).toEqual([7]);
+  });
+
+  it('only descends into the steps it is told to', () => {
+    expect(flattenSteps(steps, step => step.action === 'if').map(step => step.action)).toEqual(['navigate', 'if', 'click', 'wait', 'for_each']);
+  });
+});
@@ -0,0 +1,66 @@
+import { applyTemplate, findPlanParameters, findTemplateVariables, resolveStepTemplates } from '../template';
+
+describe('applyTemplate', () => {
+  it('substitutes known variables', () => {
+    expect(applyTemplate('Price is {{price}} ({{ currency }})', { price: 42, currency: 'EUR' })).toBe('Price is 42 (EUR)');
+  });
+
+  it('throws on unknown variables', () => {
+    expect(() => applyTemplate('{{missing}}', { price: 1 })).toThrow('Unknown variable "{{missing}}"');
+  });
+});
+
+describe('findTemplateVariables', () => {
+  it('lists distinct names', () => {
+    expect(findTemplateVariables('{{a}} and {{b}} and {{a}}')).toEqual(['a', 'b']);
+  });
+});
+
+describe('findPlanParameters', () => {
+  it('lists referenced variables that no earlier extract step provides', () => {
+    const plan = {
+      goal: 'Look up an order',
+      steps: [
+        { action: 'navigate' as const, url: 'https://shop.example/orders/{{order_id}}' },
+        { action: 'extract' as const, selector: '.status', as: 'status' },
+        { action: 'type' as const, selector: '#note', text: '{{status}} - {{note}}' }
+      ]
+    };
+    expect(findPlanParameters(plan)).toEqual(['order_id', 'note']);
+  });
+
+  it('treats for_each items and collected lists as provided', () => {
+    const plan = {
+      goal: 'Collect prices',
+      steps: [
+        {
+          action: 'for_each' as const,
+          items: 'product_urls',
+          as: 'product',
+          collect: 'prices',
+          steps: [
+            { action: 'navigate' as const, url: '{{product.url}}' },
+            { action: 'type' as const, selector: '#qty', text: '{{quantity}}' },
+            { action: 'extract' as const, selector: '.price', as: 'price' }
+          ]
+        },
+        { action: 'type' as const, selector: '#summary', text: '{{prices}} {{product}}' }
+      ]
+    };
+    expect(findPlanParameters(plan)).toEqual(['product_urls', 'quantity', 'product']);
+  });
+});
+
+describe('resolveStepTemplates', () => {
+  it('resolves templated fields without mutating the original step', () => {
+    const step = { action: 'type' as const, selector: '#q', text: 'order {{order_id}}' };
+    const resolved = resolveStepTemplates(step, { order_id: 'A-17' });
+    expect(resolved.text).toBe('order A-17');
+    expect(step.text).toBe('order {{order_id}}');
+  });
+
+  it('returns the same object when there is nothing to resolve', () => {
+    const step = { action: 'click' as const, target: 'search_button' };
+    expect(resolveStepTemplates(step, {})).toBe(step);
+  });
+});
@@ -0,0 +1,92 @@
+import type { AssertStep, AssertionOutcome } from './types';
+import { describeLocator } from './planValidation';
+import { matchesFrameUrl } from './frames';
+import { stringifyVariable, type RunVariables } from './template';
+
+// Evaluation rules for assert steps. The page is probed in background/planExecutor.ts (handleAssert);
+// everything that only needs values is decided here.
+
+// Thrown by an assert step whose check does not hold; never retried with LLM fallback candidates
+export class AssertionFailedError extends Error {
+  outcome: AssertionOutcome;
+
+  constructor(outcome: AssertionOutcome, message?: string) {
+    super(message || `Assertion failed: expected ${outcome.expected}, but ${outcome.actual}`);
+    this.name = 'AssertionFailedError';
+    this.outcome = outcome;
+  }
+}
+
+/**
+ * Text as compared by text checks: whitespace collapsed, lower case.
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * What an assert step checks, e.g. `text "Order placed" is on the page` or `{{total}} equals "42"`.
+ */
+export function describeAssertion(step: AssertStep): string {
+  const where = describeLocator(step);
+  switch (step.check) {
+    case 'text_present': return `text "${step.text}" is ${where ? `in ${where}` : 'on the page'}`;
+    case 'text_absent': return `text "${step.text}" is not ${where ? `in ${where}` : 'on the page'}`;
+    case 'url_matches': return `URL matches "${step.url}"`;
+    case 'element_count': return `${describeCountRange(step)} ${where} element(s)`;
+    case 'attribute_equals': return `${step.attribute} of ${where} is "${step.value}"`;
+    case 'variable_equals': return `{{${step.variable}}} equals "${step.value}"`;
+    case 'variable_contains': return `{{${step.variable}}} contains "${step.value}"`;
+    default: return `check ${(step as AssertStep).check}`;
+  }
+}
+
+function describeCountRange(step: AssertStep): string {
+  if (step.count !== undefined) return `exactly ${step.count}`;
+  if (step.min !== undefined && step.max !== undefined) return `${step.min} to ${step.max}`;
+  return step.min !== undefined ? `at least ${step.min}` : `at most ${step.max}`;
+}
+
+function outcome(step: AssertStep, passed: boolean, actual: string): AssertionOutcome {
+  return { check: step.check, passed, expected: describeAssertion(step), actual };
+}
+
+export function assertText(step: AssertStep, found: boolean): AssertionOutcome {
+  const passed = step.check === 'text_absent' ? !found : found;
+  return outcome(step, passed, found ? 'the text was found' : 'the text was not found');
+}
+
+export function assertUrl(step: AssertStep, url: string | undefined): AssertionOutcome {
+  return outcome(step, !!url && matchesFrameUrl(step.url || '', url), `the URL is ${url || 'unknown'}`);
+}
+
+export function assertCount(step: AssertStep, count: number): AssertionOutcome {
+  const passed = step.count !== undefined
+    ? count === step.count
+    : (step.min === undefined || count >= step.min) && (step.max === undefined || count <= step.max);
+  return outcome(step, passed, `${count} matched`);
+}
+
+// Attribute values are compared after trimming
+export function assertAttribute(step: AssertStep, value: string | null | undefined, found: boolean): AssertionOutcome {
+  if (!found) return outcome(step, false, 'the element was not found');
+  if (value === null || value === undefined) return outcome(step, false, `the element has no ${step.attribute} attribute`);
+  return outcome(step, value.trim() === String(step.value ?? '').trim(), `it is "${value}"`);
+}
+
+/**
+ * Checks a run variable: variable_equals compares the trimmed text exactly, variable_contains
+ * looks for the value case-insensitively. Objects are compared as JSON.
+ */
+export function assertVariable(step: AssertStep, variables: RunVariables): AssertionOutcome {
+  const name = step.variable || '';
+  if (!(name in variables)) {
+    return outcome(step, false, `there is no variable {{${name}}} (available: ${Object.keys(variables).join(', ') || 'none'})`);
+  }
+  const actual = stringifyVariable(variables[name]);
+  const expected = String(step.value ?? '');
+  const passed = step.check === 'variable_contains'
+    ? normalizeText(actual).includes(normalizeText(expected))
+    : actual.trim() === expected.trim();
+  return outcome(step, passed, `it is "${actual.length > 200 ? `${actual.slice(0, 200)}...` : actual}"`);
+}
@@ -0,0 +1,85 @@
+import type { StepCondition } from './types';
+import { describeLocator } from './planValidation';
+import { normalizeText } from './assertions';
+import { applyTemplate, stringifyVariable, type RunVariables } from './template';
+
+// Rules of the control-flow steps (if, repeat_until, for_each) that only need values. Conditions on
+// elements are probed and the nested steps run in background/planExecutor.ts.
+
+export const DEFAULT_MAX_ITERATIONS = 10;
+export const DEFAULT_MAX_ITEMS = 50;
+
+/**
+ * What a condition checks, e.g. `#next is on the page` or `{{status}} equals "paid"`.
+ */
+export function describeCondition(condition: StepCondition): string {
+  if (condition.variable !== undefined) {
+    const name = `{{${condition.variable}}}`;
+    if (condition.equals !== undefined) return `${name} equals "${condition.equals}"`;
+    if (condition.contains !== undefined) return `${name} contains "${condition.contains}"`;
+    return `${name} is set`;
+  }
+  return `${describeLocator(condition)} is ${condition.exists === false ? 'not ' : ''}on the page`;
+}
+
+/**
+ * Returns a copy of the condition with {{name}} placeholders in its target, selector and expected text resolved,
+ * e.g. a selector like `{{item.selector}} .sold-out` inside a for_each step.
+ * @throws Error naming the first placeholder that has no matching variable.
+ */
+export function resolveConditionTemplates(condition: StepCondition, variables: RunVariables): StepCondition {
+  const resolved = { ...condition };
+  for (const field of ['target', 'selector', 'equals', 'contains'] as const) {
+    const raw = condition[field];
+    if (typeof raw === 'string' && raw.includes('{{')) resolved[field] = applyTemplate(raw, variables);
+  }
+  return resolved;
+}
+
+/**
+ * Evaluates a condition on a run variable. 'equals' compares the trimmed text, 'contains' looks for
+ * the text case-insensitively; without either the variable must be set to something other than
+ * '', false, null or an empty list.
+ */
+export function evaluateVariableCondition(condition: StepCondition, variables: RunVariables): boolean {
+  const name = condition.variable || '';
+  if (!(name in variables)) return false;
+  const value = variables[name];
+  const text = stringifyVariable(value);
+  if (condition.equals !== undefined) return text.trim() === String(condition.equals).trim();
+  if (condition.contains !== undefined) return normalizeText(text).includes(normalizeText(condition.contains));
+  return value !== false && text.trim() !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * The entries of the list variable a for_each step iterates over; a string holding a JSON list is parsed.
+ * @throws Error when the variable is missing or does not hold a list.
+ */
+export function getListItems(name: string, variables: RunVariables): unknown[] {
+  if (!(name in variables)) {
+    throw new Error(`Unknown variable "{{${name}}}". Available: ${Object.keys(variables).join(', ') || 'none'}`);
+  }
+  const value = variables[name];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Not JSON; reported below
+    }
+  }
+  throw new Error(`{{${name}}} is not a list (it is "${stringifyVariable(value).slice(0, 100)}")`);
+}
+
+/**
+ * The variables of one for_each item: {{name}} and {{name.index}} (from 0), plus {{name.<field>}} for
+ * each field of an object entry and each of `details` (e.g. the selector and url of an element).
+ */
+export function itemVariables(name: string, item: unknown, index: number, details: Record<string, unknown> = {}): RunVariables {
+  const fields = item && typeof item === 'object' && !Array.isArray(item) ? { ...details, ...item } : details;
+  const variables: RunVariables = { [name]: item };
+  for (const [field, value] of Object.entries(fields)) variables[`${name}.${field}`] = value;
+  variables[`${name}.index`] = index;
+  return variables;
+}
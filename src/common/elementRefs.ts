@@ -0,0 +1,31 @@
+import type { PlanStep } from './types';
+
+// Page snapshots tag each element they list with this attribute, so a `{ ref: "e42" }` locator
+// can be resolved back to the live element with a plain selector (in any frame or shadow root).
+// The injectables hardcode the same attribute name since they cannot import.
+export const REF_ATTRIBUTE = 'data-bai-ref';
+
+export const REF_PATTERN = /^e\d+$/;
+
+export function refSelector(ref: string): string {
+  return `[${REF_ATTRIBUTE}="${ref}"]`;
+}
+
+// A for_each step over elements tags the current item with this attribute (the value is the step's id),
+// which {{item.selector}} refers to. Hardcoded in listItemsLogic as well.
+export const ITEM_ATTRIBUTE = 'data-bai-item';
+
+export function itemSelector(marker: string): string {
+  return `[${ITEM_ATTRIBUTE}="${marker}"]`;
+}
+
+/**
+ * Returns a copy of the step with its `ref` replaced by the equivalent selector.
+ * Steps without a ref are returned unchanged.
+ */
+export function resolveStepRef<T extends PlanStep>(step: T): T {
+  const ref = (step as { ref?: unknown }).ref;
+  if (typeof ref !== 'string' || !ref) return step;
+  const { ref: _ref, target: _target, ...rest } = step as T & { ref?: string; target?: string };
+  return { ...rest, selector: refSelector(ref) } as unknown as T;
+}
@@ -0,0 +1,24 @@
+import type { FrameLocator } from './types';
+
+// Matching rules for frame locators; the frames themselves are inspected in background/frameTargeting.ts
+
+/**
+ * Matches a frame URL against a locator pattern: with '*' the pattern is a glob over the whole URL,
+ * otherwise it matches as a substring.
+ */
+export function matchesFrameUrl(pattern: string, url: string): boolean {
+  if (!pattern.includes('*')) return url.includes(pattern);
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(url);
+}
+
+/**
+ * Human-readable form of a frame locator, e.g. `frame name="payment" url~"stripe.com"`.
+ */
+export function describeFrameLocator(locator: FrameLocator): string {
+  const parts: string[] = [];
+  if (locator.selector) parts.push(`selector="${locator.selector}"`);
+  if (locator.name) parts.push(`name="${locator.name}"`);
+  if (locator.url) parts.push(`url~"${locator.url}"`);
+  return `frame ${parts.join(' ')}`;
+}
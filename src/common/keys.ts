@@ -0,0 +1,91 @@
+import type { KeyChord } from './types';
+
+// Parsing of key names and chords for the press action, e.g. "Escape", "PageDown", "Shift+Tab", "Control+A".
+// The same chord drives both the synthetic KeyboardEvents and trusted DevTools key events.
+
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+}
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  insert: { key: 'Insert', code: 'Insert', keyCode: 45 },
+  space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  arrowup: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  arrowdown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  arrowleft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  arrowright: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  home: { key: 'Home', code: 'Home', keyCode: 36 },
+  end: { key: 'End', code: 'End', keyCode: 35 },
+  pageup: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  pagedown: { key: 'PageDown', code: 'PageDown', keyCode: 34 }
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  return: 'enter', esc: 'escape', del: 'delete', up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright'
+};
+
+// Punctuation on a US layout: code and legacy keyCode
+const PUNCTUATION: Record<string, [string, number]> = {
+  '-': ['Minus', 189], '=': ['Equal', 187], ',': ['Comma', 188], '.': ['Period', 190], '/': ['Slash', 191],
+  ';': ['Semicolon', 186], "'": ['Quote', 222], '[': ['BracketLeft', 219], ']': ['BracketRight', 221],
+  '\\': ['Backslash', 220], '`': ['Backquote', 192]
+};
+
+type Modifier = 'ctrl' | 'shift' | 'alt' | 'meta' | 'mod';
+
+const MODIFIERS: Record<string, Modifier> = {
+  control: 'ctrl', ctrl: 'ctrl', shift: 'shift', alt: 'alt', option: 'alt',
+  meta: 'meta', cmd: 'meta', command: 'meta', mod: 'mod', controlormeta: 'mod'
+};
+
+function defineKey(name: string): KeyDefinition | null {
+  const lower = name.toLowerCase();
+  const named = NAMED_KEYS[KEY_ALIASES[lower] || lower];
+  if (named) return named;
+  const functionKey = /^f([1-9]|1[0-2])$/.exec(lower);
+  if (functionKey) return { key: name.toUpperCase(), code: name.toUpperCase(), keyCode: 111 + Number(functionKey[1]) };
+  if ([...name].length !== 1) return null;
+  if (/[a-z]/i.test(name)) return { key: lower, code: `Key${name.toUpperCase()}`, keyCode: name.toUpperCase().charCodeAt(0), text: lower };
+  if (/\d/.test(name)) return { key: name, code: `Digit${name}`, keyCode: name.charCodeAt(0), text: name };
+  const [code, keyCode] = PUNCTUATION[name] || ['', 0];
+  return { key: name, code, keyCode, text: name };
+}
+
+/**
+ * Parses a key or chord such as "Escape", "Shift+Tab", "Ctrl+A" or "Mod+Enter". Names are case-insensitive;
+ * "Mod" (or "ControlOrMeta") is Cmd on macOS and Ctrl elsewhere. A literal plus is written "+" or "Shift++".
+ * @throws Error naming the unknown key or modifier.
+ */
+export function parseKeyChord(spec: string, isMac = false): KeyChord {
+  const trimmed = spec.trim();
+  if (!trimmed) throw new Error('Key is empty');
+  const parts = trimmed === '+' || trimmed.endsWith('++') ? [...trimmed.slice(0, -2).split('+').filter(Boolean), '+'] : trimmed.split('+');
+  const keyName = parts.pop()!.trim();
+
+  const chord: KeyChord = { key: '', code: '', keyCode: 0, ctrl: false, shift: false, alt: false, meta: false };
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.trim().toLowerCase()];
+    if (!modifier) throw new Error(`Unknown modifier "${part.trim()}" in "${spec}" (use Control, Shift, Alt, Meta or Mod)`);
+    if (modifier === 'mod') chord[isMac ? 'meta' : 'ctrl'] = true;
+    else chord[modifier] = true;
+  }
+
+  const definition = defineKey(keyName);
+  if (!definition) throw new Error(`Unknown key "${keyName}" in "${spec}"`);
+  Object.assign(chord, definition);
+  // Shift changes what letters produce; a chord with Ctrl, Alt or Meta produces no text at all
+  if (chord.shift && /^[a-z]$/.test(chord.key)) {
+    chord.key = chord.key.toUpperCase();
+    chord.text = chord.key;
+  }
+  if (chord.ctrl || chord.alt || chord.meta) delete chord.text;
+  return chord;
+}
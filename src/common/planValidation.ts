@@ -0,0 +1,440 @@
+import type { AssertCheck, ElementLocator, ExecutionPlan, InputDriver, PlanAction, PlanStep, PlanValidationIssue, WaitCondition } from './types';
+import { REF_PATTERN } from './elementRefs';
+import { parseKeyChord } from './keys';
+
+// Runtime validation for plans coming from the LLM (or edited/imported by the user).
+// Every action in PlanStep needs an entry in stepValidators.
+
+type RawStep = Record<string, unknown>;
+type StepValidator = (step: RawStep) => string[];
+
+// Thrown when a plan still has issues after the repair attempts; carries the last plan for display/editing
+export class PlanValidationError extends Error {
+  issues: PlanValidationIssue[];
+  plan: ExecutionPlan | null;
+
+  constructor(message: string, issues: PlanValidationIssue[], plan: ExecutionPlan | null) {
+    super(message);
+    this.name = 'PlanValidationError';
+    this.issues = issues;
+    this.plan = plan;
+  }
+}
+
+// --- Field checks (each returns a list of problems, empty when fine) ---
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function checkString(step: RawStep, field: string, required: boolean): string[] {
+  const value = step[field];
+  if (value === undefined) return required ? [`requires "${field}"`] : [];
+  if (typeof value !== 'string') return [`"${field}" must be a string`];
+  return [];
+}
+
+function checkNumber(step: RawStep, field: string, options: { min?: number; integer?: boolean; required?: boolean } = {}): string[] {
+  const value = step[field];
+  if (value === undefined) return options.required ? [`requires a numeric "${field}"`] : [];
+  if (typeof value !== 'number' || Number.isNaN(value)) return [`"${field}" must be a number`];
+  if (options.integer && !Number.isInteger(value)) return [`"${field}" must be a whole number`];
+  if (options.min !== undefined && value < options.min) return [`"${field}" must be at least ${options.min}`];
+  return [];
+}
+
+function checkBoolean(step: RawStep, field: string): string[] {
+  const value = step[field];
+  return value === undefined || typeof value === 'boolean' ? [] : [`"${field}" must be true or false`];
+}
+
+function checkEnum(step: RawStep, field: string, allowed: readonly string[]): string[] {
+  const value = step[field];
+  if (value === undefined) return [];
+  return allowed.includes(value as string) ? [] : [`"${field}" must be one of: ${allowed.join(', ')}`];
+}
+
+function hasLocator(step: RawStep): boolean {
+  return isNonEmptyString(step.target) || isNonEmptyString(step.selector) || isNonEmptyString(step.ref);
+}
+
+function checkLocator(step: RawStep, required: boolean): string[] {
+  const problems = [...checkString(step, 'target', false), ...checkString(step, 'selector', false), ...checkString(step, 'ref', false)];
+  if (typeof step.ref === 'string' && !REF_PATTERN.test(step.ref)) problems.push(`"ref" must be a snapshot ref like "e42" (got "${step.ref}")`);
+  if (required && !hasLocator(step)) problems.push('requires either "target" or "selector"');
+  return [...problems, ...checkFrame(step)];
+}
+
+function checkFrame(step: RawStep): string[] {
+  const frame = step.frame;
+  if (frame === undefined) return [];
+  if (!frame || typeof frame !== 'object' || Array.isArray(frame)) return ['"frame" must be an object with "url", "name" or "selector"'];
+  const raw = frame as RawStep;
+  const problems = ['url', 'name', 'selector'].flatMap(field => checkString(raw, field, false).map(problem => `frame ${problem}`));
+  if (!isNonEmptyString(raw.url) && !isNonEmptyString(raw.name) && !isNonEmptyString(raw.selector)) {
+    problems.push('"frame" requires a "url", "name" or "selector"');
+  }
+  return problems;
+}
+
+function checkUrl(step: RawStep): string[] {
+  const url = step.url;
+  if (!isNonEmptyString(url)) return ['requires a non-empty "url"'];
+  if (url.includes('{{')) return []; // Resolved from run variables at execution time
+  try {
+    new URL(url);
+    return [];
+  } catch {
+    return [`"url" must be a full URL including the scheme (got "${url}")`];
+  }
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+function checkVariableName(step: RawStep, field: string): string[] {
+  const value = step[field];
+  if (value === undefined) return [];
+  return typeof value === 'string' && VARIABLE_NAME_PATTERN.test(value)
+    ? []
+    : [`"${field}" must be a variable name (letters, digits, '_', '-', '.')`];
+}
+
+function checkTabName(step: RawStep): string[] {
+  const value = step.name;
+  if (value === undefined) return [];
+  return isNonEmptyString(value) ? [] : ['"name" must be a non-empty tab name'];
+}
+
+const INPUT_DRIVERS: readonly InputDriver[] = ['synthetic', 'trusted'];
+const SWITCH_TAB_CRITERIA = ['name', 'index', 'title', 'url'];
+const WAIT_CONDITIONS: readonly WaitCondition[] = ['network_idle', 'url', 'route_change', 'dom_stable'];
+const ASSERT_CHECKS: readonly AssertCheck[] = [
+  'text_present', 'text_absent', 'url_matches', 'element_count', 'attribute_equals', 'variable_equals', 'variable_contains'
+];
+
+// A wait step waits for an element, a page condition ("until") or a fixed duration
+function checkWait(step: RawStep): string[] {
+  if (hasLocator(step)) return [...checkLocator(step, true), ...checkNumber(step, 'timeout', { min: 0 })];
+  if (step.until !== undefined) {
+    const problems = [...checkEnum(step, 'until', WAIT_CONDITIONS), ...checkNumber(step, 'timeout', { min: 0 }), ...checkNumber(step, 'idleMs', { min: 0 })];
+    if (step.until === 'url' && !isNonEmptyString(step.url)) problems.push('requires "url", a URL substring or a pattern with \'*\'');
+    return problems;
+  }
+  return step.duration === undefined
+    ? ['requires either "target"/"selector", a page condition "until" or a numeric "duration"']
+    : checkNumber(step, 'duration', { min: 0 });
+}
+
+// Fields each assert check needs besides "check"; the locator is optional for text checks
+function checkAssertion(step: RawStep): string[] {
+  if (!isNonEmptyString(step.check)) return [`requires "check", one of: ${ASSERT_CHECKS.join(', ')}`];
+  const problems = [...checkEnum(step, 'check', ASSERT_CHECKS), ...checkString(step, 'message', false)];
+  if (problems.length > 0) return problems;
+  const hasValue = typeof step.value === 'string' || typeof step.value === 'number';
+  switch (step.check) {
+    case 'text_present':
+    case 'text_absent':
+      return [...problems, ...checkLocator(step, false), ...(isNonEmptyString(step.text) ? [] : ['requires the "text" to look for'])];
+    case 'url_matches':
+      return isNonEmptyString(step.url) ? problems : [...problems, 'requires "url", a URL substring or a pattern with \'*\''];
+    case 'element_count': {
+      const counts = ['count', 'min', 'max'].flatMap(field => checkNumber(step, field, { min: 0, integer: true }));
+      if (step.count === undefined && step.min === undefined && step.max === undefined) counts.push('requires "count", "min" or "max"');
+      return [...problems, ...checkLocator(step, true), ...counts];
+    }
+    case 'attribute_equals':
+      return [
+        ...problems,
+        ...checkLocator(step, true),
+        ...(isNonEmptyString(step.attribute) ? [] : ['requires the "attribute" to check']),
+        ...(hasValue ? [] : ['requires the expected "value"'])
+      ];
+    default: // variable_equals, variable_contains
+      return [
+        ...problems,
+        ...(step.variable === undefined ? ['requires the "variable" to check'] : checkVariableName(step, 'variable')),
+        ...(hasValue ? [] : ['requires the expected "value"'])
+      ];
+  }
+}
+
+// Conditions of if and repeat_until steps: an element locator or a variable, not both
+function checkCondition(step: RawStep): string[] {
+  const condition = step.condition;
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    return ['requires a "condition" object with an element locator or a "variable"'];
+  }
+  const raw = condition as RawStep;
+  if ((raw.variable !== undefined) === hasLocator(raw)) {
+    return ['"condition" requires either an element ("target", "selector" or "ref") or a "variable", not both'];
+  }
+  const problems = raw.variable !== undefined
+    ? [
+        ...checkVariableName(raw, 'variable'),
+        ...checkString(raw, 'contains', false),
+        ...(raw.equals === undefined || typeof raw.equals === 'string' || typeof raw.equals === 'number' ? [] : ['"equals" must be a string or a number'])
+      ]
+    : [...checkLocator(raw, true), ...checkBoolean(raw, 'exists')];
+  return problems.map(problem => `condition: ${problem}`);
+}
+
+// Nested step lists of control-flow steps; problems of nested steps name the list and the step
+function checkStepList(step: RawStep, field: string, required: boolean): string[] {
+  const value = step[field];
+  if (value === undefined) return required ? [`requires "${field}", a list of steps`] : [];
+  if (!Array.isArray(value) || (required && value.length === 0)) return [`"${field}" must be a non-empty list of steps`];
+  return value.flatMap((nested, index) => {
+    const action = (nested as RawStep | null)?.action;
+    const label = `${field} step ${index + 1}${typeof action === 'string' ? ` (${action})` : ''}`;
+    return validateStep(nested).map(problem => `${label}: ${problem}`);
+  });
+}
+
+const requireActionableLocator: StepValidator = step => [...checkLocator(step, true), ...checkBoolean(step, 'force')];
+const noFields: StepValidator = () => [];
+
+const stepValidators: Record<PlanAction, StepValidator> = {
+  navigate: checkUrl,
+  type: step => [
+    ...checkLocator(step, true),
+    ...checkString(step, 'text', true),
+    ...checkBoolean(step, 'submit'),
+    ...checkEnum(step, 'input', INPUT_DRIVERS),
+    ...checkBoolean(step, 'settle'),
+    ...checkBoolean(step, 'force')
+  ],
+  click: step => [
+    ...checkLocator(step, true),
+    ...checkEnum(step, 'input', INPUT_DRIVERS),
+    ...checkBoolean(step, 'settle'),
+    ...checkBoolean(step, 'force')
+  ],
+  scroll: step => [
+    ...checkLocator(step, false),
+    ...checkEnum(step, 'direction', ['up', 'down', 'top', 'bottom']),
+    ...checkNumber(step, 'pixels', { min: 0 })
+  ],
+  wait: checkWait,
+  extract: step => [
+    ...checkLocator(step, true),
+    ...checkString(step, 'attribute', false),
+    ...checkVariableName(step, 'as'),
+    ...checkBoolean(step, 'all')
+  ],
+  select: step => {
+    const problems = [...checkLocator(step, true), ...checkBoolean(step, 'force')];
+    const hasValue = typeof step.value === 'string' || typeof step.value === 'number';
+    if (!hasValue && !isNonEmptyString(step.label)) problems.push('requires the option "value" (or "label") to choose');
+    return problems;
+  },
+  hover: requireActionableLocator,
+  clear: requireActionableLocator,
+  upload: step => {
+    const problems = checkLocator(step, true);
+    const files = step.files;
+    if (!Array.isArray(files) || files.length === 0) problems.push('requires "files", a list of file names from the file library');
+    else if (files.some(name => !isNonEmptyString(name))) problems.push('"files" must contain only non-empty file names');
+    return problems;
+  },
+  drag: step => {
+    const problems = [...checkLocator(step, true), ...checkEnum(step, 'input', INPUT_DRIVERS)];
+    const { to, offset } = step;
+    if ((to === undefined) === (offset === undefined)) {
+      return [...problems, 'requires either a destination "to" ({ target | selector | ref }) or an "offset" ({ x, y }), not both'];
+    }
+    if (to !== undefined) {
+      if (!to || typeof to !== 'object' || !hasLocator(to as RawStep)) problems.push('"to" must be an object with "target", "selector" or "ref"');
+      else problems.push(...checkLocator(to as RawStep, true).map(problem => `to: ${problem}`));
+    } else if (!offset || typeof offset !== 'object' || ['x', 'y'].some(axis => checkNumber(offset as RawStep, axis, { required: true }).length > 0)) {
+      problems.push('"offset" must be an object with numeric "x" and "y" (pixels)');
+    }
+    return problems;
+  },
+  press: step => {
+    const problems = [
+      ...checkLocator(step, false),
+      ...checkNumber(step, 'repeat', { min: 1, integer: true }),
+      ...checkEnum(step, 'input', INPUT_DRIVERS),
+      ...checkBoolean(step, 'settle'),
+      ...checkBoolean(step, 'force')
+    ];
+    if (!isNonEmptyString(step.keys)) return [...problems, 'requires "keys", e.g. "Escape" or "Control+A"'];
+    try {
+      parseKeyChord(step.keys);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+    return problems;
+  },
+  go_back: noFields,
+  go_forward: noFields,
+  refresh: noFields,
+  screenshot: step => [...checkString(step, 'filename', false), ...checkBoolean(step, 'fullPage')],
+  open_tab: step => [
+    ...(step.url === undefined ? [] : checkUrl(step)),
+    ...checkTabName(step),
+    ...checkBoolean(step, 'background')
+  ],
+  switch_tab: step => {
+    const given = SWITCH_TAB_CRITERIA.filter(field => step[field] !== undefined);
+    if (given.length !== 1) return ['requires exactly one of "name", "index", "title" or "url" to pick the tab'];
+    return [
+      ...checkTabName(step),
+      ...checkNumber(step, 'index', { min: 0, integer: true }),
+      ...checkString(step, 'title', false),
+      ...checkString(step, 'url', false)
+    ];
+  },
+  close_tab: checkTabName,
+  assert: checkAssertion,
+  if: step => [...checkCondition(step), ...checkStepList(step, 'then', true), ...checkStepList(step, 'else', false)],
+  repeat_until: step => [
+    ...checkCondition(step),
+    ...checkNumber(step, 'maxIterations', { min: 1, integer: true }),
+    ...checkVariableName(step, 'collect'),
+    ...checkStepList(step, 'steps', true)
+  ],
+  for_each: step => [
+    ...((step.items !== undefined) === hasLocator(step)
+      ? ['requires either an element locator ("target", "selector" or "ref") or "items", the name of a list variable']
+      : []),
+    ...checkLocator(step, false),
+    ...checkVariableName(step, 'items'),
+    ...checkVariableName(step, 'as'),
+    ...checkNumber(step, 'maxItems', { min: 1, integer: true }),
+    ...checkVariableName(step, 'collect'),
+    ...checkStepList(step, 'steps', true)
+  ]
+};
+
+export const SUPPORTED_ACTIONS = Object.keys(stepValidators) as PlanAction[];
+
+/**
+ * Validates a single step object. Returns a list of problems (empty if the step is valid).
+ */
+export function validateStep(step: unknown): string[] {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) return ['must be an object'];
+  const raw = step as RawStep;
+  if (typeof raw.action !== 'string') return ['requires an "action"'];
+  const validator = stepValidators[raw.action as PlanAction];
+  if (!validator) return [`unknown action "${raw.action}" (supported: ${SUPPORTED_ACTIONS.join(', ')})`];
+  return [
+    ...validator(raw),
+    ...checkBoolean(raw, 'optional'),
+    ...checkNumber(raw, 'retryCount', { min: 1, integer: true }),
+    ...checkNumber(raw, 'retryDelayMs', { min: 0 })
+  ];
+}
+
+/**
+ * Validates a whole plan. Returns all issues found; an empty array means the plan is safe to execute.
+ */
+export function validatePlan(plan: unknown): PlanValidationIssue[] {
+  if (!plan || typeof plan !== 'object') return [{ stepIndex: null, message: 'Plan must be a JSON object' }];
+  const raw = plan as Record<string, unknown>;
+  const issues: PlanValidationIssue[] = [];
+  if (!isNonEmptyString(raw.goal)) issues.push({ stepIndex: null, message: 'Plan requires a non-empty "goal"' });
+  if (!Array.isArray(raw.steps)) {
+    issues.push({ stepIndex: null, message: 'Plan requires a "steps" array' });
+    return issues;
+  }
+  if (raw.steps.length === 0) issues.push({ stepIndex: null, message: 'Plan has no steps' });
+  raw.steps.forEach((step, index) => {
+    for (const message of validateStep(step)) {
+      issues.push({ stepIndex: index, message });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Formats issues as one line each, e.g. `Step 3 (click): requires either "target" or "selector"`.
+ */
+export function formatValidationIssues(issues: PlanValidationIssue[], plan?: { steps?: unknown } | null): string {
+  const steps = Array.isArray(plan?.steps) ? plan.steps : [];
+  return issues.map(issue => {
+    if (issue.stepIndex === null) return issue.message;
+    const action = (steps[issue.stepIndex] as RawStep | undefined)?.action;
+    return `Step ${issue.stepIndex + 1}${typeof action === 'string' ? ` (${action})` : ''}: ${issue.message}`;
+  }).join('\n');
+}
+
+// --- Nested steps of control-flow steps ---
+
+export type NestedStepField = 'then' | 'else' | 'steps';
+
+/**
+ * The step lists nested in a control-flow step (then/else of if, steps of loops), empty for other steps.
+ */
+export function getNestedStepLists(step: PlanStep): { field: NestedStepField; steps: PlanStep[] }[] {
+  switch (step.action) {
+    case 'if': return [{ field: 'then' as const, steps: step.then }, ...(step.else ? [{ field: 'else' as const, steps: step.else }] : [])];
+    case 'repeat_until':
+    case 'for_each': return [{ field: 'steps', steps: step.steps }];
+    default: return [];
+  }
+}
+
+/**
+ * Gives every step an id in depth-first order, a control-flow step before the steps nested in it.
+ * These are the ids steps are reported under while running. `decorate` returns a copy of the step with
+ * its id (and e.g. a description); the copy's nested lists are replaced with their decorated steps.
+ */
+export function numberSteps<T extends PlanStep>(steps: PlanStep[], decorate: (step: PlanStep, id: number) => T, firstId = 0): T[] {
+  let nextId = firstId;
+  const visit = (step: PlanStep): T => {
+    const numbered = decorate(step, nextId++);
+    for (const { field, steps: nested } of getNestedStepLists(step)) {
+      (numbered as unknown as Record<string, unknown>)[field] = nested.map(visit);
+    }
+    return numbered;
+  };
+  return steps.map(visit);
+}
+
+/**
+ * All steps in depth-first (id) order. Nested lists are included for the steps `descend` accepts.
+ */
+export function flattenSteps<T extends PlanStep>(steps: T[], descend: (step: T) => boolean = () => true): T[] {
+  return steps.flatMap(step => [
+    step,
+    ...(descend(step) ? getNestedStepLists(step).flatMap(({ steps: nested }) => flattenSteps(nested as T[], descend)) : [])
+  ]);
+}
+
+/**
+ * Returns the element locator of a step, or null for actions that don't target an element.
+ */
+export function getStepLocator(step: PlanStep): ElementLocator | null {
+  return 'target' in step || 'selector' in step || 'ref' in step ? step as ElementLocator : null;
+}
+
+/**
+ * Human-readable form of a locator: the target, selector or snapshot ref.
+ */
+export function describeLocator(locator: ElementLocator): string | undefined {
+  return locator.target || locator.selector || (locator.ref ? `ref ${locator.ref}` : undefined);
+}
+
+/**
+ * Merges a fallback candidate over the failed step. A candidate that names its own element
+ * replaces the step's locator entirely, so e.g. a new selector isn't overridden by an old ref.
+ */
+export function mergeFallbackCandidate<T extends PlanStep>(step: T, candidate: PlanStep): T {
+  const candidateLocator = getStepLocator(candidate);
+  if (!candidateLocator || !describeLocator(candidateLocator)) return { ...step, ...candidate } as T;
+  const { target: _target, selector: _selector, ref: _ref, ...rest } = step as T & ElementLocator;
+  return { ...rest, ...candidate } as T;
+}
+
+/**
+ * Short description of what a step acts on (target, selector, url or duration), for logs and prompts.
+ */
+export function describeStepSubject(step: PlanStep): string | undefined {
+  const locator = getStepLocator(step);
+  const locatorText = locator && describeLocator(locator);
+  if (locatorText) return locatorText;
+  if (step.action === 'navigate') return step.url;
+  if (step.action === 'wait' && step.duration !== undefined) return `${step.duration}ms`;
+  return undefined;
+}
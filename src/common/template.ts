@@ -0,0 +1,90 @@
+import type { ExecutionPlan, PlanStep } from './types';
+import { getNestedStepLists } from './planValidation';
+
+// Matches {{name}} placeholders; names may contain letters, digits, '_', '-' and '.'
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Step fields that may reference run variables
+export const TEMPLATED_FIELDS = ['text', 'url', 'selector', 'value'] as const;
+
+type TemplatedField = (typeof TEMPLATED_FIELDS)[number];
+
+export type RunVariables = Record<string, unknown>;
+
+// Variable holding the current item of a for_each step that does not name it with 'as'
+export const DEFAULT_ITEM_NAME = 'item';
+
+/**
+ * Lists the distinct variable names referenced by {{name}} placeholders in a string.
+ */
+export function findTemplateVariables(input: string): string[] {
+  const names = new Set<string>();
+  for (const match of input.matchAll(TEMPLATE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Lists the variables a plan needs from outside: {{name}} references (and for_each 'items' lists)
+ * that no earlier step provides. Extract steps provide their 'as' name and loops their 'collect'
+ * name; inside a for_each step its item and the item's fields ({{item.url}}, ...) are provided.
+ * These are the parameters of a saved recipe.
+ */
+export function findPlanParameters(plan: ExecutionPlan): string[] {
+  const provided = new Set<string>();
+  const parameters = new Set<string>();
+  const addParameters = (names: string[], items: string[]) => names
+    .filter(name => !provided.has(name) && !items.some(item => name === item || name.startsWith(`${item}.`)))
+    .forEach(name => parameters.add(name));
+  const visit = (step: PlanStep, items: string[]) => {
+    for (const field of TEMPLATED_FIELDS) {
+      const raw = (step as Partial<Record<TemplatedField, unknown>>)[field];
+      if (typeof raw === 'string') addParameters(findTemplateVariables(raw), items);
+    }
+    if (step.action === 'for_each' && step.items) addParameters([step.items], items);
+    const nestedItems = step.action === 'for_each' ? [...items, step.as || DEFAULT_ITEM_NAME] : items;
+    getNestedStepLists(step).forEach(({ steps }) => steps.forEach(nested => visit(nested, nestedItems)));
+    if (step.action === 'extract' && step.as) provided.add(step.as);
+    if ((step.action === 'repeat_until' || step.action === 'for_each') && step.collect) provided.add(step.collect);
+  };
+  plan.steps.forEach(step => visit(step, []));
+  return [...parameters];
+}
+
+/**
+ * A variable's value as it appears in a template: objects as JSON, null and undefined as ''.
+ */
+export function stringifyVariable(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Replaces {{name}} placeholders with values from `variables`.
+ * @throws Error naming the first placeholder that has no matching variable.
+ */
+export function applyTemplate(input: string, variables: RunVariables): string {
+  return input.replace(TEMPLATE_PATTERN, (_placeholder, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown variable "{{${name}}}". Available: ${Object.keys(variables).join(', ') || 'none'}`);
+    }
+    return stringifyVariable(variables[name]);
+  });
+}
+
+/**
+ * Returns a copy of the step with templates in its text/url/selector/value fields resolved.
+ * Steps without placeholders are returned unchanged.
+ */
+export function resolveStepTemplates<T extends PlanStep>(step: T, variables: RunVariables): T {
+  let resolved = step;
+  for (const field of TEMPLATED_FIELDS) {
+    const raw = (step as Partial<Record<TemplatedField, unknown>>)[field];
+    if (typeof raw === 'string' && raw.includes('{{')) {
+      if (resolved === step) resolved = { ...step };
+      (resolved as Partial<Record<TemplatedField, unknown>>)[field] = applyTemplate(raw, variables);
+    }
+  }
+  return resolved;
+}
@@ -5,19 +5,336 @@ export type RootNode = Document | ShadowRoot;
 // HeuristicsMap type (the actual heuristics object will be in heuristics.ts)
 export type HeuristicsMap = { [key: string]: string[] };
 
-// Re-export ExecutionPlan and PlanStep from ../utils/llm for convenience
-// Add new actions here
-export type { ExecutionPlan } from '../utils/llm';
-export interface PlanStep {
-  action: 'navigate' | 'type' | 'click' | 'scroll' | 'wait' | 'extract' | 
-          'select' | 'hover' | 'clear' | 'go_back' | 'go_forward' | 'refresh' | 'screenshot'; 
-  [key: string]: any; 
+// --- Plan step types ---
+// Each action has its own step shape; PlanStep is the discriminated union of all of them.
+// Add new actions here, then add a validator in planValidation.ts and a handler in planExecutor.ts
+
+// Options accepted by every step
+export interface StepOptions {
+    optional?: boolean;     // Failure does not stop the plan (and skips LLM troubleshooting)
+    retryCount?: number;    // Attempts before troubleshooting (default MAX_STEP_RETRIES)
+    retryDelayMs?: number;  // Base delay between attempts (linear back-off)
+}
+
+// Picks the frame a step runs in (see background/frameTargeting.ts). Every given field must match
+// exactly one frame; without a frame locator all frames are tried and the first success wins.
+export interface FrameLocator {
+    url?: string;      // Frame URL; '*' is a wildcard, otherwise matched as a substring
+    name?: string;     // The frame's window name (the <iframe name> attribute)
+    selector?: string; // CSS selector of the <iframe> element, in its parent frame
+}
+
+// Identifies the element a step acts on: a semantic target resolved via heuristics, a CSS selector,
+// or a ref id from a page snapshot (see elementRefs.ts)
+export interface ElementLocator {
+    target?: string;
+    selector?: string;
+    ref?: string; // e.g. "e42"; takes precedence over target/selector
+    frame?: FrameLocator;
+}
+
+// How click and type steps deliver input: synthetic DOM events from an injected script, or trusted
+// mouse/keyboard input through the DevTools protocol (see background/trustedInput.ts)
+export type InputDriver = 'synthetic' | 'trusted';
+
+export interface InputOptions {
+    input?: InputDriver; // Overrides the driver chosen in Settings for this step
+}
+
+// Before acting, element steps wait until their element is visible, enabled, in view and, for clicks and hovers,
+// stable and not covered by another element (see actionabilityLogic in background/injectable/scriptBuilder.ts)
+export interface ActionabilityOptions {
+    force?: boolean; // Skips these checks, e.g. for an element a transparent overlay deliberately covers
+}
+
+// Clicks, submits and Enter presses may start loading data or a route change; afterwards the executor waits
+// for the page to settle (see background/pageActivity.ts) when automatic waiting is on in Settings
+export interface SettleOptions {
+    settle?: boolean; // Overrides the Settings choice for this step
+}
+
+export interface NavigateStep extends StepOptions { action: 'navigate'; url: string; }
+export interface TypeStep extends StepOptions, ElementLocator, InputOptions, SettleOptions, ActionabilityOptions { action: 'type'; text: string; submit?: boolean; }
+export interface ClickStep extends StepOptions, ElementLocator, InputOptions, SettleOptions, ActionabilityOptions { action: 'click'; }
+export interface ScrollStep extends StepOptions, ElementLocator {
+    action: 'scroll';
+    direction?: 'up' | 'down' | 'top' | 'bottom';
+    pixels?: number;
+}
+// Page conditions a wait step can wait for instead of an element: no requests in flight, a URL,
+// a URL change since the previous step started (navigation, pushState or hash), or no DOM changes
+export type WaitCondition = 'network_idle' | 'url' | 'route_change' | 'dom_stable';
+
+export interface WaitStep extends StepOptions, ElementLocator {
+    action: 'wait';
+    timeout?: number;   // For element and condition waits
+    duration?: number;  // Fixed wait in ms when no element is given
+    until?: WaitCondition;
+    url?: string;       // For until 'url': '*' is a wildcard, otherwise matched as a substring
+    idleMs?: number;    // For network_idle and dom_stable: how long the page must stay quiet
+}
+export interface ExtractStep extends StepOptions, ElementLocator {
+    action: 'extract';
+    attribute?: string;
+    as?: string;        // Variable name for later {{as}} references
+    all?: boolean;      // Extract from every visible match into a list (e.g. for a for_each step)
+}
+export interface SelectStep extends StepOptions, ElementLocator, ActionabilityOptions {
+    action: 'select';
+    value?: string | number; // Option value or visible label
+    label?: string;          // Explicit label alias for value
+}
+export interface HoverStep extends StepOptions, ElementLocator, ActionabilityOptions { action: 'hover'; }
+export interface ClearStep extends StepOptions, ElementLocator, ActionabilityOptions { action: 'clear'; }
+export interface PressStep extends StepOptions, ElementLocator, InputOptions, SettleOptions, ActionabilityOptions {
+    action: 'press';
+    keys: string;       // A key or chord, e.g. "Escape", "ArrowDown", "Shift+Enter", "Mod+A" (Cmd on macOS, else Ctrl)
+    repeat?: number;    // Times to press it (default 1)
+}
+// Attaches files from the file library (by name) to a file input, or drops them on a drop zone
+export interface UploadStep extends StepOptions, ElementLocator {
+    action: 'upload';
+    files: string[];
+}
+// Drags the located element to another element ('to') or by a pixel offset from its centre ('offset')
+export interface DragStep extends StepOptions, ElementLocator, InputOptions {
+    action: 'drag';
+    to?: Omit<ElementLocator, 'frame'>; // Searched in the source element's frame
+    offset?: { x: number; y: number };
+}
+export interface GoBackStep extends StepOptions { action: 'go_back'; }
+export interface GoForwardStep extends StepOptions { action: 'go_forward'; }
+export interface RefreshStep extends StepOptions { action: 'refresh'; }
+export interface ScreenshotStep extends StepOptions { action: 'screenshot'; filename?: string; fullPage?: boolean; }
+// Tabs are tracked per run (see background/tabRegistry.ts); the first tab is named "main"
+export interface OpenTabStep extends StepOptions {
+    action: 'open_tab';
+    url?: string;           // Page to open (default: a new tab page)
+    name?: string;          // Name later steps use to switch to or close the tab
+    background?: boolean;   // Open without making it the current tab
+}
+// Exactly one of name, index, title or url picks the tab
+export interface SwitchTabStep extends StepOptions {
+    action: 'switch_tab';
+    name?: string;          // A tab named by open_tab, or "main"
+    index?: number;         // Position in the window's tab strip, from 0
+    title?: string;         // Case-insensitive part of the title
+    url?: string;           // URL pattern; '*' is a wildcard, otherwise a substring
+}
+export interface CloseTabStep extends StepOptions {
+    action: 'close_tab';
+    name?: string;          // Default: the current tab
+}
+// Checks the page or the run's variables and fails the step when the check does not hold (see common/assertions.ts).
+// Text checks look in the located element(s), or the whole page without a locator.
+export type AssertCheck =
+    | 'text_present' | 'text_absent' | 'url_matches' | 'element_count'
+    | 'attribute_equals' | 'variable_equals' | 'variable_contains';
+export interface AssertStep extends StepOptions, ElementLocator {
+    action: 'assert';
+    check: AssertCheck;
+    text?: string;              // text_present, text_absent (case-insensitive, whitespace collapsed)
+    url?: string;               // url_matches: '*' is a wildcard over the whole URL, otherwise a substring
+    count?: number;             // element_count: exact number of visible matches
+    min?: number;               // element_count: at least
+    max?: number;               // element_count: at most
+    attribute?: string;         // attribute_equals
+    value?: string | number;    // attribute_equals, variable_equals, variable_contains
+    variable?: string;          // variable_equals, variable_contains: name without braces
+    message?: string;           // Reported instead of the generated message when the check fails
+}
+
+
+// --- Control flow (see common/controlFlow.ts) ---
+// Control-flow steps hold nested step lists, which may nest further. Every nested step gets its own
+// id when the plan is formatted (depth first), and loops report the latest iteration under those ids.
+
+// Holds when the located element is on the page (or, with exists: false, when it is not), or
+// when the run variable is set and not empty; 'equals' and 'contains' compare its text instead
+export interface StepCondition extends ElementLocator {
+    exists?: boolean;           // Default true
+    variable?: string;          // Name without braces; used instead of a locator
+    equals?: string | number;   // Trimmed text comparison
+    contains?: string;          // Case-insensitive
+}
+export interface IfStep extends StepOptions {
+    action: 'if';
+    condition: StepCondition;
+    then: PlanStep[];
+    else?: PlanStep[];
+}
+// Runs 'steps' until the condition holds, checking it before each iteration; fails if it still
+// does not hold after maxIterations
+export interface RepeatUntilStep extends StepOptions {
+    action: 'repeat_until';
+    condition: StepCondition;
+    steps: PlanStep[];
+    maxIterations?: number;     // Default 10
+    collect?: string;           // Variable receiving one entry per iteration with the values extracted in it
+}
+// Runs 'steps' once per visible element matched by the locator, or per entry of the list in 'items'.
+// The current item is {{item}} (its text, or the list entry), with {{item.index}} from 0; elements
+// also provide {{item.selector}} (a selector for that element) and {{item.url}} (its link, if any).
+export interface ForEachStep extends StepOptions, ElementLocator {
+    action: 'for_each';
+    items?: string;             // Variable holding a list, instead of a locator
+    as?: string;                // Name of the item variable (default "item")
+    steps: PlanStep[];
+    maxItems?: number;          // Default 50
+    collect?: string;           // As for repeat_until
+}
+
+export type PlanStep =
+    | NavigateStep | TypeStep | ClickStep | ScrollStep | WaitStep | ExtractStep
+    | SelectStep | HoverStep | ClearStep | PressStep | UploadStep | DragStep | GoBackStep | GoForwardStep | RefreshStep | ScreenshotStep
+    | OpenTabStep | SwitchTabStep | CloseTabStep | AssertStep
+    | IfStep | RepeatUntilStep | ForEachStep;
+
+export type PlanAction = PlanStep['action'];
+
+// A library file as handed to the upload injectable
+export interface UploadFile {
+    name: string;
+    type: string;
+    dataUrl: string;
+    lastModified: number;
+}
+
+// A parsed key or chord for the press action (see common/keys.ts); key/code/keyCode follow KeyboardEvent
+export interface KeyChord {
+    key: string;
+    code: string;
+    keyCode: number;
+    text?: string;      // Character the key produces, if any
+    ctrl: boolean;
+    shift: boolean;
+    alt: boolean;
+    meta: boolean;
+}
+
+// Narrows PlanStep to the member for a given action
+export type StepOfAction<A extends PlanAction> = Extract<PlanStep, { action: A }>;
+
+// The structure of a full plan
+export interface ExecutionPlan {
+    goal: string;
+    steps: PlanStep[];
+}
+
+// --- Page snapshots (compact accessibility view of the page, see pageSnapshot.ts) ---
+
+export interface SnapshotNode {
+    ref: string; // Stable id; the element carries it as data-bai-ref until it is removed from the DOM
+    role: string;
+    name: string; // Accessible name
+    value?: string;
+    states: string[]; // e.g. "disabled", "checked", "expanded", "focused", "offscreen"
+    level?: number; // Heading level
+    frame?: string; // Same-origin iframe the element is in, if any
+}
+
+export interface PageSnapshot {
+    url: string;
+    title: string;
+    nodes: SnapshotNode[];
+    truncated: boolean; // More elements existed than were included
+    text: string; // Start of the page's visible text
+}
+
+// How an agent run ended, by the model's own account
+export type AgentOutcome = 'achieved' | 'impossible';
+
+// One decision of the observe-act agent loop: the model's next action(s) and why
+export interface AgentDecision {
+    reasoning: string;
+    done: boolean; // The model stops acting; outcome says whether the goal was met
+    outcome?: AgentOutcome; // Set when done
+    summary?: string; // The model's description of the outcome when done
+    actions: PlanStep[];
+}
+
+// A problem found by validatePlan; stepIndex is null for plan-level problems
+export interface PlanValidationIssue {
+    stepIndex: number | null;
+    message: string;
+}
+
+// A screenshot captured by a 'screenshot' step, kept with the step's result for the run
+export interface ScreenshotCapture {
+    filename: string;   // Download filename (from the step's 'filename' or generated)
+    dataUrl: string;    // PNG data URL
+    fullPage: boolean;  // Whether the page was scrolled and stitched
+    url?: string;       // Page URL at capture time
+    capturedAt: number; // Epoch ms
+}
+
+// --- Popup and consent banner dismissal ---
+
+// What to do with a cookie/consent banner; 'close' dismisses it without making a choice where possible
+export type ConsentChoice = 'accept' | 'reject' | 'close';
+
+// Buttons of a known consent manager, tried according to the site's ConsentChoice
+export interface ConsentRecogniser {
+    name: string;
+    detect: string[]; // Selectors of the banner container; one must be visible for the recogniser to apply
+    accept: string[];
+    reject: string[];
+    close: string[];
+}
+
+// A banner or overlay dismissed automatically after navigation, shown in the panel as a synthetic step
+export interface DismissedOverlay {
+    kind: 'consent' | 'overlay';
+    provider?: string; // Consent manager name, when recognised
+    method: ConsentChoice | 'escape'; // Which button was used, or 'escape' when the overlay closed on Escape
+    label: string; // Text or aria-label of the button that was clicked
+    url?: string; // Frame the banner was in
+}
+
+// The frame a step acted in; frameId 0 is the top-level document
+export interface StepFrame {
+    frameId: number;
+    url?: string;
+}
+
+// The tab a step ran in, with its name in the run's tab registry
+export interface StepTab {
+    tabId: number;
+    name: string;
+}
+
+// Why a step (or, on the final result, the run) failed
+export type FailureReason = 'error' | 'assertion_failed' | 'goal_not_met' | 'cancelled';
+
+// What an assert step checked, with the expected and actual values in words
+export interface AssertionOutcome {
+    check: AssertCheck;
+    passed: boolean;
+    expected: string;
+    actual: string;
+}
+
+// The model's judgement of the final page state against the plan's goal
+export interface GoalVerification {
+    achieved: boolean;
+    explanation: string;
 }
 
 // Shared type for step execution results, including fallback info
 export interface StepResult {
     success: boolean;
     error?: string; // Error message for the original step or last fallback attempt
+    cancelled?: boolean; // The user cancelled the run while this step (or the run) was in progress
+    screenshot?: ScreenshotCapture; // Set for successful screenshot steps
+    extracted?: { name: string; value: unknown }; // Set for successful extract steps ('as' name or generated)
+    dismissed?: DismissedOverlay[]; // Banners and overlays dismissed after the step navigated
+    frame?: StepFrame; // Frame the step's element was found in
+    tab?: StepTab; // Tab the step ran in; for tab actions, the tab that is current afterwards
+    failureReason?: FailureReason; // Set when success is false
+    assertion?: AssertionOutcome; // Set for assert steps, passed or not
+    verification?: GoalVerification; // Set on the final result of a run whose goal was verified
+    branch?: 'then' | 'else'; // if steps: the branch that ran (absent when the condition failed and there is no else)
+    iterations?: number; // repeat_until and for_each steps: iterations started
     fallback?: { // Information about the fallback attempt
         suggestionText?: string; // Raw suggestion text (might be added later)
         step: PlanStep;         // The fallback step object that was attempted
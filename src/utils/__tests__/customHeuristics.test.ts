@@ -0,0 +1,65 @@
+import {
+  createHeuristicsEntry, describeCustomTargets, exportCustomHeuristics, matchesDomainPattern,
+  mergeCustomHeuristics, parseHeuristicsImport
+} from '../customHeuristics';
+
+describe('matchesDomainPattern', () => {
+  it('matches a domain and its subdomains', () => {
+    expect(matchesDomainPattern('example.com', 'example.com')).toBe(true);
+    expect(matchesDomainPattern('www.example.com', 'app.example.com')).toBe(true);
+    expect(matchesDomainPattern('example.com', 'notexample.com')).toBe(false);
+  });
+
+  it('supports wildcards', () => {
+    expect(matchesDomainPattern('*.corp.local', 'wiki.corp.local')).toBe(true);
+    expect(matchesDomainPattern('*.corp.local', 'corp.local')).toBe(true);
+    expect(matchesDomainPattern('intranet-*.example.com', 'intranet-eu.example.com')).toBe(true);
+    expect(matchesDomainPattern('intranet-*.example.com', 'shop.example.com')).toBe(false);
+  });
+});
+
+describe('mergeCustomHeuristics', () => {
+  const base = { search_input: ['input[name="q"]'] };
+  const entries = [
+    createHeuristicsEntry({ target: 'search_input', selectors: ['#global-search'] }),
+    createHeuristicsEntry({ target: 'search_input', selectors: ['#corp-search'], domainPattern: 'corp.example.com' }),
+    createHeuristicsEntry({ target: 'invoice_field', selectors: ['#invoice'], domainPattern: 'corp.example.com', replace: true }),
+    createHeuristicsEntry({ target: 'disabled_target', selectors: ['#off'], enabled: false })
+  ];
+
+  it('puts domain-scoped selectors before global and built-in ones', () => {
+    const merged = mergeCustomHeuristics(base, entries, 'corp.example.com');
+    expect(merged.search_input).toEqual(['#corp-search', '#global-search', 'input[name="q"]']);
+    expect(merged.invoice_field).toEqual(['#invoice']);
+    expect(merged.disabled_target).toBeUndefined();
+  });
+
+  it('applies only global entries elsewhere', () => {
+    const merged = mergeCustomHeuristics(base, entries, null);
+    expect(merged.search_input).toEqual(['#global-search', 'input[name="q"]']);
+    expect(merged.invoice_field).toBeUndefined();
+    expect(base.search_input).toEqual(['input[name="q"]']);
+  });
+
+  it('replaces less specific selectors when asked to', () => {
+    const replacing = [createHeuristicsEntry({ target: 'search_input', selectors: ['#only'], replace: true })];
+    expect(mergeCustomHeuristics(base, replacing, 'example.com').search_input).toEqual(['#only']);
+  });
+
+  it('describes the targets for the planner', () => {
+    expect(describeCustomTargets(entries)).toEqual(['search_input', 'invoice_field (on corp.example.com)']);
+  });
+});
+
+describe('heuristics import', () => {
+  it('round-trips exported entries', () => {
+    const entries = [createHeuristicsEntry({ target: 'login_button', selectors: ['#login'], domainPattern: 'example.com' })];
+    expect(parseHeuristicsImport(exportCustomHeuristics(entries))).toEqual(entries);
+  });
+
+  it('rejects invalid entries', () => {
+    expect(() => parseHeuristicsImport('{"heuristics": [{"target": "x", "selectors": []}]}')).toThrow('At least one selector');
+    expect(() => parseHeuristicsImport('[{"target": "x", "selectors": ["a"], "domainPattern": "https://example.com"}]')).toThrow('without a scheme');
+    expect(() => parseHeuristicsImport('{}')).toThrow('"heuristics" array');
+  });
+});
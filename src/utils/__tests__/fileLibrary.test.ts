@@ -0,0 +1,36 @@
+import { addLibraryFile, findLibraryFiles, formatFileSize, type LibraryFile } from '../fileLibrary';
+
+const file = (name: string): LibraryFile => ({
+  id: `id-${name}`, name, type: 'text/plain', size: 3, dataUrl: 'data:text/plain;base64,YWJj', lastModified: 0, addedAt: 0
+});
+
+describe('findLibraryFiles', () => {
+  const library = [file('resume.pdf'), file('Photo.JPG'), file('photo.jpg')];
+
+  it('returns files in the requested order, preferring exact names', () => {
+    expect(findLibraryFiles(library, ['photo.jpg', 'resume.pdf']).map(found => found.id)).toEqual(['id-photo.jpg', 'id-resume.pdf']);
+    expect(findLibraryFiles(library, ['RESUME.pdf'])[0].id).toBe('id-resume.pdf');
+  });
+
+  it('names the missing and the available files', () => {
+    expect(() => findLibraryFiles(library, ['cv.docx'])).toThrow('File not in the file library: cv.docx (available: resume.pdf, Photo.JPG, photo.jpg)');
+    expect(() => findLibraryFiles([], ['a', 'b'])).toThrow('Files not in the file library: a, b (available: none)');
+  });
+});
+
+describe('addLibraryFile', () => {
+  it('replaces a file with the same name', () => {
+    const { id: _id, addedAt: _addedAt, ...fields } = file('Resume.pdf');
+    const updated = addLibraryFile([file('resume.pdf'), file('other.txt')], fields, 42);
+    expect(updated.map(entry => entry.name)).toEqual(['other.txt', 'Resume.pdf']);
+    expect(updated[1].addedAt).toBe(42);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
@@ -0,0 +1,108 @@
+import { getNextAgentDecision, getTroubleshootingSuggestion, verifyGoal, MAX_AGENT_ACTIONS } from '../llm';
+import { completeWithProvider, LLMProviderError } from '../llmProviders';
+import { DEFAULT_LLM_SETTINGS } from '../llmSettings';
+
+jest.mock('../llmProviders', () => ({
+  ...jest.requireActual('../llmProviders'),
+  completeWithProvider: jest.fn()
+}));
+
+const mockComplete = completeWithProvider as jest.Mock;
+const settings = { ...DEFAULT_LLM_SETTINGS, apiKey: 'sk-test' };
+
+describe('getNextAgentDecision', () => {
+  beforeEach(() => {
+    mockComplete.mockReset();
+  });
+
+  it('returns the next actions, capped per decision', async () => {
+    const actions = Array.from({ length: MAX_AGENT_ACTIONS + 2 }, () => ({ action: 'click', selector: '#next' }));
+    mockComplete.mockResolvedValue(JSON.stringify({ reasoning: 'Go to the next page', done: false, actions }));
+
+    const decision = await getNextAgentDecision(settings, 'Browse', [], 'URL: https://example.com');
+    expect(decision.reasoning).toBe('Go to the next page');
+    expect(decision.actions).toHaveLength(MAX_AGENT_ACTIONS);
+  });
+
+  it('sends invalid actions back to the model for repair', async () => {
+    mockComplete
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'Click', done: false, actions: [{ action: 'click' }] }))
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'Done', done: true, outcome: 'achieved', summary: 'Found it', actions: [] }));
+
+    const decision = await getNextAgentDecision(settings, 'Find it', [], 'URL: https://example.com');
+    expect(decision).toEqual({ reasoning: 'Done', done: true, outcome: 'achieved', summary: 'Found it', actions: [] });
+    const repairMessages = mockComplete.mock.calls[1][1].messages;
+    expect(repairMessages[repairMessages.length - 1].content).toContain('Action 1: requires either "target" or "selector"');
+  });
+
+  it('requires an outcome when the model is done', async () => {
+    mockComplete
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'No results', done: true, summary: 'Nothing matches', actions: [] }))
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'No results', done: true, outcome: 'impossible', summary: 'Nothing matches', actions: [] }));
+
+    const decision = await getNextAgentDecision(settings, 'Find it', [], 'URL: https://example.com');
+    expect(decision.outcome).toBe('impossible');
+    expect(mockComplete.mock.calls[1][1].messages.at(-1).content).toContain('When "done" is true, "outcome" must be one of: achieved, impossible');
+  });
+
+  it('does not accept control-flow steps as agent actions', async () => {
+    const loop = { action: 'for_each', selector: '.result', steps: [{ action: 'click', selector: '{{item.selector}}' }] };
+    mockComplete
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'Open each result', done: false, actions: [loop] }))
+      .mockResolvedValueOnce(JSON.stringify({ reasoning: 'Open the first result', done: false, actions: [{ action: 'click', selector: '.result' }] }));
+
+    const decision = await getNextAgentDecision(settings, 'Open the results', [], 'URL: https://example.com');
+    expect(decision.actions).toEqual([{ action: 'click', selector: '.result' }]);
+    expect(mockComplete.mock.calls[1][1].messages.at(-1).content).toContain('Action 1: "for_each" is not available in agent mode');
+  });
+});
+
+describe('verifyGoal', () => {
+  beforeEach(() => {
+    mockComplete.mockReset();
+  });
+
+  it('returns the verdict with the steps and final page in the prompt', async () => {
+    mockComplete.mockResolvedValue('{ "achieved": false, "explanation": "The page says No results found." }');
+
+    const verdict = await verifyGoal(settings, 'Find red shoes', [{ description: 'Type "red shoes"', success: true }], 'URL: https://shop.example.com/search');
+    expect(verdict).toEqual({ achieved: false, explanation: 'The page says No results found.' });
+    expect(mockComplete.mock.calls[0][1].messages[0].content).toContain('1. Type "red shoes" -> OK');
+  });
+
+  it('rejects a response without a verdict', async () => {
+    mockComplete.mockResolvedValue('{ "explanation": "Looks fine" }');
+    await expect(verifyGoal(settings, 'Find it', [], 'URL: https://example.com')).rejects.toThrow('did not return a goal verification');
+  });
+});
+
+describe('getTroubleshootingSuggestion', () => {
+  beforeEach(() => {
+    mockComplete.mockReset();
+  });
+
+  it('returns the candidates, also when wrapped in an object', async () => {
+    mockComplete.mockResolvedValue('```json\n{ "candidates": [{ "action": "click", "selector": "#buy" }, "nonsense"] }\n```');
+    await expect(getTroubleshootingSuggestion(settings, 'Step failed')).resolves.toEqual([{ action: 'click', selector: '#buy' }]);
+  });
+
+  it('returns no candidates for JSON that holds no list of steps', async () => {
+    mockComplete.mockResolvedValue('null');
+    await expect(getTroubleshootingSuggestion(settings, 'Step failed')).resolves.toEqual([]);
+  });
+
+  it('repeats the request as text only when the model rejects the screenshot', async () => {
+    mockComplete
+      .mockRejectedValueOnce(new LLMProviderError('OpenAI API error: Invalid content type. image_url is only supported by certain models.', 400))
+      .mockResolvedValueOnce('[{ "action": "click", "selector": "#buy" }]');
+    await expect(getTroubleshootingSuggestion(settings, 'Step failed', 'data:image/jpeg;base64,AAAA')).resolves.toEqual([{ action: 'click', selector: '#buy' }]);
+    expect(mockComplete).toHaveBeenCalledTimes(2);
+    expect(mockComplete.mock.calls[1][1].messages[0].content).toContain('The screenshot could not be sent to this model.');
+  });
+
+  it('does not repeat the request for other failures', async () => {
+    mockComplete.mockRejectedValueOnce(new LLMProviderError('OpenAI API error: Rate limit reached', 429));
+    await expect(getTroubleshootingSuggestion(settings, 'Step failed', 'data:image/jpeg;base64,AAAA')).rejects.toThrow('Rate limit reached');
+    expect(mockComplete).toHaveBeenCalledTimes(1);
+  });
+});
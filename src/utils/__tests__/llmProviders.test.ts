@@ -0,0 +1,89 @@
+import { completeWithProvider, fitToTokenBudget, isImageRejection, LLMProviderError, parseJsonFromText } from '../llmProviders';
+import { loadLLMSettings, getSettingsProblem, DEFAULT_LLM_SETTINGS } from '../llmSettings';
+
+describe('parseJsonFromText', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonFromText('{"goal":"x","steps":[]}')).toEqual({ goal: 'x', steps: [] });
+  });
+
+  it('parses JSON inside a markdown fence', () => {
+    expect(parseJsonFromText('Here you go:\n```json\n[{"action":"click"}]\n```')).toEqual([{ action: 'click' }]);
+  });
+
+  it('parses JSON surrounded by prose', () => {
+    expect(parseJsonFromText('Sure! {"goal":"x","steps":[]} Hope this helps.')).toEqual({ goal: 'x', steps: [] });
+  });
+
+  it('throws when there is no JSON', () => {
+    expect(() => parseJsonFromText('no json here')).toThrow();
+  });
+});
+
+describe('loadLLMSettings', () => {
+  it('falls back to the legacy OpenAI key and default role settings', async () => {
+    global.chrome = { storage: { local: { get: jest.fn().mockResolvedValue({ openai_api_key: 'sk-legacy' }) } } } as any;
+    const settings = await loadLLMSettings();
+    expect(settings.provider).toBe('openai');
+    expect(settings.apiKey).toBe('sk-legacy');
+    expect(settings.planning).toEqual(DEFAULT_LLM_SETTINGS.planning);
+  });
+});
+
+describe('getSettingsProblem', () => {
+  it('does not require an API key for OpenAI-compatible servers', () => {
+    const settings = { ...DEFAULT_LLM_SETTINGS, provider: 'openai_compatible' as const, baseUrl: 'http://localhost:11434/v1' };
+    expect(getSettingsProblem(settings)).toBeNull();
+  });
+
+  it('requires an API key for hosted providers', () => {
+    expect(getSettingsProblem({ ...DEFAULT_LLM_SETTINGS, provider: 'anthropic' })).toMatch(/Anthropic API Key/);
+  });
+});
+
+describe('fitToTokenBudget', () => {
+  it('keeps text that fits and marks text that was cut', () => {
+    expect(fitToTokenBudget('short', 10)).toBe('short');
+    const cut = fitToTokenBudget('x'.repeat(100), 5);
+    expect(cut.startsWith('x'.repeat(20))).toBe(true);
+    expect(cut).toContain('truncated');
+    expect(fitToTokenBudget('anything', 0)).toBe('');
+  });
+});
+
+describe('image content', () => {
+  afterEach(() => {
+    (global as any).fetch = undefined;
+  });
+
+  it('sends screenshots to Anthropic as base64 image blocks', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ content: [{ type: 'text', text: '[]' }] }) });
+    (global as any).fetch = fetchMock;
+    const settings = { ...DEFAULT_LLM_SETTINGS, provider: 'anthropic' as const, apiKey: 'key' };
+
+    await completeWithProvider(settings, {
+      role: 'troubleshooting',
+      system: 'sys',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Why?' }, { type: 'image', dataUrl: 'data:image/jpeg;base64,AAAA' }] }]
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content[1]).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' } });
+  });
+
+  it('tells image rejections apart from other provider errors', async () => {
+    const settings = { ...DEFAULT_LLM_SETTINGS, provider: 'anthropic' as const, apiKey: 'key' };
+    const request = { role: 'troubleshooting' as const, system: 'sys', messages: [{ role: 'user' as const, content: 'Why?' }] };
+    const failWith = (status: number, message: string) => {
+      (global as any).fetch = jest.fn().mockResolvedValue({ ok: false, status, statusText: '', json: async () => ({ error: { message } }) });
+      return completeWithProvider(settings, request).catch(error => error);
+    };
+
+    const rejected = await failWith(400, 'messages.0.content.1.image: this model does not support image input');
+    expect(rejected).toBeInstanceOf(LLMProviderError);
+    expect(rejected.status).toBe(400);
+    expect(isImageRejection(rejected)).toBe(true);
+    expect(isImageRejection(await failWith(401, 'invalid x-api-key'))).toBe(false);
+    expect(isImageRejection(await failWith(400, 'max_tokens: must be at most 8192'))).toBe(false);
+    expect(isImageRejection(new Error('Failed to fetch'))).toBe(false);
+  });
+});
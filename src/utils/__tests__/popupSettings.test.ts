@@ -0,0 +1,27 @@
+import { DEFAULT_POPUP_SETTINGS, getPopupAction, type PopupSettings } from '../popupSettings';
+
+describe('getPopupAction', () => {
+  const settings: PopupSettings = {
+    enabled: true,
+    defaultAction: 'reject',
+    sites: [
+      { site: 'example.com', action: 'accept' },
+      { site: 'shop.example.com', action: 'off' }
+    ]
+  };
+
+  it('uses the most specific matching site rule', () => {
+    expect(getPopupAction(settings, 'example.com')).toBe('accept');
+    expect(getPopupAction(settings, 'news.example.com')).toBe('accept');
+    expect(getPopupAction(settings, 'shop.example.com')).toBe('off');
+  });
+
+  it('falls back to the default action', () => {
+    expect(getPopupAction(settings, 'other.org')).toBe('reject');
+    expect(getPopupAction(DEFAULT_POPUP_SETTINGS, 'other.org')).toBe('reject');
+  });
+
+  it('does nothing when dismissal is disabled', () => {
+    expect(getPopupAction({ ...settings, enabled: false }, 'example.com')).toBe('off');
+  });
+});
@@ -0,0 +1,43 @@
+import { createRecipe, exportRecipes, parseRecipeImport } from '../recipes';
+
+const plan = {
+  goal: 'Search the shop',
+  steps: [
+    { action: 'navigate' as const, url: 'https://shop.example/search?q={{query}}' },
+    { action: 'click' as const, selector: '.result:first-child' }
+  ]
+};
+
+describe('createRecipe', () => {
+  it('derives parameters from the plan', () => {
+    const recipe = createRecipe('  Shop search ', plan);
+    expect(recipe.name).toBe('Shop search');
+    expect(recipe.parameters).toEqual([{ name: 'query', defaultValue: undefined }]);
+  });
+
+  it('keeps the id and defaults of an existing recipe', () => {
+    const original = { ...createRecipe('Shop search', plan), parameters: [{ name: 'query', defaultValue: 'socks' }] };
+    const updated = createRecipe('Shop search v2', plan, original);
+    expect(updated.id).toBe(original.id);
+    expect(updated.parameters).toEqual([{ name: 'query', defaultValue: 'socks' }]);
+  });
+});
+
+describe('parseRecipeImport', () => {
+  it('round-trips exported recipes', () => {
+    const recipe = createRecipe('Shop search', plan);
+    const [imported] = parseRecipeImport(exportRecipes([recipe]));
+    expect(imported.id).toBe(recipe.id);
+    expect(imported.plan).toEqual(plan);
+    expect(imported.parameters.map(param => param.name)).toEqual(['query']);
+  });
+
+  it('rejects recipes with invalid plans', () => {
+    const file = JSON.stringify({ recipes: [{ name: 'Broken', plan: { goal: 'x', steps: [{ action: 'click' }] } }] });
+    expect(() => parseRecipeImport(file)).toThrow('Recipe "Broken" has an invalid plan');
+  });
+
+  it('rejects files without recipes', () => {
+    expect(() => parseRecipeImport('{"foo": 1}')).toThrow('"recipes" array');
+  });
+});
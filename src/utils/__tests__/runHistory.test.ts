@@ -0,0 +1,36 @@
+import { applyRetention, type RunRecord } from '../runHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+function run(id: string, ageDays: number): RunRecord {
+  const finishedAt = NOW - ageDays * DAY_MS;
+  return {
+    id,
+    plan: { goal: 'Test', steps: [{ action: 'refresh' }] },
+    stepDescriptions: ['Refresh page'],
+    startedAt: finishedAt - 1000,
+    finishedAt,
+    status: 'success',
+    steps: [],
+    variables: {}
+  };
+}
+
+describe('applyRetention', () => {
+  const runs = [run('a', 0), run('b', 2), run('c', 10)];
+
+  it('keeps only the newest maxRuns runs', () => {
+    const kept = applyRetention(runs, { maxRuns: 2, maxAgeDays: 0, keepScreenshots: false }, NOW);
+    expect(kept.map(r => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('drops runs older than maxAgeDays', () => {
+    const kept = applyRetention(runs, { maxRuns: 10, maxAgeDays: 5, keepScreenshots: false }, NOW);
+    expect(kept.map(r => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps nothing when history is disabled', () => {
+    expect(applyRetention(runs, { maxRuns: 0, maxAgeDays: 0, keepScreenshots: false }, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  applySelectorOutcome, getLearnedSelectors, getSiteKey, mergeLearnedHeuristics, type LearnedSelector
+} from '../selectorMemory';
+
+function entry(selector: string, overrides: Partial<LearnedSelector> = {}): LearnedSelector {
+  return {
+    id: selector,
+    site: 'example.com',
+    target: 'search_input',
+    selector,
+    successCount: 1,
+    failureCount: 0,
+    pinned: false,
+    createdAt: 0,
+    lastUsedAt: 0,
+    ...overrides
+  };
+}
+
+describe('getSiteKey', () => {
+  it('uses the host name without www', () => {
+    expect(getSiteKey('https://www.Example.com/search?q=1')).toBe('example.com');
+    expect(getSiteKey('http://shop.example.com')).toBe('shop.example.com');
+  });
+
+  it('ignores non-web pages', () => {
+    expect(getSiteKey('chrome://extensions')).toBeNull();
+    expect(getSiteKey('not a url')).toBeNull();
+    expect(getSiteKey(undefined)).toBeNull();
+  });
+});
+
+describe('applySelectorOutcome', () => {
+  it('learns a selector on its first success and counts later outcomes', () => {
+    let entries = applySelectorOutcome([], 'example.com', 'search_input', '#q', true, 10);
+    expect(entries).toHaveLength(1);
+    entries = applySelectorOutcome(entries, 'example.com', 'search_input', '#q', false, 20);
+    expect(entries[0]).toMatchObject({ successCount: 1, failureCount: 1, lastUsedAt: 20 });
+  });
+
+  it('does not create entries for failures', () => {
+    const entries: LearnedSelector[] = [];
+    expect(applySelectorOutcome(entries, 'example.com', 'search_input', '#q', false)).toBe(entries);
+  });
+});
+
+describe('learned selector ranking', () => {
+  const entries = [
+    entry('#weak', { successCount: 1 }),
+    entry('#strong', { successCount: 5 }),
+    entry('#pinned', { pinned: true, successCount: 0, failureCount: 10 }),
+    entry('#stale', { successCount: 1, failureCount: 4 }),
+    entry('#other-site', { site: 'other.com' })
+  ];
+
+  it('orders pinned first, then by net successes, and drops stale selectors', () => {
+    expect(getLearnedSelectors(entries, 'example.com', 'search_input').map(e => e.selector))
+      .toEqual(['#pinned', '#strong', '#weak']);
+  });
+
+  it('puts learned selectors ahead of the built-in heuristics for the site only', () => {
+    const base = { search_input: ['#weak', 'input[name="q"]'], search_button: ['button'] };
+    const merged = mergeLearnedHeuristics(base, entries, 'example.com');
+    expect(merged.search_input).toEqual(['#pinned', '#strong', '#weak', 'input[name="q"]']);
+    expect(merged.search_button).toEqual(['button']);
+    expect(mergeLearnedHeuristics(base, entries, 'unknown.com')).toEqual(base);
+  });
+});
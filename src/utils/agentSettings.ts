@@ -0,0 +1,21 @@
+// Limits for the observe-act agent loop (see background/agentLoop.ts)
+export interface AgentSettings {
+  maxSteps: number; // Actions executed before the run is stopped
+  maxModelCalls: number; // Decisions requested from the model before the run is stopped
+}
+
+export const AGENT_SETTINGS_KEY = 'agent_settings';
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  maxSteps: 25,
+  maxModelCalls: 15
+};
+
+export async function loadAgentSettings(): Promise<AgentSettings> {
+  const stored = await chrome.storage.local.get(AGENT_SETTINGS_KEY);
+  return { ...DEFAULT_AGENT_SETTINGS, ...(stored?.[AGENT_SETTINGS_KEY] || {}) };
+}
+
+export async function saveAgentSettings(settings: AgentSettings): Promise<void> {
+  await chrome.storage.local.set({ [AGENT_SETTINGS_KEY]: settings });
+}
@@ -0,0 +1,148 @@
+import type { HeuristicsMap } from '../common/types';
+
+// User-defined semantic targets and selectors, edited in Settings. Each entry is either global or
+// scoped to a domain pattern, and either adds selectors ahead of the built-in ones or replaces them.
+// For a given site the injectables see: learned selectors, then domain-scoped, global and built-in ones.
+
+export interface HeuristicsEntry {
+  id: string;
+  target: string; // Semantic target name, e.g. "invoice_number_field"
+  selectors: string[]; // Tried in order; the repo's ':contains("text")' form is supported
+  domainPattern: string; // Empty for global; "example.com" also matches subdomains; '*' is a wildcard
+  replace: boolean; // Drop the selectors of less specific sources (global entries, built-ins) for this target
+  enabled: boolean;
+}
+
+export const CUSTOM_HEURISTICS_KEY = 'custom_heuristics';
+const EXPORT_FORMAT = 'better-ai-agent/heuristics';
+const EXPORT_VERSION = 1;
+
+const TARGET_PATTERN = /^[A-Za-z][\w-]*$/;
+
+function normalizeHost(value: string): string {
+  return value.trim().toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * True when the site (host name without "www.") matches the pattern. Plain patterns match the domain
+ * and its subdomains; patterns with '*' are matched as globs against the whole host name.
+ */
+export function matchesDomainPattern(pattern: string, site: string): boolean {
+  const normalized = normalizeHost(pattern);
+  const host = normalizeHost(site);
+  if (!normalized) return true;
+  if (!normalized.includes('*')) return host === normalized || host.endsWith(`.${normalized}`);
+  const regex = new RegExp(`^${normalized.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  // "*.example.com" also covers example.com itself
+  return regex.test(host) || (normalized.startsWith('*.') && host === normalized.slice(2));
+}
+
+/**
+ * Returns a copy of the heuristics map with the enabled user entries applied for the site.
+ * Domain-scoped selectors come before global ones, which come before the built-in ones.
+ * With site null (not a web page) only global entries apply.
+ */
+export function mergeCustomHeuristics(base: HeuristicsMap, entries: HeuristicsEntry[], site: string | null): HeuristicsMap {
+  const merged: HeuristicsMap = { ...base };
+  const applicable = entries.filter(entry => entry.enabled && entry.target && entry.selectors.length > 0);
+  const globalEntries = applicable.filter(entry => !entry.domainPattern.trim());
+  const domainEntries = site
+    ? applicable.filter(entry => entry.domainPattern.trim() && matchesDomainPattern(entry.domainPattern, site))
+    : [];
+
+  // Global entries first so domain-scoped ones end up in front of them
+  for (const entry of [...globalEntries, ...domainEntries]) {
+    const previous = entry.replace ? [] : merged[entry.target] || [];
+    merged[entry.target] = [...entry.selectors, ...previous.filter(selector => !entry.selectors.includes(selector))];
+  }
+  return merged;
+}
+
+/**
+ * Names of the enabled user targets for the planner prompt; domain-scoped ones say where they apply.
+ */
+export function describeCustomTargets(entries: HeuristicsEntry[]): string[] {
+  const scopes = new Map<string, Set<string>>();
+  for (const entry of entries.filter(entry => entry.enabled && entry.target)) {
+    const targetScopes = scopes.get(entry.target) || new Set<string>();
+    targetScopes.add(entry.domainPattern.trim());
+    scopes.set(entry.target, targetScopes);
+  }
+  return [...scopes.entries()].map(([target, targetScopes]) =>
+    targetScopes.has('') ? target : `${target} (on ${[...targetScopes].join(', ')})`);
+}
+
+/**
+ * Problems with an entry, as messages suitable for the editor; empty when the entry is usable.
+ */
+export function validateHeuristicsEntry(entry: Partial<HeuristicsEntry>): string[] {
+  const problems: string[] = [];
+  if (typeof entry.target !== 'string' || !TARGET_PATTERN.test(entry.target)) {
+    problems.push('Target must start with a letter and contain only letters, digits, "_" or "-"');
+  }
+  if (!Array.isArray(entry.selectors) || entry.selectors.length === 0) {
+    problems.push('At least one selector is required');
+  } else if (entry.selectors.some(selector => typeof selector !== 'string' || !selector.trim())) {
+    problems.push('Selectors must be non-empty strings');
+  }
+  if (entry.domainPattern !== undefined && typeof entry.domainPattern !== 'string') {
+    problems.push('Domain pattern must be a string');
+  } else if (entry.domainPattern && /[\s/:]/.test(entry.domainPattern.trim())) {
+    problems.push('Domain pattern must be a host name such as "example.com" or "*.example.com", without a scheme or path');
+  }
+  return problems;
+}
+
+export function createHeuristicsEntry(fields: Partial<HeuristicsEntry> = {}): HeuristicsEntry {
+  return {
+    id: fields.id || `heur-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    target: (fields.target || '').trim(),
+    selectors: (fields.selectors || []).map(selector => selector.trim()).filter(Boolean),
+    domainPattern: (fields.domainPattern || '').trim(),
+    replace: !!fields.replace,
+    enabled: fields.enabled ?? true
+  };
+}
+
+export async function loadCustomHeuristics(): Promise<HeuristicsEntry[]> {
+  const stored = await chrome.storage.local.get(CUSTOM_HEURISTICS_KEY);
+  const entries = stored?.[CUSTOM_HEURISTICS_KEY];
+  return Array.isArray(entries) ? entries : [];
+}
+
+export async function saveCustomHeuristics(entries: HeuristicsEntry[]): Promise<void> {
+  await chrome.storage.local.set({ [CUSTOM_HEURISTICS_KEY]: entries });
+}
+
+export function exportCustomHeuristics(entries: HeuristicsEntry[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, heuristics: entries }, null, 2);
+}
+
+/**
+ * Parses an exported heuristics file (or a bare array of entries).
+ * @throws Error describing the first invalid entry.
+ */
+export function parseHeuristicsImport(text: string): HeuristicsEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Heuristics file is not valid JSON');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>).heuristics)
+      ? (data as Record<string, unknown>).heuristics as unknown[]
+      : null;
+  if (!list) throw new Error('Heuristics file must contain a "heuristics" array');
+
+  return list.map((item, index) => {
+    const raw = (item && typeof item === 'object' ? item : {}) as Partial<HeuristicsEntry>;
+    const problems = validateHeuristicsEntry(raw);
+    if (problems.length > 0) {
+      const label = typeof raw.target === 'string' && raw.target ? `"${raw.target}"` : `#${index + 1}`;
+      throw new Error(`Heuristics entry ${label}: ${problems.join('; ')}`);
+    }
+    return createHeuristicsEntry(raw);
+  });
+}
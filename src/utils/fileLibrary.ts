@@ -0,0 +1,58 @@
+// Files the user keeps in the extension for upload steps, which reference them by name (see handleUpload).
+// Stored as data URLs in chrome.storage.local (the extension has the unlimitedStorage permission).
+
+export interface LibraryFile {
+  id: string;
+  name: string; // Unique within the library; what plans refer to
+  type: string; // MIME type, '' when the browser did not know it
+  size: number; // Bytes
+  dataUrl: string;
+  lastModified: number;
+  addedAt: number;
+}
+
+export const FILE_LIBRARY_KEY = 'file_library';
+export const MAX_LIBRARY_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Looks up files by name (case-insensitive, exact names preferred), in the order given.
+ * @throws Error listing the names that are not in the library, and the names that are.
+ */
+export function findLibraryFiles(library: LibraryFile[], names: string[]): LibraryFile[] {
+  const missing: string[] = [];
+  const found = names.flatMap(name => {
+    const file = library.find(candidate => candidate.name === name)
+      || library.find(candidate => candidate.name.toLowerCase() === name.trim().toLowerCase());
+    if (!file) missing.push(name);
+    return file ? [file] : [];
+  });
+  if (missing.length > 0) {
+    const available = library.map(file => file.name).join(', ') || 'none';
+    throw new Error(`File${missing.length === 1 ? '' : 's'} not in the file library: ${missing.join(', ')} (available: ${available})`);
+  }
+  return found;
+}
+
+/**
+ * Adds the file to the library, replacing any file with the same name.
+ */
+export function addLibraryFile(library: LibraryFile[], file: Omit<LibraryFile, 'id' | 'addedAt'>, now = Date.now()): LibraryFile[] {
+  const entry: LibraryFile = { ...file, id: `file-${now}-${Math.random().toString(36).slice(2, 8)}`, addedAt: now };
+  return [...library.filter(existing => existing.name.toLowerCase() !== file.name.toLowerCase()), entry];
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function loadFileLibrary(): Promise<LibraryFile[]> {
+  const stored = await chrome.storage.local.get(FILE_LIBRARY_KEY);
+  const files = stored?.[FILE_LIBRARY_KEY];
+  return Array.isArray(files) ? files : [];
+}
+
+export async function saveFileLibrary(files: LibraryFile[]): Promise<void> {
+  await chrome.storage.local.set({ [FILE_LIBRARY_KEY]: files });
+}
@@ -0,0 +1,21 @@
+import type { InputDriver } from '../common/types';
+
+// Default input driver for click and type steps (see background/trustedInput.ts); steps can override it with "input"
+export interface InputSettings {
+  driver: InputDriver;
+}
+
+export const INPUT_SETTINGS_KEY = 'input_settings';
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  driver: 'synthetic'
+};
+
+export async function loadInputSettings(): Promise<InputSettings> {
+  const stored = await chrome.storage.local.get(INPUT_SETTINGS_KEY);
+  return { ...DEFAULT_INPUT_SETTINGS, ...(stored?.[INPUT_SETTINGS_KEY] || {}) };
+}
+
+export async function saveInputSettings(settings: InputSettings): Promise<void> {
+  await chrome.storage.local.set({ [INPUT_SETTINGS_KEY]: settings });
+}
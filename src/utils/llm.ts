@@ -1,53 +1,109 @@
-import OpenAI from 'openai';
+import { getSettingsProblem, type LLMSettings } from './llmSettings';
+import { completeWithProvider, isImageRejection, parseJsonFromText, type ChatMessage, type ContentPart } from './llmProviders';
 
-// Define the expected structure of the plan steps
-export interface PlanStep {
-  action: 'navigate' | 'type' | 'click' | 'scroll' | 'wait' | 'extract' | 'select' | 'hover' | 'clear' | 'go_back' | 'go_forward' | 'refresh' | 'screenshot'; // Extend as needed
-  [key: string]: any; // Allow other properties like url, selector, text, etc.
-}
-
-// Define the structure of the full plan
-export interface ExecutionPlan {
-  goal: string;
-  steps: PlanStep[];
-}
+import type { AgentDecision, AgentOutcome, ExecutionPlan, GoalVerification, PlanStep, PlanValidationIssue } from '../common/types';
+import { validatePlan, validateStep, formatValidationIssues, PlanValidationError } from '../common/planValidation';
 
-const SYSTEM_PROMPT = `
-You are an expert web automation assistant. Given a natural language instruction, 
-create a precise JSON plan consisting of a sequence of steps to accomplish the goal.
+// Plan types live in common/types; re-exported here for existing importers
+export type { ExecutionPlan, PlanStep };
 
+// Actions, variables and targeting rules; shared by the upfront planner and the agent loop
+const ACTION_REFERENCE = `
 Supported actions are:
 - navigate: { action: "navigate", url: "<full_url>" }
 - type: { action: "type", target: "<semantic_target>", text: "<text_to_type>", submit?: <true|false>, optional?: true } OR { action: "type", selector: "<css_selector>", text: "<text_to_type>", submit?: <true|false>, optional?: true }
 - click: { action: "click", target: "<semantic_target>", optional?: true } OR { action: "click", selector: "<css_selector>", optional?: true }
+  // type and click accept input?: "trusted" to use real mouse/keyboard input, for sites that ignore scripted events.
+  // Only add it when a previous attempt had no effect; submit: true then presses a real Enter key.
+  // Element actions wait until their element is visible, enabled, in view, not moving and not covered by another element.
+  // If a step fails because another element covers it, first close that element (e.g. click its close button); add force: true
+  // to skip the checks only when the covering element is meant to be there.
 - scroll: { action: "scroll", direction?: "<up|down|top|bottom>", selector?: "<css_selector>" | target?: "<semantic_target>", pixels?: <number> }
   // Scrolls the window or a specific element.
   // Use direction+pixels for relative scrolls (e.g., { direction: "down", pixels: 500 }).
   // Use direction without pixels for edges (e.g., { direction: "bottom" }).
   // Use selector/target to scroll that specific element into view OR scroll within it.
-- wait: { action: "wait", target: "<semantic_target>", timeout?: <milliseconds>, optional?: true } OR { action: "wait", selector: "<css_selector>", timeout?: <milliseconds>, optional?: true } OR { action: "wait", duration: <milliseconds> }
-- extract: { action: "extract", target: "<semantic_target>" | selector: "<css_selector>", attribute?: "<attribute_name>" }
+- wait: { action: "wait", target: "<semantic_target>", timeout?: <milliseconds>, optional?: true } OR { action: "wait", selector: "<css_selector>", timeout?: <milliseconds>, optional?: true } OR { action: "wait", until: "<network_idle|url|route_change|dom_stable>", url?: "<url_pattern>", timeout?: <milliseconds> } OR { action: "wait", duration: <milliseconds> }
+  // until waits for a page condition: no network requests in flight, the URL matching url ('*' is a wildcard, otherwise a substring),
+  // the URL changing since the previous step (also client-side route changes in single-page apps), or the page content to stop changing.
+  // Clicks, submits and navigations already wait for the page to settle; add settle: false to a click, type or press step to skip that.
+- extract: { action: "extract", target: "<semantic_target>" | selector: "<css_selector>", attribute?: "<attribute_name>", as?: "<variable_name>" }
   // Extracts text content or a specific attribute value from an element.
   // Defaults to text content if 'attribute' is omitted.
-  // Example: { action: "extract", target: "product_price", attribute: "data-price" }
-  // The extracted data will be logged by the extension for now.
-- select: { action: "select", target: "<semantic_target>" | selector: "<css_selector>", value: "<option_value>" }
+  // Use 'as' to name the value so later steps can reference it as {{variable_name}}.
+  // Add all: true to extract from every matching element into a list.
+  // Example: { action: "extract", target: "product_price", attribute: "data-price", as: "price" }
+  // All extracted values are shown to the user as a results table.
+- select: { action: "select", target: "<semantic_target>" | selector: "<css_selector>", value: "<option_value_or_label>" }
   // Selects an option from a <select> dropdown element.
-  // 'value' should be the 'value' attribute of the <option> to select.
+  // 'value' may be either the 'value' attribute of the <option> or its visible label text.
 - hover: { action: "hover", target: "<semantic_target>" | selector: "<css_selector>" }
   // Simulates hovering the mouse cursor over an element.
   // Useful for triggering menus or tooltips that appear on hover.
 - clear: { action: "clear", target: "<semantic_target>" | selector: "<css_selector>" }
   // Clears the value of an input or textarea element.
+- upload: { action: "upload", target: "<semantic_target>" | selector: "<css_selector>", files: ["<file_name>", ...] }
+  // Attaches files from the user's file library to a file input (it may be hidden) or drops them on a drop zone.
+  // Only use file names listed as available; if none are listed, do not plan uploads.
+- drag: { action: "drag", target: "<semantic_target>" | selector: "<css_selector>", to: { target: "<semantic_target>" } | { selector: "<css_selector>" } } OR { action: "drag", selector: "<css_selector>", offset: { x: <pixels>, y: <pixels> } }
+  // Drags an element onto another element (cards between columns, items in sortable lists)
+  // or by a pixel offset from its centre (sliders, resizers). Add input: "trusted" if the page ignores the drag.
+- press: { action: "press", keys: "<key_or_chord>", target?: "<semantic_target>" | selector?: "<css_selector>", repeat?: <number> }
+  // Presses a key or chord, e.g. "Escape", "Tab", "Shift+Tab", "ArrowDown", "PageDown", "Shift+Enter", "Mod+A" (Cmd on macOS, Ctrl elsewhere).
+  // With a target/selector that element is focused first; otherwise the key goes to whatever has focus.
+  // Use it for menus, autocomplete suggestions (ArrowDown then Enter) and dialogs that only react to the keyboard.
 - go_back: { action: "go_back" }
   // Navigates the browser back to the previous page in history.
 - go_forward: { action: "go_forward" }
   // Navigates the browser forward to the next page in history.
 - refresh: { action: "refresh" }
   // Reloads the current page.
-- screenshot: { action: "screenshot", filename?: "<optional_filename.png>" }
+- screenshot: { action: "screenshot", filename?: "<optional_filename.png>", fullPage?: <true|false> }
   // Captures a screenshot of the visible portion of the current page.
-  // (Currently logs a message, full implementation pending)
+  // Set fullPage: true to scroll through and capture the entire page.
+  // Screenshots are shown to the user in the extension panel and can be downloaded.
+- open_tab: { action: "open_tab", url?: "<full_url>", name?: "<tab_name>", background?: <true|false> }
+  // Opens a new tab and continues in it (unless background: true). Name it to switch back or close it later.
+- switch_tab: { action: "switch_tab", name: "<tab_name>" } OR { action: "switch_tab", index: <tab_position_from_0> } OR { action: "switch_tab", title: "<title_text>" } OR { action: "switch_tab", url: "<url_substring_or_glob>" }
+  // Makes another open tab the current one; later steps act in it.
+- close_tab: { action: "close_tab", name?: "<tab_name>" }
+  // Closes the named tab, or the current one (then continues in the previously used tab).
+- assert: { action: "assert", check: "text_present" | "text_absent", text: "<text>", target?: "<semantic_target>" | selector?: "<css_selector>" }
+    OR { action: "assert", check: "url_matches", url: "<url_substring_or_glob>" }
+    OR { action: "assert", check: "element_count", target: "<semantic_target>" | selector: "<css_selector>", count?: <n>, min?: <n>, max?: <n> }
+    OR { action: "assert", check: "attribute_equals", target: "<semantic_target>" | selector: "<css_selector>", attribute: "<name>", value: "<expected>" }
+    OR { action: "assert", check: "variable_equals" | "variable_contains", variable: "<variable_name>", value: "<expected>" }
+  // Fails the run when the check does not hold. Add one at the end of a plan to confirm the outcome,
+  // e.g. { action: "assert", check: "text_absent", text: "No results found" } after a search.
+  // Text checks are case-insensitive and look in the element, or the whole page without a target/selector.
+- if: { action: "if", condition: <condition>, then: [ <steps> ], else?: [ <steps> ] }
+  // Runs 'then' when the condition holds, otherwise 'else' (if given).
+  // A condition is { target: "<semantic_target>" } | { selector: "<css_selector>" } (the element is on the page; add exists: false for "is not")
+  // or { variable: "<variable_name>" } (set and not empty), optionally with equals: "<text>" or contains: "<text>".
+  // Example: { action: "if", condition: { selector: "#cookie-wall" }, then: [ { action: "click", selector: "#cookie-wall .accept" } ] }
+- repeat_until: { action: "repeat_until", condition: <condition>, steps: [ <steps> ], maxIterations?: <n, default 10>, collect?: "<variable_name>" }
+  // Checks the condition, and runs 'steps' again while it does not hold. Fails if it still does not hold after maxIterations.
+  // Example (paging): { action: "repeat_until", condition: { selector: "a.next", exists: false }, steps: [ ..., { action: "click", selector: "a.next" } ] }
+- for_each: { action: "for_each", selector: "<css_selector>" | target: "<semantic_target>", steps: [ <steps> ], as?: "<item_name, default item>", maxItems?: <n, default 50>, collect?: "<variable_name>" }
+    OR { action: "for_each", items: "<list_variable_name>", steps: [ <steps> ], as?: "<item_name>" }
+  // Runs 'steps' once per visible matching element, or per entry of a list (e.g. from extract with all: true).
+  // Inside, {{item}} is the element's text (or the list entry) and {{item.index}} its position from 0; elements also give
+  // {{item.selector}} (use it to act on that element, e.g. selector: "{{item.selector}} a") and {{item.url}} (its link).
+  // With 'collect', the values extracted in each iteration are stored as a list in that variable.
+  // Example: { action: "for_each", selector: ".result h3 a", maxItems: 5, collect: "titles", steps: [ { action: "navigate", url: "{{item.url}}" }, { action: "extract", selector: "h1", as: "title" } ] }
+
+Variables:
+- Values extracted with 'as' can be used in the text, url, selector or value of any LATER step via {{variable_name}}.
+- Example: { action: "type", target: "search_input", text: "{{price}}" } or { action: "navigate", url: "https://example.com/orders/{{order_id}}" }
+
+Frames:
+- Any step with a target or selector may add frame: { url?: "<url_substring_or_glob>", name?: "<iframe_name>", selector?: "<iframe_css_selector>" } to run only inside that iframe.
+- Example: { action: "type", selector: "input[name=cardnumber]", text: "4242424242424242", frame: { url: "js.stripe.com" } }
+- Without 'frame' the element is searched in every frame; add 'frame' when the page has several similar iframes (payment fields, embedded editors).
+
+Tabs:
+- The tab the run starts in is named "main"; tabs from open_tab get their 'name' (or tab2, tab3, ...). A link that opens a new tab switches to it automatically.
+- Example: { action: "open_tab", url: "https://example.com/docs", name: "docs" }, ..., { action: "switch_tab", name: "main" }
 
 Semantic Targets:
 - For common interactive elements, use a semantic target name instead of a CSS selector whenever possible. This makes the plan more robust.
@@ -56,7 +112,7 @@ Semantic Targets:
 - If an element is highly specific or doesn't have a clear common role, provide a specific CSS selector using the 'selector' property instead of 'target'.
 
 General Workflow Advice:
-- After navigating to a new page, ESPECIALLY a major site like Google, Yahoo, etc., FIRST check for and handle common overlays like sign-in prompts before attempting primary actions. Use steps like { action: "click", target: "dismiss_popup_button", optional: true }. Mark these overlay steps as optional.
+- Cookie/consent banners and modal overlays are dismissed automatically after each navigation; do not add steps for them. Only for other interruptions (e.g. sign-in prompts on major sites like Google or Yahoo) add an optional step like { action: "click", target: "dismiss_popup_button", optional: true } before the primary actions.
 - After submitting text using a 'type' action (especially into a search input), the VERY NEXT step should almost always be { action: "wait", target: "search_results_container" } to ensure results are loaded before proceeding.
 
 Rules for Selectors (when used):
@@ -65,7 +121,15 @@ Rules for Selectors (when used):
 
 Rules for Waits:
 - STRONGLY prefer waiting for a semantic target (like "search_results_container") or a specific selector. Use duration waits only as a last resort.
+- When no element marks the new state, prefer a wait with until (e.g. { action: "wait", until: "url", url: "/checkout" }) over a duration.
 - Use target: "search_results_container" specifically after submitting a search.
+`;
+
+const SYSTEM_PROMPT = `
+You are an expert web automation assistant. Given a natural language instruction, 
+create a precise JSON plan consisting of a sequence of steps to accomplish the goal.
+
+${ACTION_REFERENCE}
 
 Rules:
 - Keep the plan concise and focused on the goal.
@@ -74,165 +138,321 @@ Rules:
   { "goal": "user goal", "steps": [ { "action": ... }, ... ] }
 `;
 
+// How many times validation problems are sent back to the model before giving up
+export const MAX_PLAN_REPAIR_ATTEMPTS = 2;
+
+function buildRepairPrompt(issueText: string): string {
+  return `The plan you returned is invalid:
+${issueText}
+
+Fix these problems and return the complete corrected plan. Only output the JSON plan, nothing else.`;
+}
+
 /**
- * Generates an execution plan from natural language instructions using OpenAI.
+ * Generates an execution plan from natural language instructions using the configured LLM provider.
+ * The plan is validated step by step; validation problems are sent back to the model for up to
+ * MAX_PLAN_REPAIR_ATTEMPTS repair rounds.
  * 
- * @param apiKey OpenAI API Key.
+ * @param settings LLM provider settings (the 'planning' role is used).
  * @param instructions User's natural language instructions.
- * @returns A promise that resolves to the parsed ExecutionPlan object.
- * @throws Throws an error if the API call fails or the response is not valid JSON.
+ * @param customTargets User-defined semantic targets (see describeCustomTargets), offered to the model alongside the built-in ones.
+ * @param libraryFiles Names of the files in the file library, which upload steps can attach.
+ * @returns A promise that resolves to the validated ExecutionPlan object.
+ * @throws PlanValidationError if the plan is still invalid after all repair attempts; other errors if the API call fails.
  */
 export async function getPlanFromInstructions(
-  apiKey: string,
-  instructions: string
+  settings: LLMSettings,
+  instructions: string,
+  customTargets: string[] = [],
+  libraryFiles: string[] = []
 ): Promise<ExecutionPlan> {
-  if (!apiKey) {
-    throw new Error('OpenAI API Key is required.');
+  const settingsProblem = getSettingsProblem(settings);
+  if (settingsProblem) {
+    throw new Error(settingsProblem);
   }
 
-  const openai = new OpenAI({ 
-    apiKey: apiKey,
-    dangerouslyAllowBrowser: true // Required for client-side usage
-  });
+  let system = SYSTEM_PROMPT;
+  if (customTargets.length > 0) {
+    system += `\nAdditional semantic targets configured by the user (use them where they fit): ${customTargets.join(', ')}.\n`;
+  }
+  if (libraryFiles.length > 0) {
+    system += `\nFiles available for upload steps: ${libraryFiles.map(name => JSON.stringify(name)).join(', ')}.\n`;
+  }
+  const messages: ChatMessage[] = [{ role: 'user', content: instructions }];
+  let lastPlan: ExecutionPlan | null = null;
+  let issues: PlanValidationIssue[] = [];
 
-  console.log('Sending request to OpenAI...');
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Using the specified model (check exact identifier if needed)
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: instructions }
-      ],
-      temperature: 0.2, // Lower temperature for more deterministic plan generation
-      response_format: { type: "json_object" } // Request JSON output
+  for (let attempt = 0; attempt <= MAX_PLAN_REPAIR_ATTEMPTS; attempt++) {
+    const content = await completeWithProvider(settings, {
+      role: 'planning',
+      system,
+      messages,
+      json: true // Request JSON output
     });
+    console.log(`Received plan response content (attempt ${attempt + 1}):`, content);
 
-    const content = completion.choices[0]?.message?.content;
-    console.log('Received OpenAI response content:', content);
-
-    if (!content) {
-      throw new Error('OpenAI response content is empty.');
+    let issueText: string;
+    try {
+      const parsed = parseJsonFromText(content);
+      issues = validatePlan(parsed);
+      // Keep the last structurally usable plan so remaining issues can be shown (and fixed) by the user
+      if (parsed && typeof parsed === 'object' && Array.isArray((parsed as ExecutionPlan).steps)) {
+        lastPlan = parsed as ExecutionPlan;
+      }
+      if (issues.length === 0) {
+        console.log('Parsed and validated plan:', parsed);
+        return parsed as ExecutionPlan;
+      }
+      issueText = formatValidationIssues(issues, lastPlan);
+    } catch (parseError) {
+      const message = parseError instanceof Error ? parseError.message : String(parseError);
+      issues = [{ stepIndex: null, message: `Response is not valid JSON: ${message}` }];
+      issueText = issues[0].message;
     }
 
-    // Parse the JSON response
-    const plan: ExecutionPlan = JSON.parse(content);
+    console.warn(`Plan failed validation (attempt ${attempt + 1}/${MAX_PLAN_REPAIR_ATTEMPTS + 1}):\n${issueText}`);
+    messages.push({ role: 'assistant', content }, { role: 'user', content: buildRepairPrompt(issueText) });
+  }
+
+  throw new PlanValidationError(
+    `The generated plan is still invalid after ${MAX_PLAN_REPAIR_ATTEMPTS} repair attempt(s).`,
+    issues,
+    lastPlan
+  );
+}
+
+// Most actions the agent may return per decision; it should look at the page again after that
+export const MAX_AGENT_ACTIONS = 3;
+
+// The agent loop is the control flow in agent mode; these plan steps are rejected there
+const CONTROL_FLOW_ACTIONS = ['if', 'repeat_until', 'for_each'];
+
+const AGENT_SYSTEM_PROMPT = `
+You are an expert web automation agent working step by step in the user's browser.
+Each turn you receive the user's goal, the actions already taken with their outcomes, and the
+current state of the page. Decide what to do next.
+
+${ACTION_REFERENCE}
+
+Rules:
+- Only use elements that appear in the current page state. Target them by their ref, e.g. { "action": "click", "ref": "e12" },
+  instead of "target" or "selector"; refs stay valid until the element is removed from the page.
+- Return at most ${MAX_AGENT_ACTIONS} actions per turn. Return fewer when the page will change (e.g. after a click or navigation) so you can look at the result first.
+- If an action failed, try a different approach instead of repeating it unchanged.
+- Do not use if, repeat_until or for_each; look at the page after each action and decide again instead.
+- When the goal has been achieved, set "done": true and "outcome": "achieved", return no actions and describe the outcome in "summary".
+- If the goal cannot be achieved, set "done": true and "outcome": "impossible" and explain why in "summary".
+- Only output a single JSON object, nothing else:
+  { "reasoning": "<why these actions>", "done": <true|false>, "outcome"?: "<achieved|impossible>", "summary"?: "<outcome when done>", "actions": [ { "action": ... }, ... ] }
+`;
+
+// One previously executed agent action, as reported back to the model
+export interface AgentHistoryEntry {
+  description: string;
+  success: boolean;
+  error?: string;
+}
+
+function formatHistory(history: AgentHistoryEntry[]): string {
+  return history.length === 0
+    ? 'None yet.'
+    : history.map((entry, index) => `${index + 1}. ${entry.description} -> ${entry.success ? 'OK' : `FAILED: ${entry.error || 'unknown error'}`}`).join('\n');
+}
+
+function buildAgentPrompt(instructions: string, history: AgentHistoryEntry[], pageState: string): string {
+  const historyText = formatHistory(history);
+  return `Goal:
+${instructions}
 
-    // Basic validation (can be expanded with Zod later)
-    if (!plan || typeof plan !== 'object' || !plan.goal || !Array.isArray(plan.steps)) {
-        throw new Error('Invalid plan structure received from OpenAI.');
+Actions taken so far:
+${historyText}
+
+Current page state:
+${pageState}`;
+}
+
+const AGENT_OUTCOMES: readonly AgentOutcome[] = ['achieved', 'impossible'];
+
+// Normalises a parsed response into an AgentDecision, or returns the problems to send back to the model
+function checkAgentDecision(parsed: unknown): { decision?: AgentDecision; problems: string[] } {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return { problems: ['Response must be a JSON object'] };
+  const raw = parsed as Record<string, unknown>;
+  const actions = raw.actions === undefined ? [] : raw.actions;
+  if (!Array.isArray(actions)) return { problems: ['"actions" must be an array'] };
+  const problems: string[] = [];
+  actions.forEach((step, index) => {
+    validateStep(step).forEach(problem => problems.push(`Action ${index + 1}: ${problem}`));
+    const action = (step as Record<string, unknown> | null)?.action;
+    if (typeof action === 'string' && CONTROL_FLOW_ACTIONS.includes(action)) {
+      problems.push(`Action ${index + 1}: "${action}" is not available in agent mode; return the next action itself`);
     }
+  });
+  const done = raw.done === true;
+  if (!done && actions.length === 0) problems.push('Return at least one action, or set "done": true');
+  const outcome = AGENT_OUTCOMES.find(value => value === raw.outcome);
+  if (done && !outcome) problems.push(`When "done" is true, "outcome" must be one of: ${AGENT_OUTCOMES.join(', ')}`);
+  if (problems.length > 0) return { problems };
+  return {
+    decision: {
+      reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
+      done,
+      ...(done ? { outcome } : {}),
+      summary: typeof raw.summary === 'string' ? raw.summary : undefined,
+      actions: (done ? [] : actions.slice(0, MAX_AGENT_ACTIONS)) as PlanStep[]
+    },
+    problems: []
+  };
+}
 
-    console.log('Parsed plan:', plan);
-    return plan;
-
-  } catch (error) {
-    console.error('OpenAI API call failed:', error);
-    
-    let errorMessage = 'Unknown OpenAI API error';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      // Check for specific OpenAI API error structure if available (example)
-      // The actual structure might differ, check openai-node docs or actual errors
-      const openAIError = error as any; // Use type assertion cautiously or define specific type
-      if (openAIError.response?.data?.error?.message) {
-        errorMessage = openAIError.response.data.error.message;
-        console.error('OpenAI Error Details:', openAIError.response.data.error);
-      } else if (openAIError.response?.data) {
-        console.error('OpenAI Response Data:', openAIError.response.data);
-      }
+/**
+ * Asks the model for the next action(s) of the observe-act agent loop, given what happened so far
+ * and the current page state. Invalid responses are sent back for up to MAX_PLAN_REPAIR_ATTEMPTS repairs.
+ *
+ * @param settings LLM provider settings (the 'planning' role is used).
+ * @returns The model's decision: its reasoning, whether the goal is met, and the next actions.
+ * @throws Error if the API call fails or no valid decision is returned after the repair attempts.
+ */
+export async function getNextAgentDecision(
+  settings: LLMSettings,
+  instructions: string,
+  history: AgentHistoryEntry[],
+  pageState: string
+): Promise<AgentDecision> {
+  const settingsProblem = getSettingsProblem(settings);
+  if (settingsProblem) {
+    throw new Error(settingsProblem);
+  }
+
+  const messages: ChatMessage[] = [{ role: 'user', content: buildAgentPrompt(instructions, history, pageState) }];
+  let problemText = '';
+  for (let attempt = 0; attempt <= MAX_PLAN_REPAIR_ATTEMPTS; attempt++) {
+    const content = await completeWithProvider(settings, {
+      role: 'planning',
+      system: AGENT_SYSTEM_PROMPT,
+      messages,
+      json: true
+    });
+    console.log(`Received agent decision (attempt ${attempt + 1}):`, content);
+
+    try {
+      const { decision, problems } = checkAgentDecision(parseJsonFromText(content));
+      if (decision) return decision;
+      problemText = problems.join('\n');
+    } catch (parseError) {
+      problemText = `Response is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
     }
-    
-    throw new Error(`OpenAI API error: ${errorMessage}`);
+    console.warn(`Agent decision invalid (attempt ${attempt + 1}):\n${problemText}`);
+    messages.push({ role: 'assistant', content }, { role: 'user', content: `Your response is invalid:\n${problemText}\n\nReturn a corrected JSON object.` });
   }
+  throw new Error(`The model did not return a valid next action:\n${problemText}`);
 }
 
+const GOAL_VERIFICATION_SYSTEM_PROMPT = `
+You check whether a browser automation run achieved its goal. You receive the goal, the steps that were run
+with their outcomes, and the state of the page the run ended on. Judge only from this evidence: a run whose
+steps all succeeded can still have missed the goal (wrong page, empty search results, an error message).
+Only output a single JSON object, nothing else:
+{ "achieved": <true|false>, "explanation": "<one or two sentences citing what on the page shows it>" }
+`;
+
+/**
+ * Asks the model whether the page a plan run ended on meets the plan's goal.
+ *
+ * @param settings LLM provider settings (the 'planning' role is used).
+ * @param steps The steps that were run, with their outcomes.
+ * @param pageState Description of the final page (see background/pageSnapshot.ts).
+ * @throws Error if the API call fails or the response is not a verdict.
+ */
+export async function verifyGoal(
+  settings: LLMSettings,
+  goal: string,
+  steps: AgentHistoryEntry[],
+  pageState: string
+): Promise<GoalVerification> {
+  const settingsProblem = getSettingsProblem(settings);
+  if (settingsProblem) {
+    throw new Error(settingsProblem);
+  }
+
+  const content = await completeWithProvider(settings, {
+    role: 'planning',
+    system: GOAL_VERIFICATION_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: `Goal:\n${goal}\n\nSteps run:\n${formatHistory(steps)}\n\nFinal page state:\n${pageState}` }],
+    json: true
+  });
+  console.log('Received goal verification:', content);
+
+  const parsed = parseJsonFromText(content) as Record<string, unknown> | null;
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.achieved !== 'boolean') {
+    throw new Error('The model did not return a goal verification ({ "achieved": true|false, "explanation": "..." }).');
+  }
+  return { achieved: parsed.achieved, explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '' };
+}
+
+const TROUBLESHOOTING_SYSTEM_PROMPT = "You are a web automation troubleshooting assistant. Analyze the provided error, page snapshot, and screenshot to suggest potential fixes. Provide up to 3 alternative PlanStep JSON objects, ranked by likelihood of success.";
+
 /**
  * Sends a troubleshooting prompt to the LLM and returns suggested fallback steps.
+ * When a screenshot is given it is attached as image content; if the model rejects the
+ * image (no vision support), the request is repeated once as text only. Other failures are not retried here.
  * 
- * @param apiKey OpenAI API Key.
- * @param prompt The formatted prompt containing error details, HTML, screenshot etc.
+ * @param settings LLM provider settings (the 'troubleshooting' role is used).
+ * @param prompt The formatted prompt containing error details and page context.
+ * @param screenshot Optional screenshot as a base64 data URL.
  * @returns A promise that resolves to an array of suggested PlanStep objects (up to 3), or empty array if none.
  * @throws Throws an error ONLY if the API call itself fails catastrophically.
  */
 export async function getTroubleshootingSuggestion(
-  apiKey: string,
-  prompt: string
+  settings: LLMSettings,
+  prompt: string,
+  screenshot?: string
 ): Promise<PlanStep[]> { // Return an array of PlanSteps
-  if (!apiKey) {
-    throw new Error('OpenAI API Key is required.');
+  const settingsProblem = getSettingsProblem(settings);
+  if (settingsProblem) {
+    throw new Error(settingsProblem);
   }
 
-  const openai = new OpenAI({ 
-    apiKey: apiKey,
-    dangerouslyAllowBrowser: true 
+  const request = (content: string | ContentPart[]) => completeWithProvider(settings, {
+    role: 'troubleshooting',
+    system: TROUBLESHOOTING_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content }] // Prompt asks for JSON array in markdown
   });
 
-  console.log('Sending troubleshooting request to OpenAI for fallback candidates...');
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini", 
-      messages: [
-        { role: "system", content: "You are a web automation troubleshooting assistant. Analyze the provided error, HTML, and screenshot to suggest potential fixes. Provide up to 3 alternative PlanStep JSON objects, ranked by likelihood of success." },
-        { role: "user", content: prompt } // Prompt now asks for JSON array in markdown
-      ],
-      temperature: 0.5, 
-      max_tokens: 600, // Increase slightly for multiple candidates + reasoning
-      response_format: { type: "json_object" } 
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    console.log('Received OpenAI troubleshooting response content:', content);
-
-    if (!content) {
-      console.warn('OpenAI troubleshooting response content is empty.');
-      return []; // Return empty array
-    }
-
-    // Attempt to extract JSON array from ```json ... ``` block
-    const jsonMatch = content.match(/```json\n(\[.*?\])\n```/s);
-    if (jsonMatch && jsonMatch[1]) {
-        try {
-            const parsedSteps = JSON.parse(jsonMatch[1]) as PlanStep[];
-            if (Array.isArray(parsedSteps)) {
-                console.log('Parsed fallback candidates from markdown block:', parsedSteps);
-                // Optional: Add validation that elements look like PlanSteps
-                return parsedSteps.filter(step => typeof step === 'object' && step !== null && step.action); 
-            } else {
-                 console.warn('Parsed JSON from markdown block is not an array.');
-            }
-        } catch (parseError) {
-             console.warn('Failed to parse JSON from markdown block:', parseError);
-        }
-    }
-    
-    // Fallback: Try parsing the entire content directly
+  let content: string;
+  if (screenshot) {
     try {
-        const parsedDirect = JSON.parse(content);
-        if(Array.isArray(parsedDirect)) {
-            console.warn('Parsed fallback candidates directly from response (no markdown block found).')
-            return parsedDirect.filter(step => typeof step === 'object' && step !== null && step.action); 
-        }
-        // Ignore if it parsed but wasn't an array (e.g., the error object)
-        console.warn('LLM returned valid JSON, but not in the expected PlanStep array format:', parsedDirect);
-        return []; // Treat as no valid suggestions
-    } catch (directParseError) {
-         console.warn('Could not parse LLM response as JSON (neither markdown block nor direct). Response:', content);
-         return []; // Treat as no valid suggestions
+      content = await request([{ type: 'text', text: prompt }, { type: 'image', dataUrl: screenshot }]);
+    } catch (error) {
+      if (!isImageRejection(error)) throw error;
+      console.warn('The model rejected the screenshot, retrying as text only:', error);
+      content = await request(`${prompt}\n(The screenshot could not be sent to this model.)`);
     }
+  } else {
+    content = await request(prompt);
+  }
+  console.log('Received troubleshooting response content:', content);
 
-  } catch (error) {
-    console.error('OpenAI API call failed during troubleshooting:', error);
-    // Re-throw API errors
-    let errorMessage = 'Unknown OpenAI API error';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      const openAIError = error as any; 
-      if (openAIError.response?.data?.error?.message) {
-        errorMessage = openAIError.response.data.error.message;
-      }
-    } 
-    throw new Error(`OpenAI API troubleshooting error: ${errorMessage}`);
+  if (!content) {
+    console.warn('Troubleshooting response content is empty.');
+    return []; // Return empty array
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseJsonFromText(content);
+  } catch (parseError) {
+    console.warn('Could not parse LLM troubleshooting response as JSON. Response:', content);
+    return []; // Treat as no valid suggestions
   }
-} 
\ No newline at end of file
+
+  // Accept a bare array, or an object wrapping one (JSON modes force a top-level object)
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!candidates) {
+    console.warn('LLM returned valid JSON, but not in the expected PlanStep array format:', parsed);
+    return [];
+  }
+  console.log('Parsed fallback candidates:', candidates);
+  return candidates.filter((step): step is PlanStep => typeof step === 'object' && step !== null && step.action);
+}
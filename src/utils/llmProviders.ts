@@ -0,0 +1,232 @@
+import OpenAI from 'openai';
+import { PROVIDER_LABELS, type LLMSettings, type ModelRole } from './llmSettings';
+
+// Message content is plain text, or a list of parts when images are attached
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; dataUrl: string }; // base64 data URL, e.g. data:image/jpeg;base64,...
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface CompletionRequest {
+  role: ModelRole;     // Selects the model/temperature/token limit from settings
+  system: string;
+  messages: ChatMessage[];
+  json?: boolean;      // Ask for a JSON object response where the provider supports it
+}
+
+// Minimal interface every backend implements; returns the raw text of the first completion
+export interface LLMProvider {
+  readonly label: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Rough token estimate (about 4 characters per token for English text and markup)
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cuts text to roughly `maxTokens` tokens, marking the cut. Returns '' for a budget of zero or less.
+ */
+export function fitToTokenBudget(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return '';
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)}\n[... truncated to fit the context budget]`;
+}
+
+/**
+ * Approximate token cost of an image of the given size (both OpenAI and Anthropic charge roughly per 750 pixels).
+ */
+export function estimateImageTokens(width: number, height: number): number {
+  return Math.ceil((width * height) / 750);
+}
+
+function parseDataUrl(dataUrl: string): { mediaType: string; data: string } {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) throw new Error('Image must be a base64 data URL');
+  return { mediaType: match[1], data: match[2] };
+}
+
+function toOpenAIContent(content: ChatMessage['content']) {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'text'
+    ? { type: 'text' as const, text: part.text }
+    : { type: 'image_url' as const, image_url: { url: part.dataUrl } });
+}
+
+function toAnthropicContent(content: ChatMessage['content']) {
+  if (typeof content === 'string') return content;
+  return content.map(part => {
+    if (part.type === 'text') return { type: 'text', text: part.text };
+    const { mediaType, data } = parseDataUrl(part.dataUrl);
+    return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+  });
+}
+
+// A text block of an Anthropic Messages API response; other block types have no text
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+}
+
+/**
+ * A failed provider call. status is the HTTP status when the provider answered with an error.
+ */
+export class LLMProviderError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+  }
+}
+
+// Models without vision support reject image content with a bad request that says so
+const IMAGE_REJECTION_PATTERN = /image|vision|multimodal/i;
+
+/**
+ * Whether the provider refused a request because of its image content (e.g. a model without vision support),
+ * as opposed to failures such as a bad API key, rate limits or network errors.
+ */
+export function isImageRejection(error: unknown): boolean {
+  return error instanceof LLMProviderError && error.status === 400 && IMAGE_REJECTION_PATTERN.test(error.message);
+}
+
+// The HTTP status of SDK / HTTP errors, if the provider answered
+function errorStatus(error: unknown): number | undefined {
+  if (error instanceof OpenAI.APIError || error instanceof LLMProviderError) return error.status;
+  return undefined;
+}
+
+// Extracts the most useful message from SDK / HTTP errors
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Unknown error';
+  // The OpenAI SDK keeps the error object of the response body, whose message is more specific than the HTTP summary
+  if (error instanceof OpenAI.APIError && error.error && 'message' in error.error && typeof error.error.message === 'string') {
+    return error.error.message;
+  }
+  return error.message;
+}
+
+function createOpenAIProvider(settings: LLMSettings): LLMProvider {
+  const isCompatible = settings.provider === 'openai_compatible';
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: settings.apiKey || 'not-needed',
+    baseURL: settings.baseUrl.trim() || undefined,
+    dangerouslyAllowBrowser: true // Required for client-side usage
+  });
+  return {
+    label: PROVIDER_LABELS[settings.provider],
+    async complete(request) {
+      const roleSettings = settings[request.role];
+      const completion = await client.chat.completions.create({
+        model: roleSettings.model,
+        messages: [
+          { role: 'system', content: request.system },
+          // Image parts are only valid in user messages
+          ...request.messages.map(message => message.role === 'user'
+            ? { role: 'user' as const, content: toOpenAIContent(message.content) }
+            : { role: 'assistant' as const, content: typeof message.content === 'string' ? message.content : message.content.map(part => part.type === 'text' ? part.text : '').join('') })
+        ],
+        temperature: roleSettings.temperature,
+        max_tokens: roleSettings.maxTokens,
+        // Not every OpenAI-compatible server implements response_format, so only use it against OpenAI itself
+        ...(request.json && !isCompatible ? { response_format: { type: 'json_object' as const } } : {})
+      });
+      return completion.choices[0]?.message?.content || '';
+    }
+  };
+}
+
+function createAnthropicProvider(settings: LLMSettings): LLMProvider {
+  const endpoint = settings.baseUrl.trim() ? `${settings.baseUrl.trim().replace(/\/$/, '')}/v1/messages` : ANTHROPIC_API_URL;
+  return {
+    label: PROVIDER_LABELS.anthropic,
+    async complete(request) {
+      const roleSettings = settings[request.role];
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': settings.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'anthropic-dangerous-direct-browser-access': 'true' // Required for client-side usage
+        },
+        body: JSON.stringify({
+          model: roleSettings.model,
+          system: request.system,
+          messages: request.messages.map(message => ({ role: message.role, content: toAnthropicContent(message.content) })),
+          temperature: roleSettings.temperature,
+          max_tokens: roleSettings.maxTokens
+        })
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new LLMProviderError(body?.error?.message || `HTTP ${response.status} ${response.statusText}`, response.status);
+      }
+      const blocks: AnthropicContentBlock[] = body?.content || [];
+      return blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    }
+  };
+}
+
+/**
+ * Builds the provider backend described by the settings.
+ */
+export function createProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'anthropic': return createAnthropicProvider(settings);
+    case 'openai':
+    case 'openai_compatible': return createOpenAIProvider(settings);
+    default: {
+      const provider: never = settings.provider;
+      throw new Error(`Unsupported LLM provider: ${provider}`);
+    }
+  }
+}
+
+/**
+ * Runs a completion and wraps any failure in an LLMProviderError naming the provider.
+ */
+export async function completeWithProvider(settings: LLMSettings, request: CompletionRequest): Promise<string> {
+  const provider = createProvider(settings);
+  console.log(`Sending ${request.role} request to ${provider.label} (model: ${settings[request.role].model})...`);
+  try {
+    return await provider.complete(request);
+  } catch (error) {
+    console.error(`${provider.label} API call failed:`, error);
+    throw new LLMProviderError(`${provider.label} API error: ${describeError(error)}`, errorStatus(error));
+  }
+}
+
+/**
+ * Parses a JSON value from model output, tolerating markdown code fences and surrounding prose
+ * (models without a JSON response mode often add them).
+ */
+export function parseJsonFromText(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const candidate = (fenced ? fenced[1] : content).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall back to the outermost object/array in the text
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw new Error('No JSON found in model response.');
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
@@ -0,0 +1,95 @@
+// Stored LLM configuration shared by the panel (planning) and the background (troubleshooting)
+
+export type ProviderKind = 'openai' | 'anthropic' | 'openai_compatible';
+
+// Per-role model parameters; planning and troubleshooting are tuned independently
+export interface ModelRoleSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Troubleshooting also sends page context: the screenshot (as an image, for vision models)
+// and snapshot/HTML text, together kept within an approximate token budget
+export interface TroubleshootingSettings extends ModelRoleSettings {
+  vision: boolean; // Send the screenshot as image content; turn off for text-only models
+  screenshotMaxWidth: number; // Screenshots are downscaled to at most this width in pixels
+  contextTokenBudget: number; // Approximate tokens for the page context (image + text)
+}
+
+export interface LLMSettings {
+  provider: ProviderKind;
+  apiKey: string;
+  baseUrl: string; // Required for openai_compatible (e.g. http://localhost:11434/v1), optional override otherwise
+  planning: ModelRoleSettings;
+  troubleshooting: TroubleshootingSettings;
+}
+
+export type ModelRole = 'planning' | 'troubleshooting';
+
+export const LLM_SETTINGS_KEY = 'llm_settings';
+// Key used before providers were configurable; still read so existing installs keep working
+const LEGACY_API_KEY = 'openai_api_key';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  openai_compatible: 'OpenAI-compatible (Ollama, llama.cpp, LM Studio)'
+};
+
+// Suggested model per provider, used when switching providers in Settings
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  openai_compatible: 'llama3.1'
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'openai',
+  apiKey: '',
+  baseUrl: '',
+  planning: { model: DEFAULT_MODELS.openai, temperature: 0.2, maxTokens: 2048 },
+  troubleshooting: {
+    model: DEFAULT_MODELS.openai,
+    temperature: 0.5,
+    maxTokens: 600,
+    vision: true,
+    screenshotMaxWidth: 1024,
+    contextTokenBudget: 6000
+  }
+};
+
+/**
+ * Loads LLM settings from chrome.storage.local, filling in defaults for missing fields.
+ */
+export async function loadLLMSettings(): Promise<LLMSettings> {
+  const stored = await chrome.storage.local.get([LLM_SETTINGS_KEY, LEGACY_API_KEY]);
+  const saved: Partial<LLMSettings> = stored?.[LLM_SETTINGS_KEY] || {};
+  return {
+    ...DEFAULT_LLM_SETTINGS,
+    ...saved,
+    apiKey: saved.apiKey ?? stored?.[LEGACY_API_KEY] ?? '',
+    planning: { ...DEFAULT_LLM_SETTINGS.planning, ...saved.planning },
+    troubleshooting: { ...DEFAULT_LLM_SETTINGS.troubleshooting, ...saved.troubleshooting }
+  };
+}
+
+export async function saveLLMSettings(settings: LLMSettings): Promise<void> {
+  await chrome.storage.local.set({ [LLM_SETTINGS_KEY]: settings });
+}
+
+/**
+ * Returns a user-facing reason the settings cannot be used, or null if they look complete.
+ * Local OpenAI-compatible servers usually need no API key, but always need a base URL.
+ */
+export function getSettingsProblem(settings: LLMSettings): string | null {
+  if (settings.provider === 'openai_compatible') {
+    if (!settings.baseUrl.trim()) return 'Please enter the base URL of your OpenAI-compatible server in Settings.';
+  } else if (!settings.apiKey.trim()) {
+    return `Please enter your ${PROVIDER_LABELS[settings.provider]} API Key in Settings.`;
+  }
+  if (!settings.planning.model.trim() || !settings.troubleshooting.model.trim()) {
+    return 'Please choose a model for both planning and troubleshooting in Settings.';
+  }
+  return null;
+}
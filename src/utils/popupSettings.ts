@@ -0,0 +1,45 @@
+import type { ConsentChoice } from '../common/types';
+import { matchesDomainPattern } from './customHeuristics';
+
+// Automatic dismissal of cookie banners and modal overlays after navigation (see background/popupDismissal.ts)
+
+export type PopupAction = ConsentChoice | 'off'; // 'off' leaves banners on the site alone
+
+export interface SitePopupRule {
+  site: string; // Domain pattern, matched like heuristics domain patterns ("example.com" includes subdomains)
+  action: PopupAction;
+}
+
+export interface PopupSettings {
+  enabled: boolean;
+  defaultAction: PopupAction;
+  sites: SitePopupRule[];
+}
+
+export const POPUP_SETTINGS_KEY = 'popup_settings';
+
+export const DEFAULT_POPUP_SETTINGS: PopupSettings = {
+  enabled: true,
+  defaultAction: 'reject',
+  sites: []
+};
+
+/**
+ * The action for a site: the most specific matching site rule (longest pattern), else the default.
+ */
+export function getPopupAction(settings: PopupSettings, site: string): PopupAction {
+  if (!settings.enabled) return 'off';
+  const rule = settings.sites
+    .filter(candidate => candidate.site.trim() && matchesDomainPattern(candidate.site, site))
+    .sort((a, b) => b.site.length - a.site.length)[0];
+  return rule ? rule.action : settings.defaultAction;
+}
+
+export async function loadPopupSettings(): Promise<PopupSettings> {
+  const stored = await chrome.storage.local.get(POPUP_SETTINGS_KEY);
+  return { ...DEFAULT_POPUP_SETTINGS, ...(stored?.[POPUP_SETTINGS_KEY] || {}) };
+}
+
+export async function savePopupSettings(settings: PopupSettings): Promise<void> {
+  await chrome.storage.local.set({ [POPUP_SETTINGS_KEY]: settings });
+}
@@ -0,0 +1,103 @@
+import type { ExecutionPlan } from '../common/types';
+import { findPlanParameters } from '../common/template';
+import { validatePlan, formatValidationIssues } from '../common/planValidation';
+
+// Saved, parameterised plans that run without calling the LLM.
+// Parameters are the {{name}} placeholders the plan needs values for (see findPlanParameters).
+
+export interface RecipeParameter {
+  name: string;
+  defaultValue?: string;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  plan: ExecutionPlan;
+  parameters: RecipeParameter[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const RECIPES_KEY = 'recipes';
+// Marker in exported files so imports can tell recipe exports from arbitrary JSON
+const EXPORT_FORMAT = 'better-ai-agent/recipes';
+const EXPORT_VERSION = 1;
+
+/**
+ * Builds a recipe from a plan, deriving its parameters. When updating an existing recipe,
+ * its id, creation time and the defaults of parameters that are still used are kept.
+ */
+export function createRecipe(name: string, plan: ExecutionPlan, existing?: Recipe): Recipe {
+  const previousDefaults = new Map((existing?.parameters || []).map(param => [param.name, param.defaultValue]));
+  const now = Date.now();
+  return {
+    id: existing?.id || `recipe-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    plan: structuredClone(plan),
+    parameters: findPlanParameters(plan).map(paramName => ({
+      name: paramName,
+      defaultValue: previousDefaults.get(paramName)
+    })),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+}
+
+export async function loadRecipes(): Promise<Recipe[]> {
+  const stored = await chrome.storage.local.get(RECIPES_KEY);
+  const recipes = stored?.[RECIPES_KEY];
+  return Array.isArray(recipes) ? recipes : [];
+}
+
+// Inserts or replaces (by id) the given recipes
+export async function saveRecipes(toSave: Recipe[]): Promise<void> {
+  const ids = new Set(toSave.map(recipe => recipe.id));
+  const recipes = (await loadRecipes()).filter(recipe => !ids.has(recipe.id));
+  await chrome.storage.local.set({ [RECIPES_KEY]: [...recipes, ...toSave] });
+}
+
+export async function saveRecipe(recipe: Recipe): Promise<void> {
+  await saveRecipes([recipe]);
+}
+
+export async function deleteRecipe(id: string): Promise<void> {
+  const recipes = await loadRecipes();
+  await chrome.storage.local.set({ [RECIPES_KEY]: recipes.filter(recipe => recipe.id !== id) });
+}
+
+export function exportRecipes(recipes: Recipe[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, recipes }, null, 2);
+}
+
+/**
+ * Parses an exported recipe file (or a bare array of recipes). Every recipe's plan is validated;
+ * parameters are re-derived from the plan so hand-edited files stay consistent.
+ * @throws Error describing the first invalid recipe.
+ */
+export function parseRecipeImport(text: string): Recipe[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Recipe file is not valid JSON');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>).recipes)
+      ? (data as Record<string, unknown>).recipes as unknown[]
+      : null;
+  if (!list) throw new Error('Recipe file must contain a "recipes" array');
+
+  return list.map((entry, index) => {
+    const raw = (entry && typeof entry === 'object' ? entry : {}) as Partial<Recipe>;
+    const label = typeof raw.name === 'string' && raw.name.trim() ? `"${raw.name}"` : `#${index + 1}`;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`Recipe ${label} needs a name`);
+    const issues = validatePlan(raw.plan);
+    if (issues.length > 0) {
+      throw new Error(`Recipe ${label} has an invalid plan:\n${formatValidationIssues(issues, raw.plan as ExecutionPlan)}`);
+    }
+    const recipe = createRecipe(raw.name, raw.plan as ExecutionPlan, Array.isArray(raw.parameters) ? raw as Recipe : undefined);
+    return typeof raw.id === 'string' && raw.id ? { ...recipe, id: raw.id } : recipe;
+  });
+}
@@ -0,0 +1,106 @@
+import type { ExecutionPlan, StepResult } from '../common/types';
+
+// Locally stored record of past runs, written by the background at the end of each run
+// and browsed/replayed from the panel's History view
+
+export type RunStatus = 'success' | 'failed' | 'cancelled';
+
+export interface RunStepRecord {
+  stepId: number;
+  description: string;
+  startedAt: number;
+  durationMs: number;
+  tabUrl?: string; // URL of the tab the step ended on
+  result: StepResult; // Includes fallback details and extracted data
+}
+
+export interface RunRecord {
+  id: string; // The requestId of the run
+  instructions?: string; // Absent for runs started from an edited or replayed plan without instructions
+  plan: ExecutionPlan; // Exactly what was executed, so it can be re-run without the LLM
+  inputs?: Record<string, unknown>; // Initial variables (recipe parameters) the plan was run with
+  stepDescriptions: string[]; // Display text per step id (nested steps included), including steps that never ran
+  startedAt: number;
+  finishedAt: number;
+  status: RunStatus;
+  error?: string;
+  steps: RunStepRecord[];
+  variables: Record<string, unknown>;
+}
+
+export interface HistorySettings {
+  maxRuns: number; // 0 disables history
+  maxAgeDays: number; // 0 keeps runs regardless of age
+  keepScreenshots: boolean; // Screenshots are large; by default they are dropped from stored runs
+}
+
+export const RUN_HISTORY_KEY = 'run_history';
+export const HISTORY_SETTINGS_KEY = 'history_settings';
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  maxRuns: 50,
+  maxAgeDays: 30,
+  keepScreenshots: false
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function loadHistorySettings(): Promise<HistorySettings> {
+  const stored = await chrome.storage.local.get(HISTORY_SETTINGS_KEY);
+  return { ...DEFAULT_HISTORY_SETTINGS, ...(stored?.[HISTORY_SETTINGS_KEY] || {}) };
+}
+
+export async function saveHistorySettings(settings: HistorySettings): Promise<void> {
+  await chrome.storage.local.set({ [HISTORY_SETTINGS_KEY]: settings });
+  // Apply tightened limits straight away
+  const runs = await loadRunHistory();
+  await chrome.storage.local.set({ [RUN_HISTORY_KEY]: applyRetention(runs, settings) });
+}
+
+/**
+ * Keeps the newest runs allowed by the retention settings. Expects runs ordered newest first.
+ */
+export function applyRetention(runs: RunRecord[], settings: HistorySettings, now = Date.now()): RunRecord[] {
+  const fresh = settings.maxAgeDays > 0
+    ? runs.filter(run => now - run.finishedAt <= settings.maxAgeDays * DAY_MS)
+    : runs;
+  return fresh.slice(0, Math.max(0, settings.maxRuns));
+}
+
+/**
+ * Loads stored runs, newest first.
+ */
+export async function loadRunHistory(): Promise<RunRecord[]> {
+  const stored = await chrome.storage.local.get(RUN_HISTORY_KEY);
+  const runs = stored?.[RUN_HISTORY_KEY];
+  return Array.isArray(runs) ? runs : [];
+}
+
+export async function saveRunRecord(record: RunRecord): Promise<void> {
+  const settings = await loadHistorySettings();
+  if (settings.maxRuns <= 0) return;
+  const toStore = settings.keepScreenshots ? record : withoutScreenshots(record);
+  const runs = await loadRunHistory();
+  const updated = applyRetention([toStore, ...runs.filter(run => run.id !== record.id)], settings);
+  await chrome.storage.local.set({ [RUN_HISTORY_KEY]: updated });
+}
+
+export async function deleteRunRecord(id: string): Promise<void> {
+  const runs = await loadRunHistory();
+  await chrome.storage.local.set({ [RUN_HISTORY_KEY]: runs.filter(run => run.id !== id) });
+}
+
+export async function clearRunHistory(): Promise<void> {
+  await chrome.storage.local.remove(RUN_HISTORY_KEY);
+}
+
+function withoutScreenshots(record: RunRecord): RunRecord {
+  return {
+    ...record,
+    steps: record.steps.map(step => {
+      if (!step.result.screenshot) return step;
+      const { screenshot, ...result } = step.result;
+      return { ...step, result };
+    })
+  };
+}
@@ -0,0 +1,139 @@
+import type { HeuristicsMap } from '../common/types';
+
+// Per-site selectors learned from fallback candidates that worked, so later runs find the element
+// on the first try instead of paying for retries and an LLM call again.
+// Learned selectors for a target are tried before the built-in heuristics (see mergeLearnedHeuristics).
+
+export interface LearnedSelector {
+  id: string;
+  site: string; // Host name without a leading "www." (see getSiteKey)
+  target: string; // Semantic target the selector stands in for, e.g. "search_input"
+  selector: string;
+  successCount: number;
+  failureCount: number;
+  pinned: boolean; // Pinned selectors are always tried first and never dropped for failing
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export const SELECTOR_MEMORY_KEY = 'selector_memory';
+
+// An unpinned selector stops being used once its failures outnumber its successes by this much
+const MAX_NET_FAILURES = 3;
+// Oldest unpinned entries are evicted beyond this many
+const MAX_ENTRIES = 500;
+
+/**
+ * Returns the key learned selectors are stored under for a page URL, or null for pages
+ * that are not ordinary web pages (chrome://, file://, about:blank, ...).
+ */
+export function getSiteKey(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+export function isLearnedSelectorActive(entry: LearnedSelector): boolean {
+  return entry.pinned || entry.failureCount - entry.successCount < MAX_NET_FAILURES;
+}
+
+/**
+ * Active learned selectors for a site and target, best first: pinned, then by net successes,
+ * then most recently used.
+ */
+export function getLearnedSelectors(entries: LearnedSelector[], site: string, target: string): LearnedSelector[] {
+  return entries
+    .filter(entry => entry.site === site && entry.target === target && isLearnedSelectorActive(entry))
+    .sort((a, b) =>
+      Number(b.pinned) - Number(a.pinned)
+      || (b.successCount - b.failureCount) - (a.successCount - a.failureCount)
+      || b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Returns a copy of the heuristics map where each target with learned selectors for the site
+ * lists those first, followed by its remaining built-in selectors.
+ */
+export function mergeLearnedHeuristics(base: HeuristicsMap, entries: LearnedSelector[], site: string | null): HeuristicsMap {
+  if (!site) return base;
+  const merged: HeuristicsMap = { ...base };
+  const targets = new Set(entries.filter(entry => entry.site === site).map(entry => entry.target));
+  for (const target of targets) {
+    const learned = getLearnedSelectors(entries, site, target).map(entry => entry.selector);
+    if (learned.length === 0) continue;
+    merged[target] = [...learned, ...(base[target] || []).filter(selector => !learned.includes(selector))];
+  }
+  return merged;
+}
+
+/**
+ * Records one use of a selector for a site's target, creating the entry on first success.
+ * Failures of selectors that were never learned are ignored.
+ */
+export function applySelectorOutcome(entries: LearnedSelector[], site: string, target: string, selector: string, success: boolean, now = Date.now()): LearnedSelector[] {
+  const existing = entries.find(entry => entry.site === site && entry.target === target && entry.selector === selector);
+  if (!existing) {
+    if (!success) return entries;
+    const created: LearnedSelector = {
+      id: `sel-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      site,
+      target,
+      selector,
+      successCount: 1,
+      failureCount: 0,
+      pinned: false,
+      createdAt: now,
+      lastUsedAt: now
+    };
+    return evictOldest([...entries, created]);
+  }
+  const updated: LearnedSelector = {
+    ...existing,
+    successCount: existing.successCount + (success ? 1 : 0),
+    failureCount: existing.failureCount + (success ? 0 : 1),
+    lastUsedAt: now
+  };
+  return entries.map(entry => entry === existing ? updated : entry);
+}
+
+function evictOldest(entries: LearnedSelector[]): LearnedSelector[] {
+  if (entries.length <= MAX_ENTRIES) return entries;
+  const evictable = entries.filter(entry => !entry.pinned).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  const toEvict = new Set(evictable.slice(0, entries.length - MAX_ENTRIES));
+  return entries.filter(entry => !toEvict.has(entry));
+}
+
+export async function loadSelectorMemory(): Promise<LearnedSelector[]> {
+  const stored = await chrome.storage.local.get(SELECTOR_MEMORY_KEY);
+  const entries = stored?.[SELECTOR_MEMORY_KEY];
+  return Array.isArray(entries) ? entries : [];
+}
+
+async function saveSelectorMemory(entries: LearnedSelector[]): Promise<void> {
+  await chrome.storage.local.set({ [SELECTOR_MEMORY_KEY]: entries });
+}
+
+export async function recordSelectorOutcome(site: string, target: string, selector: string, success: boolean): Promise<void> {
+  const entries = await loadSelectorMemory();
+  const updated = applySelectorOutcome(entries, site, target, selector, success);
+  if (updated !== entries) await saveSelectorMemory(updated);
+}
+
+export async function setLearnedSelectorPinned(id: string, pinned: boolean): Promise<void> {
+  const entries = await loadSelectorMemory();
+  await saveSelectorMemory(entries.map(entry => entry.id === id ? { ...entry, pinned } : entry));
+}
+
+export async function deleteLearnedSelector(id: string): Promise<void> {
+  const entries = await loadSelectorMemory();
+  await saveSelectorMemory(entries.filter(entry => entry.id !== id));
+}
+
+export async function clearSelectorMemory(): Promise<void> {
+  await chrome.storage.local.remove(SELECTOR_MEMORY_KEY);
+}
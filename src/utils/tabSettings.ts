@@ -0,0 +1,19 @@
+// What happens to the tabs a run opened (open_tab steps, links opening a new tab) once it ends
+export interface TabSettings {
+  closeCreatedTabs: boolean;
+}
+
+export const TAB_SETTINGS_KEY = 'tab_settings';
+
+export const DEFAULT_TAB_SETTINGS: TabSettings = {
+  closeCreatedTabs: false
+};
+
+export async function loadTabSettings(): Promise<TabSettings> {
+  const stored = await chrome.storage.local.get(TAB_SETTINGS_KEY);
+  return { ...DEFAULT_TAB_SETTINGS, ...(stored?.[TAB_SETTINGS_KEY] || {}) };
+}
+
+export async function saveTabSettings(settings: TabSettings): Promise<void> {
+  await chrome.storage.local.set({ [TAB_SETTINGS_KEY]: settings });
+}
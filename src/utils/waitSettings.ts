@@ -0,0 +1,24 @@
+// Automatic waiting after clicks, submits and navigations (see background/pageActivity.ts settlePage).
+// Wait steps with "until" work regardless of these settings.
+export interface WaitSettings {
+  autoWait: boolean;
+  idleMs: number;    // How long the network and the DOM must stay quiet
+  maxWaitMs: number; // Upper bound on the whole wait after one step
+}
+
+export const WAIT_SETTINGS_KEY = 'wait_settings';
+
+export const DEFAULT_WAIT_SETTINGS: WaitSettings = {
+  autoWait: true,
+  idleMs: 500,
+  maxWaitMs: 5000
+};
+
+export async function loadWaitSettings(): Promise<WaitSettings> {
+  const stored = await chrome.storage.local.get(WAIT_SETTINGS_KEY);
+  return { ...DEFAULT_WAIT_SETTINGS, ...(stored?.[WAIT_SETTINGS_KEY] || {}) };
+}
+
+export async function saveWaitSettings(settings: WaitSettings): Promise<void> {
+  await chrome.storage.local.set({ [WAIT_SETTINGS_KEY]: settings });
+}